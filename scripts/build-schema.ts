@@ -0,0 +1,10 @@
+// Writes schema.json, the meta-schema for env.schema.json files published at SCHEMA_URL.
+// Run with: npm run build:schema
+import * as fs from 'fs';
+import * as path from 'path';
+import { generateMetaSchema } from '../src/core/meta-schema.js';
+
+const outputPath = path.resolve(__dirname, '..', 'schema.json');
+
+fs.writeFileSync(outputPath, `${JSON.stringify(generateMetaSchema(), null, 2)}\n`);
+console.log(`Wrote ${path.relative(process.cwd(), outputPath)}`);
@@ -1,18 +1,54 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import { Command } from 'commander';
 import { logger } from '../utils/logger.js';
-import { loadEnvFile, loadProcessEnv, mergeEnv } from '../../core/loader.js';
-import { loadSchema, findSchemaFile } from '../../core/schema.js';
-import { isValid } from '../../core/validator.js';
+import { collect } from '../utils/options.js';
+import { loadEnvCascade, loadProcessEnv } from '../../core/loader.js';
+import {
+  loadSchemaAsync,
+  findSchemaFile,
+  resolveEnvironment,
+  resolveEnvironmentName,
+} from '../../core/schema.js';
+import { validate } from '../../core/validator.js';
+import { REPORT_FORMATS, formatReport, isReportFormat } from '../../core/reporter.js';
+import { EnvLocation } from '../../types/index.js';
 
 export const checkCommand = new Command('check')
   .description('Quick validation check (for CI/pre-commit hooks)')
-  .option('-e, --env <path>', 'Path to .env file', '.env')
+  .option(
+    '-e, --env <path>',
+    'Path to .env file, repeat to layer files (default: .env cascade)',
+    collect,
+    []
+  )
   .option('-s, --schema <path>', 'Path to schema file')
   .option('--process-env', 'Validate process.env instead of .env file')
   .option('-q, --quiet', 'Suppress all output')
+  .option('--environment <name>', 'Apply schema overrides for this environment (default: NODE_ENV)')
+  .option('--expand', 'Expand ${VAR} references in values')
+  .option('--bail', 'Report only the first failing constraint of each variable')
+  .option('-f, --format <format>', `Report format (text, ${REPORT_FORMATS.join(', ')})`, 'text')
+  .option('-o, --output-file <path>', 'Write the report to a file instead of stdout')
   .action(
-    async (options: { env: string; schema?: string; processEnv?: boolean; quiet?: boolean }) => {
+    async (options: {
+      env: string[];
+      schema?: string;
+      processEnv?: boolean;
+      quiet?: boolean;
+      environment?: string;
+      expand?: boolean;
+      bail?: boolean;
+      format: string;
+      outputFile?: string;
+    }) => {
       const log = options.quiet ? () => {} : logger.error;
+      const reportFormat = isReportFormat(options.format) ? options.format : undefined;
+
+      if (options.format !== 'text' && !reportFormat) {
+        log(`Unknown format: ${options.format}. Use text, ${REPORT_FORMATS.join(', ')}`);
+        process.exit(2);
+      }
 
       // Find and load schema
       const schemaPath = findSchemaFile(options.schema);
@@ -22,27 +58,53 @@ export const checkCommand = new Command('check')
         process.exit(2);
       }
 
-      const schemaResult = loadSchema(schemaPath);
+      const schemaResult = await loadSchemaAsync(schemaPath);
 
       if (!schemaResult.success || !schemaResult.schema) {
-        log(`Schema error: ${schemaResult.error}`);
+        log(`Schema error: ${schemaResult.error} [${schemaResult.code ?? 'EG6004'}]`);
         process.exit(2);
       }
 
       // Load environment variables
       let env: Record<string, string> = {};
+      let locations: Record<string, EnvLocation> = {};
 
       if (options.processEnv) {
         env = loadProcessEnv();
       } else {
-        const envResult = loadEnvFile(options.env);
-        if (envResult.success) {
-          env = envResult.env;
-        }
+        const cascade = loadEnvCascade({
+          files: options.env,
+          environment: resolveEnvironmentName(options.environment),
+        });
+        env = cascade.env;
+        locations = cascade.locations;
       }
 
+      // Apply environment overrides
+      const environment = resolveEnvironmentName(options.environment, { ...process.env, ...env });
+      const schema = resolveEnvironment(schemaResult.schema, environment);
+
       // Validate
-      const valid = isValid(schemaResult.schema, env);
+      const result = validate(schema, env, {
+        expand: options.expand,
+        fallbackEnv: process.env,
+        bail: options.bail,
+      });
+      const valid = result.valid;
+
+      // Machine-readable report
+      if (reportFormat) {
+        const report = formatReport(reportFormat, result, { schema, schemaPath, locations });
+
+        if (!options.outputFile) {
+          console.log(report);
+          process.exit(valid ? 0 : 1);
+        }
+
+        const outputPath = path.resolve(process.cwd(), options.outputFile);
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        fs.writeFileSync(outputPath, `${report}\n`);
+      }
 
       if (valid) {
         if (!options.quiet) {
@@ -0,0 +1,114 @@
+import { Command } from 'commander';
+import { logger, formatSchemaSources } from '../utils/logger.js';
+import { runCommand } from '../utils/watch.js';
+import { loadSchemaAsync, findSchemaFile } from '../../core/schema.js';
+import {
+  DOCS_END_MARKER,
+  DOCS_FORMATS,
+  DOCS_START_MARKER,
+  isDocsFormat,
+  writeDocsFile,
+} from '../../core/docs.js';
+import { DEFAULT_DOCS_OUTPUT } from '../../types/index.js';
+
+export const docsCommand = new Command('docs')
+  .description('Generate a Markdown or HTML reference of the environment variables')
+  .option('-s, --schema <path>', 'Path to schema file')
+  .option('-f, --format <format>', `Output format (${DOCS_FORMATS.join(', ')})`, 'markdown')
+  .option('-o, --output <path>', 'Output path (default: ENV.md or env.html by format)')
+  .option('--inject <file>', 'Update the section between the docs markers in an existing file')
+  .option('--check', 'Exit with an error when the output is out of date instead of writing it')
+  .option('--environment <name>', 'Apply schema overrides for this environment')
+  .option('-w, --watch', 'Regenerate when the schema changes')
+  .action(
+    async (options: {
+      schema?: string;
+      format: string;
+      output?: string;
+      inject?: string;
+      check?: boolean;
+      environment?: string;
+      watch?: boolean;
+    }) => {
+      const format = options.format;
+
+      if (!isDocsFormat(format)) {
+        logger.error(`Unknown format: ${format}. Use ${DOCS_FORMATS.join(', ')}`);
+        process.exit(2);
+      }
+
+      const output = options.inject ?? options.output ?? DEFAULT_DOCS_OUTPUT[format];
+
+      await runCommand(async (track) => {
+        logger.header('env-guardian-cli docs');
+
+        // Find and load schema
+        const schemaPath = findSchemaFile(options.schema);
+
+        if (!schemaPath) {
+          logger.error('No schema file found');
+          logger.info('Run "npx env-guardian-cli init" to create one');
+          return 2;
+        }
+
+        logger.dim(`Using schema: ${schemaPath}`);
+        track(schemaPath);
+
+        const schemaResult = await loadSchemaAsync(schemaPath);
+
+        for (const file of schemaResult.files ?? []) {
+          track(file);
+        }
+
+        if (!schemaResult.success || !schemaResult.schema) {
+          logger.error(
+            `Failed to load schema: ${schemaResult.error} [${schemaResult.code ?? 'EG6004'}]`
+          );
+          return 1;
+        }
+
+        for (const line of formatSchemaSources(schemaResult.sources, schemaResult.path)) {
+          logger.dim(line);
+        }
+
+        // Only an explicit --environment applies overrides, so the output does not depend on NODE_ENV
+        const environment = options.environment;
+
+        if (environment && schemaResult.schema.environments?.[environment]) {
+          logger.dim(`Using environment: ${environment}`);
+        }
+
+        const result = writeDocsFile(schemaResult.schema, output, {
+          format,
+          inject: options.inject !== undefined,
+          check: options.check,
+          environment,
+        });
+
+        if (!result.success) {
+          logger.error(`Failed to generate docs: ${result.error}`);
+
+          if (options.inject !== undefined) {
+            logger.info(`Mark the section with ${DOCS_START_MARKER} and ${DOCS_END_MARKER}`);
+          }
+          return 1;
+        }
+
+        if (result.changed === false) {
+          logger.dim(options.check ? `Up to date: ${result.path}` : `Unchanged: ${result.path}`);
+          return 0;
+        }
+
+        if (options.check) {
+          logger.error(`Docs are out of date: ${result.path}`);
+          logger.info('Run "npx env-guardian-cli docs" with the same options to update them');
+          return 1;
+        }
+
+        const varCount = Object.keys(schemaResult.schema.variables).length;
+        logger.success(`Generated docs: ${result.path}`);
+        logger.dim(`  ${varCount} variable(s) documented`);
+        return 0;
+      }, options);
+    }
+  );
@@ -0,0 +1,38 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { logger } from '../utils/logger.js';
+import { ERROR_CODES, findErrorCode } from '../../core/error-codes.js';
+
+export const explainErrorCommand = new Command('explain-error')
+  .description('Explain a diagnostic code, e.g. EG1001 or missing-required')
+  .argument('[code]', 'Error code or name (default: list all codes)')
+  .action((query?: string) => {
+    // List every code
+    if (!query) {
+      logger.header('env-guardian-cli error codes');
+
+      for (const [code, info] of Object.entries(ERROR_CODES)) {
+        console.log(`${chalk.cyan(code)} ${info.name.padEnd(28)} ${chalk.dim(info.summary)}`);
+      }
+
+      logger.newline();
+      logger.info('Run "npx env-guardian-cli explain-error <code>" for details');
+      return;
+    }
+
+    const info = findErrorCode(query);
+
+    if (!info) {
+      logger.error(`Unknown error code: ${query}`);
+      logger.info('Run "npx env-guardian-cli explain-error" to list all codes');
+      process.exit(1);
+    }
+
+    logger.header(`${info.code} ${info.name}`);
+    console.log(chalk.bold(info.summary));
+    logger.newline();
+    console.log(info.explanation);
+    logger.newline();
+    console.log(chalk.bold('How to fix:'));
+    console.log(info.fix);
+  });
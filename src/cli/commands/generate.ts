@@ -1,48 +1,158 @@
 import { Command } from 'commander';
-import { logger } from '../utils/logger.js';
-import { loadSchema, findSchemaFile } from '../../core/schema.js';
-import { writeTypeScriptFile } from '../../core/generator.js';
-import { DEFAULT_TYPES_OUTPUT } from '../../types/index.js';
+import { logger, formatSchemaSources } from '../utils/logger.js';
+import { runCommand } from '../utils/watch.js';
+import {
+  loadSchemaAsync,
+  findSchemaFile,
+  resolveEnvironment,
+  resolveEnvironmentName,
+} from '../../core/schema.js';
+import { WriteResult, writeTypeScriptFile } from '../../core/generator.js';
+import { writeZodSchemaFile } from '../../core/zod-generator.js';
+import { writeEnvModuleFile } from '../../core/module-generator.js';
+import { writeJsonSchemaFile } from '../../core/json-schema-generator.js';
+import {
+  DEFAULT_JSON_SCHEMA_OUTPUT,
+  DEFAULT_MODULE_OUTPUT,
+  DEFAULT_TYPES_OUTPUT,
+  DEFAULT_ZOD_OUTPUT,
+  EnvSchema,
+} from '../../types/index.js';
+
+interface GenerateTarget {
+  output: string;
+  /** What was generated, for messages */
+  label: string;
+  summary: (count: number) => string;
+  hint: string;
+  write: (schema: EnvSchema, output: string, options: { namespace: boolean }) => WriteResult;
+}
+
+const GENERATE_TARGETS: Record<string, GenerateTarget> = {
+  types: {
+    output: DEFAULT_TYPES_OUTPUT,
+    label: 'TypeScript types',
+    summary: (count) => `${count} variable(s) typed`,
+    hint: 'Add to your tsconfig.json "include" or import in a .d.ts file',
+    write: (schema, output, options) =>
+      writeTypeScriptFile(schema, output, { namespace: options.namespace }),
+  },
+  zod: {
+    output: DEFAULT_ZOD_OUTPUT,
+    label: 'zod schema',
+    summary: (count) => `${count} variable(s) in envSchema`,
+    hint: 'Import parseEnv() from it to validate process.env at startup (requires zod)',
+    write: (schema, output) => writeZodSchemaFile(schema, output),
+  },
+  module: {
+    output: DEFAULT_MODULE_OUTPUT,
+    label: 'env module',
+    summary: (count) => `${count} variable(s) in env`,
+    hint: 'Import { env } from it instead of reading process.env (no runtime dependency)',
+    write: (schema, output) => writeEnvModuleFile(schema, output),
+  },
+  'json-schema': {
+    output: DEFAULT_JSON_SCHEMA_OUTPUT,
+    label: 'JSON Schema',
+    summary: (count) => `${count} variable(s) in properties`,
+    hint: 'Use it with any JSON Schema tool, e.g. config UIs, OpenAPI docs or Backstage templates',
+    write: (schema, output) => writeJsonSchemaFile(schema, output),
+  },
+};
 
 export const generateCommand = new Command('generate')
-  .description('Generate TypeScript type declarations from schema')
+  .description('Generate TypeScript types, a zod schema, a typed env module or a JSON Schema')
   .option('-s, --schema <path>', 'Path to schema file')
-  .option('-o, --output <path>', 'Output path for TypeScript file', DEFAULT_TYPES_OUTPUT)
-  .option('--no-namespace', 'Do not generate NodeJS.ProcessEnv augmentation')
-  .action(async (options: { schema?: string; output: string; namespace: boolean }) => {
-    logger.header('env-guardian-cli generate');
-
-    // Find and load schema
-    const schemaPath = findSchemaFile(options.schema);
-
-    if (!schemaPath) {
-      logger.error('No schema file found');
-      logger.info('Run "npx env-guardian-cli init" to create one');
-      process.exit(2);
-    }
+  .option(
+    '-t, --target <target>',
+    `What to generate (${Object.keys(GENERATE_TARGETS).join(', ')})`,
+    'types'
+  )
+  .option(
+    '-o, --output <path>',
+    'Output path (default: env.d.ts, env.zod.ts, env.ts or env.jsonschema.json by target)'
+  )
+  .option('--no-namespace', 'Do not generate NodeJS.ProcessEnv augmentation (types only)')
+  .option('--environment <name>', 'Apply schema overrides for this environment (default: NODE_ENV)')
+  .option('-w, --watch', 'Regenerate when the schema changes')
+  .action(
+    async (options: {
+      schema?: string;
+      target: string;
+      output?: string;
+      namespace: boolean;
+      environment?: string;
+      watch?: boolean;
+    }) => {
+      const target = Object.hasOwn(GENERATE_TARGETS, options.target)
+        ? GENERATE_TARGETS[options.target]
+        : undefined;
 
-    logger.dim(`Using schema: ${schemaPath}`);
+      if (!target) {
+        const targets = Object.keys(GENERATE_TARGETS).join(', ');
+        logger.error(`Unknown target: ${options.target}. Use ${targets}`);
+        process.exit(2);
+      }
 
-    const schemaResult = loadSchema(schemaPath);
+      const output = options.output ?? target.output;
 
-    if (!schemaResult.success || !schemaResult.schema) {
-      logger.error(`Failed to load schema: ${schemaResult.error}`);
-      process.exit(1);
-    }
+      await runCommand(async (track) => {
+        logger.header('env-guardian-cli generate');
+
+        // Find and load schema
+        const schemaPath = findSchemaFile(options.schema);
+
+        if (!schemaPath) {
+          logger.error('No schema file found');
+          logger.info('Run "npx env-guardian-cli init" to create one');
+          return 2;
+        }
+
+        logger.dim(`Using schema: ${schemaPath}`);
+        track(schemaPath);
+
+        const schemaResult = await loadSchemaAsync(schemaPath);
+
+        for (const file of schemaResult.files ?? []) {
+          track(file);
+        }
+
+        if (!schemaResult.success || !schemaResult.schema) {
+          logger.error(
+            `Failed to load schema: ${schemaResult.error} [${schemaResult.code ?? 'EG6004'}]`
+          );
+          return 1;
+        }
+
+        for (const line of formatSchemaSources(schemaResult.sources, schemaResult.path)) {
+          logger.dim(line);
+        }
+
+        // Apply environment overrides
+        const environment = resolveEnvironmentName(options.environment);
+        const schema = resolveEnvironment(schemaResult.schema, environment);
+
+        if (environment && schemaResult.schema.environments?.[environment]) {
+          logger.dim(`Using environment: ${environment}`);
+        }
+
+        const result = target.write(schema, output, { namespace: options.namespace });
+
+        if (!result.success) {
+          logger.error(`Failed to generate ${target.label}: ${result.error}`);
+          return 1;
+        }
+
+        if (result.changed === false) {
+          logger.dim(`Unchanged: ${result.path}`);
+          return 0;
+        }
 
-    // Generate TypeScript
-    const result = writeTypeScriptFile(schemaResult.schema, options.output, {
-      namespace: options.namespace,
-    });
-
-    if (result.success) {
-      const varCount = Object.keys(schemaResult.schema.variables).length;
-      logger.success(`Generated TypeScript types: ${result.path}`);
-      logger.dim(`  ${varCount} variable(s) typed`);
-      logger.newline();
-      logger.info('Add to your tsconfig.json "include" or import in a .d.ts file');
-    } else {
-      logger.error(`Failed to generate types: ${result.error}`);
-      process.exit(1);
+        logger.success(`Generated ${target.label}: ${result.path}`);
+        logger.dim(`  ${target.summary(Object.keys(schema.variables).length)}`);
+        logger.newline();
+        logger.info(target.hint);
+        return 0;
+      }, options);
     }
-  });
+  );
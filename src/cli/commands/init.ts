@@ -5,17 +5,24 @@ import { logger } from '../utils/logger.js';
 import { loadEnvFile, inferSchemaFromEnv } from '../../core/loader.js';
 import { createSchemaFile, getDefaultSchema, findSchemaFile } from '../../core/schema.js';
 
+const SCHEMA_FORMATS = ['json', 'yaml', 'toml', 'js', 'ts'];
+
 export const initCommand = new Command('init')
   .description('Initialize a new env.schema.json file')
-  .option('-f, --format <format>', 'Output format (json or js)', 'json')
-  .option('-o, --output <path>', 'Output path for schema file', 'env.schema.json')
+  .option('-f, --format <format>', 'Output format (json, yaml, toml, js or ts)', 'json')
+  .option('-o, --output <path>', 'Output path for schema file (default: env.schema.<format>)')
   .option('--no-infer', 'Do not infer schema from existing .env file')
   .option('--force', 'Overwrite existing schema file')
-  .action(async (options: { format: string; output: string; infer: boolean; force: boolean }) => {
+  .action(async (options: { format: string; output?: string; infer: boolean; force: boolean }) => {
     logger.header('env-guardian-cli init');
 
-    const format = options.format as 'json' | 'js';
-    const outputPath = options.output || (format === 'js' ? 'env.schema.js' : 'env.schema.json');
+    if (!SCHEMA_FORMATS.includes(options.format)) {
+      logger.error(`Unknown format: ${options.format}. Use ${SCHEMA_FORMATS.join(', ')}`);
+      process.exit(2);
+    }
+
+    const format = options.format as 'json' | 'yaml' | 'toml' | 'js' | 'ts';
+    const outputPath = options.output || `env.schema.${format}`;
 
     // Check if schema already exists
     const existingSchema = findSchemaFile();
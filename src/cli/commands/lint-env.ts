@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { logger, displaySource } from '../utils/logger.js';
+import { loadConfig } from '../../core/config.js';
+import { getCascadeFiles } from '../../core/loader.js';
+import { ENV_LINT_RULES, fixEnvFile, lintEnvFile } from '../../core/env-linter.js';
+
+export const lintEnvCommand = new Command('lint-env')
+  .description('Check .env files for formatting hazards')
+  .argument('[files...]', 'Env files to check (default: .env, .env.local)')
+  .option('--fix', 'Fix issues that can be fixed without changing any value')
+  .option('-c, --config <path>', 'Path to config file (default: env-guardian.config.json)')
+  .option('--max-warnings <count>', 'Fail when there are more warnings than this', parseInt)
+  .action((files: string[], options: { fix?: boolean; config?: string; maxWarnings?: number }) => {
+    logger.header('env-guardian-cli lint-env');
+
+    // Load rule severities
+    const configResult = loadConfig(options.config);
+
+    if (!configResult.success) {
+      logger.error(configResult.error ?? 'Failed to load config');
+      process.exit(2);
+    }
+
+    if (configResult.path) {
+      logger.dim(`Using config: ${configResult.path}`);
+    }
+
+    const rules = configResult.config.lintEnv?.rules ?? {};
+
+    for (const id of Object.keys(rules)) {
+      if (!(id in ENV_LINT_RULES)) {
+        logger.warning(`Unknown lint-env rule in config: ${id}`);
+      }
+    }
+
+    // Explicit files, or the existing files of the default cascade
+    const targets =
+      files.length > 0
+        ? files
+        : getCascadeFiles().filter((file) => fs.existsSync(path.resolve(process.cwd(), file)));
+
+    if (targets.length === 0) {
+      logger.error('No .env file found');
+      process.exit(2);
+    }
+
+    let errorCount = 0;
+    let warningCount = 0;
+    let fixableCount = 0;
+
+    for (const file of targets) {
+      const absolutePath = path.resolve(process.cwd(), file);
+
+      if (!fs.existsSync(absolutePath)) {
+        logger.error(`File not found: ${file}`);
+        process.exit(2);
+      }
+
+      let content = fs.readFileSync(absolutePath, 'utf-8');
+
+      if (options.fix) {
+        const fixed = fixEnvFile(content, { rules });
+
+        if (fixed.content !== content) {
+          fs.writeFileSync(absolutePath, fixed.content);
+          content = fixed.content;
+          logger.success(`Fixed ${fixed.fixed} issue(s) in ${displaySource(absolutePath)}`);
+        }
+      }
+
+      const result = lintEnvFile(content, { rules });
+
+      if (result.issues.length === 0) continue;
+
+      logger.newline();
+      console.log(chalk.underline(displaySource(absolutePath)));
+
+      for (const issue of result.issues) {
+        const icon = issue.severity === 'error' ? chalk.red('✗') : chalk.yellow('⚠');
+        const position = chalk.dim(`${issue.line}:${issue.column}`.padEnd(7));
+        console.log(
+          `  ${position} ${icon} ${issue.message} ${chalk.dim(`(${issue.code} ${issue.rule})`)}`
+        );
+
+        if (issue.severity === 'error') errorCount++;
+        else warningCount++;
+        if (issue.fixable) fixableCount++;
+      }
+    }
+
+    // Summary
+    logger.newline();
+
+    if (fixableCount > 0) {
+      logger.info(`${fixableCount} issue(s) can be fixed with --fix`);
+    }
+
+    const tooManyWarnings = options.maxWarnings !== undefined && warningCount > options.maxWarnings;
+
+    if (errorCount === 0 && !tooManyWarnings) {
+      logger.success(
+        warningCount > 0
+          ? `${targets.length} file(s) OK with ${warningCount} warning(s)`
+          : `${targets.length} file(s) OK`
+      );
+      process.exit(0);
+    } else {
+      logger.error(`${errorCount} error(s), ${warningCount} warning(s)`);
+
+      if (tooManyWarnings) {
+        logger.dim(`More than ${options.maxWarnings} warning(s) allowed by --max-warnings`);
+      }
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,85 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { logger } from '../utils/logger.js';
+import { loadSchemaAsync, findSchemaFile } from '../../core/schema.js';
+import { loadConfig } from '../../core/config.js';
+import { LINT_RULES, lintSchema } from '../../core/schema-linter.js';
+
+export const lintCommand = new Command('lint')
+  .description('Check the schema for mistakes and team policy violations')
+  .option('-s, --schema <path>', 'Path to schema file')
+  .option('-c, --config <path>', 'Path to config file (default: env-guardian.config.json)')
+  .action(async (options: { schema?: string; config?: string }) => {
+    logger.header('env-guardian-cli lint');
+
+    // Find and load schema
+    const schemaPath = findSchemaFile(options.schema);
+
+    if (!schemaPath) {
+      logger.error('No schema file found');
+      logger.info('Run "npx env-guardian-cli init" to create one');
+      process.exit(2);
+    }
+
+    logger.dim(`Using schema: ${schemaPath}`);
+
+    const schemaResult = await loadSchemaAsync(schemaPath);
+
+    if (!schemaResult.success || !schemaResult.schema) {
+      logger.error(
+        `Failed to load schema: ${schemaResult.error} [${schemaResult.code ?? 'EG6004'}]`
+      );
+      process.exit(2);
+    }
+
+    // Load rule severities
+    const configResult = loadConfig(options.config);
+
+    if (!configResult.success) {
+      logger.error(configResult.error ?? 'Failed to load config');
+      process.exit(2);
+    }
+
+    if (configResult.path) {
+      logger.dim(`Using config: ${configResult.path}`);
+    }
+
+    const rules = configResult.config.lint?.rules ?? {};
+
+    for (const id of Object.keys(rules)) {
+      if (!(id in LINT_RULES)) {
+        logger.warning(`Unknown lint rule in config: ${id}`);
+      }
+    }
+
+    logger.newline();
+
+    // Lint
+    const result = lintSchema(schemaResult.schema, { rules });
+
+    for (const issue of result.issues) {
+      const icon = issue.severity === 'error' ? chalk.red('✗') : chalk.yellow('⚠');
+      const variable = chalk.cyan((issue.variable ?? '').padEnd(20));
+      console.log(
+        `${icon} ${variable} ${issue.message} ${chalk.dim(`(${issue.code} ${issue.rule})`)}`
+      );
+    }
+
+    // Summary
+    const errorCount = result.issues.filter((issue) => issue.severity === 'error').length;
+    const warningCount = result.issues.length - errorCount;
+
+    if (result.issues.length > 0) {
+      logger.newline();
+    }
+
+    if (result.valid) {
+      logger.success(
+        warningCount > 0 ? `Schema OK with ${warningCount} warning(s)` : 'No schema issues found'
+      );
+      process.exit(0);
+    } else {
+      logger.error(`${errorCount} error(s), ${warningCount} warning(s)`);
+      process.exit(1);
+    }
+  });
@@ -1,6 +1,12 @@
 import { Command } from 'commander';
-import { logger } from '../utils/logger.js';
-import { loadSchema, findSchemaFile } from '../../core/schema.js';
+import { logger, formatSchemaSources } from '../utils/logger.js';
+import { runCommand } from '../utils/watch.js';
+import {
+  loadSchemaAsync,
+  findSchemaFile,
+  resolveEnvironment,
+  resolveEnvironmentName,
+} from '../../core/schema.js';
 import { writeEnvExample } from '../../core/generator.js';
 import { DEFAULT_EXAMPLE_OUTPUT } from '../../types/index.js';
 
@@ -9,40 +15,77 @@ export const syncCommand = new Command('sync')
   .option('-s, --schema <path>', 'Path to schema file')
   .option('-o, --output <path>', 'Output path for .env.example', DEFAULT_EXAMPLE_OUTPUT)
   .option('--no-comments', 'Do not include comments in output')
-  .action(async (options: { schema?: string; output: string; comments: boolean }) => {
-    logger.header('env-guardian-cli sync');
+  .option('--environment <name>', 'Apply schema overrides for this environment (default: NODE_ENV)')
+  .option('-w, --watch', 'Regenerate when the schema changes')
+  .action(
+    async (options: {
+      schema?: string;
+      output: string;
+      comments: boolean;
+      environment?: string;
+      watch?: boolean;
+    }) => {
+      await runCommand(async (track) => {
+        logger.header('env-guardian-cli sync');
 
-    // Find and load schema
-    const schemaPath = findSchemaFile(options.schema);
+        // Find and load schema
+        const schemaPath = findSchemaFile(options.schema);
 
-    if (!schemaPath) {
-      logger.error('No schema file found');
-      logger.info('Run "npx env-guardian-cli init" to create one');
-      process.exit(2);
-    }
+        if (!schemaPath) {
+          logger.error('No schema file found');
+          logger.info('Run "npx env-guardian-cli init" to create one');
+          return 2;
+        }
 
-    logger.dim(`Using schema: ${schemaPath}`);
+        logger.dim(`Using schema: ${schemaPath}`);
+        track(schemaPath);
 
-    const schemaResult = loadSchema(schemaPath);
+        const schemaResult = await loadSchemaAsync(schemaPath);
 
-    if (!schemaResult.success || !schemaResult.schema) {
-      logger.error(`Failed to load schema: ${schemaResult.error}`);
-      process.exit(1);
-    }
+        for (const file of schemaResult.files ?? []) {
+          track(file);
+        }
+
+        if (!schemaResult.success || !schemaResult.schema) {
+          logger.error(
+            `Failed to load schema: ${schemaResult.error} [${schemaResult.code ?? 'EG6004'}]`
+          );
+          return 1;
+        }
+
+        for (const line of formatSchemaSources(schemaResult.sources, schemaResult.path)) {
+          logger.dim(line);
+        }
+
+        // Apply environment overrides
+        const environment = resolveEnvironmentName(options.environment);
+        const schema = resolveEnvironment(schemaResult.schema, environment);
+
+        if (environment && schemaResult.schema.environments?.[environment]) {
+          logger.dim(`Using environment: ${environment}`);
+        }
+
+        // Generate .env.example
+        const result = writeEnvExample(schema, options.output, {
+          comments: options.comments,
+        });
+
+        if (!result.success) {
+          logger.error(`Failed to generate .env.example: ${result.error}`);
+          return 1;
+        }
+
+        if (result.changed === false) {
+          logger.dim(`Unchanged: ${result.path}`);
+          return 0;
+        }
 
-    // Generate .env.example
-    const result = writeEnvExample(schemaResult.schema, options.output, {
-      comments: options.comments,
-    });
-
-    if (result.success) {
-      const varCount = Object.keys(schemaResult.schema.variables).length;
-      logger.success(`Generated: ${result.path}`);
-      logger.dim(`  ${varCount} variable(s) documented`);
-      logger.newline();
-      logger.info('Share this file with your team to document required environment variables');
-    } else {
-      logger.error(`Failed to generate .env.example: ${result.error}`);
-      process.exit(1);
+        const varCount = Object.keys(schema.variables).length;
+        logger.success(`Generated: ${result.path}`);
+        logger.dim(`  ${varCount} variable(s) documented`);
+        logger.newline();
+        logger.info('Share this file with your team to document required environment variables');
+        return 0;
+      }, options);
     }
-  });
+  );
@@ -1,121 +1,287 @@
+import * as path from 'path';
 import { Command } from 'commander';
-import { logger, formatValidationResult } from '../utils/logger.js';
-import { loadEnvFile, loadProcessEnv, mergeEnv } from '../../core/loader.js';
-import { loadSchema, findSchemaFile } from '../../core/schema.js';
+import { logger, formatValidationResult, displaySource, displayLocation } from '../utils/logger.js';
+import { collect } from '../utils/options.js';
+import { runCommand, printStatusChanges } from '../utils/watch.js';
+import { loadEnvCascade } from '../../core/loader.js';
+import {
+  loadSchemaAsync,
+  findSchemaFile,
+  resolveEnvironment,
+  resolveEnvironmentName,
+} from '../../core/schema.js';
 import { validate } from '../../core/validator.js';
+import { matchPatternVariable } from '../../core/patterns.js';
+import { REPORT_FORMATS, formatReport, isReportFormat } from '../../core/reporter.js';
+import { writeIfChanged } from '../../core/generator.js';
+import { VariableStatus, diffStatuses } from '../../core/watcher.js';
 
 export const validateCommand = new Command('validate')
   .description('Validate environment variables against schema')
-  .option('-e, --env <path>', 'Path to .env file', '.env')
+  .option(
+    '-e, --env <path>',
+    'Path to .env file, repeat to layer files (default: .env cascade)',
+    collect,
+    []
+  )
   .option('-s, --schema <path>', 'Path to schema file')
   .option('--strict', 'Warn about env vars not defined in schema')
   .option('--ci', 'CI mode - exit with error code on validation failure')
   .option('--process-env', 'Also validate process.env (merged with .env)')
+  .option('--environment <name>', 'Apply schema overrides for this environment (default: NODE_ENV)')
+  .option('--expand', 'Expand ${VAR} references in values')
+  .option('--bail', 'Report only the first failing constraint of each variable')
+  .option('-f, --format <format>', `Report format (text, ${REPORT_FORMATS.join(', ')})`, 'text')
+  .option('-o, --output-file <path>', 'Write the report to a file instead of stdout')
+  .option('-w, --watch', 'Validate again when the schema or an env file changes')
   .action(
     async (options: {
-      env: string;
+      env: string[];
       schema?: string;
       strict?: boolean;
       ci?: boolean;
       processEnv?: boolean;
+      environment?: string;
+      expand?: boolean;
+      bail?: boolean;
+      format: string;
+      outputFile?: string;
+      watch?: boolean;
     }) => {
-      logger.header('env-guardian-cli validate');
+      const reportFormat = isReportFormat(options.format) ? options.format : undefined;
 
-      // Find and load schema
-      const schemaPath = findSchemaFile(options.schema);
-
-      if (!schemaPath) {
-        logger.error('No schema file found');
-        logger.info('Run "npx env-guardian-cli init" to create one');
+      if (options.format !== 'text' && !reportFormat) {
+        logger.error(`Unknown format: ${options.format}. Use text, ${REPORT_FORMATS.join(', ')}`);
         process.exit(2);
       }
 
-      logger.dim(`Using schema: ${schemaPath}`);
+      // A machine-readable report on stdout replaces the text output
+      const text = !reportFormat || options.outputFile !== undefined;
 
-      const schemaResult = loadSchema(schemaPath);
+      // Statuses of the previous run in watch mode
+      let previousStatuses: Record<string, VariableStatus> | undefined;
 
-      if (!schemaResult.success || !schemaResult.schema) {
-        logger.error(`Failed to load schema: ${schemaResult.error}`);
-        process.exit(2);
-      }
+      await runCommand(async (track) => {
+        if (text) {
+          logger.header('env-guardian-cli validate');
+        }
 
-      // Load environment variables
-      let env: Record<string, string> = {};
+        // Find and load schema
+        const schemaPath = findSchemaFile(options.schema);
 
-      const envResult = loadEnvFile(options.env);
+        if (!schemaPath) {
+          logger.error('No schema file found');
+          logger.info('Run "npx env-guardian-cli init" to create one');
+          return 2;
+        }
 
-      if (envResult.success) {
-        logger.dim(`Using env file: ${envResult.path}`);
-        env = envResult.env;
-      } else {
-        logger.warning(`No .env file found at ${options.env}`);
+        track(schemaPath);
 
-        if (!options.processEnv) {
-          logger.info('Use --process-env to validate from process.env instead');
+        if (text) {
+          logger.dim(`Using schema: ${schemaPath}`);
         }
-      }
 
-      // Merge with process.env if requested
-      if (options.processEnv) {
-        const processEnv = loadProcessEnv();
-        env = mergeEnv(processEnv, env);
-        logger.dim('Merged with process.env');
-      }
+        const schemaResult = await loadSchemaAsync(schemaPath);
 
-      logger.newline();
+        for (const file of schemaResult.files ?? []) {
+          track(file);
+        }
 
-      // Validate
-      const result = validate(schemaResult.schema, env, { strict: options.strict });
+        if (!schemaResult.success || !schemaResult.schema) {
+          logger.error(
+            `Failed to load schema: ${schemaResult.error} [${schemaResult.code ?? 'EG6004'}]`
+          );
+          return 2;
+        }
 
-      // Output results
-      const variableNames = Object.keys(schemaResult.schema.variables);
+        // Load environment variables (.env cascade unless -e is given)
+        const cascade = loadEnvCascade({
+          files: options.env,
+          environment: resolveEnvironmentName(options.environment),
+          processEnv: options.processEnv,
+        });
+        const env = cascade.env;
+
+        for (const file of cascade.files) {
+          track(file);
+        }
 
-      for (const name of variableNames) {
-        const error = result.errors.find((e) => e.variable === name);
-        const warning = result.warnings.find((w) => w.variable === name);
+        if (text) {
+          for (const error of cascade.errors) {
+            logger.warning(error);
+          }
 
-        if (error) {
-          console.log(formatValidationResult(name, error.type === 'missing' ? 'missing' : 'invalid', error.message));
-        } else if (warning && warning.type === 'default_applied') {
-          console.log(formatValidationResult(name, 'default', warning.message));
-        } else if (result.parsed[name] !== undefined) {
-          const spec = schemaResult.schema.variables[name];
-          const details = spec.format ? spec.format : spec.type;
-          console.log(formatValidationResult(name, 'valid', details));
+          for (const issue of cascade.issues) {
+            logger.warning(`${displayLocation(issue)} ${issue.message} [${issue.code}]`);
+          }
+
+          if (cascade.loaded.length > 0) {
+            logger.dim(`Using env files: ${cascade.loaded.map(displaySource).join(', ')}`);
+          } else {
+            logger.warning('No .env file found');
+
+            if (!options.processEnv) {
+              logger.info('Use --process-env to validate from process.env instead');
+            }
+          }
+
+          if (options.processEnv) {
+            logger.dim('Merged with process.env');
+          }
+        }
+
+        // Apply environment overrides
+        const environment = resolveEnvironmentName(options.environment, { ...process.env, ...env });
+        const schema = resolveEnvironment(schemaResult.schema, environment);
+
+        if (text && environment && schemaResult.schema.environments?.[environment]) {
+          logger.dim(`Using environment: ${environment}`);
+        }
+
+        // Validate
+        const result = validate(schema, env, {
+          strict: options.strict,
+          expand: options.expand,
+          fallbackEnv: process.env,
+          bail: options.bail,
+        });
+
+        // Machine-readable report
+        if (reportFormat) {
+          const report = formatReport(reportFormat, result, {
+            schema,
+            schemaPath,
+            locations: cascade.locations,
+          });
+
+          if (!options.outputFile) {
+            console.log(report);
+            return result.valid ? 0 : 1;
+          }
+
+          const outputPath = path.resolve(process.cwd(), options.outputFile);
+
+          if (writeIfChanged(outputPath, `${report}\n`)) {
+            logger.dim(`Wrote ${reportFormat} report to ${options.outputFile}`);
+          }
         }
-      }
 
-      // Show unused warnings in strict mode
-      const unusedWarnings = result.warnings.filter((w) => w.type === 'unused');
-      if (unusedWarnings.length > 0) {
         logger.newline();
-        logger.warning('Variables not in schema:');
-        for (const warning of unusedWarnings) {
-          logger.dim(`  - ${warning.variable}`);
+
+        // Output results
+        // Declared variables, then env keys matched by patternVariables, then unmatched required patterns
+        const patternKeys = Object.keys(env).filter((key) => matchPatternVariable(schema, key));
+        const missingPatterns = Object.keys(schema.patternVariables ?? {}).filter((pattern) =>
+          result.errors.some((e) => e.variable === pattern)
+        );
+        const variableNames = [
+          ...Object.keys(schema.variables),
+          ...patternKeys,
+          ...missingPatterns,
+        ];
+        const statuses: Record<string, VariableStatus> = {};
+
+        for (const name of variableNames) {
+          const errors = result.errors.filter(
+            (e) => e.variable === name && e.type !== 'rule_violation' && e.type !== 'deprecated'
+          );
+          const [error] = errors;
+          const warning = result.warnings.find((w) => w.variable === name);
+          const location = cascade.locations[name];
+          const source = location
+            ? displayLocation({ file: location.file, line: location.line })
+            : cascade.sources[name] && displaySource(cascade.sources[name]);
+
+          if (error) {
+            statuses[name] = error.type === 'missing' ? 'missing' : 'invalid';
+            console.log(
+              formatValidationResult(
+                name,
+                statuses[name],
+                errors.length > 1 ? `${errors.length} errors` : `${error.message} [${error.code}]`,
+                source
+              )
+            );
+
+            // Several failed constraints are listed under the variable
+            if (errors.length > 1) {
+              for (const { message, code } of errors) {
+                logger.dim(`    - ${message} [${code}]`);
+              }
+            }
+          } else if (warning && warning.type === 'default_applied') {
+            statuses[name] = 'default';
+            console.log(formatValidationResult(name, 'default', warning.message));
+          } else if (result.parsed[name] !== undefined) {
+            const spec = schema.variables[name] ?? matchPatternVariable(schema, name)?.spec;
+            const kind = spec.format ? spec.format : spec.type;
+            const details = spec.sensitive ? `${kind}, sensitive` : kind;
+            statuses[name] = 'valid';
+            console.log(formatValidationResult(name, 'valid', details, source));
+          }
         }
-      }
 
-      // Summary
-      logger.newline();
+        // Show cross-variable rule violations
+        const ruleErrors = result.errors.filter((e) => e.type === 'rule_violation');
+        if (ruleErrors.length > 0) {
+          logger.newline();
+          logger.error('Rule violations:');
+          for (const error of ruleErrors) {
+            logger.dim(`  - ${error.message} [${error.code}]`);
+          }
+        }
 
-      if (result.valid) {
-        logger.success(`Validation passed (${variableNames.length} variables)`);
+        // Show deprecated variables and aliases
+        const deprecations = [
+          ...result.errors.filter((e) => e.type === 'deprecated'),
+          ...result.warnings.filter((w) => w.type === 'deprecated'),
+        ];
+        if (deprecations.length > 0) {
+          logger.newline();
+          logger.warning('Deprecations:');
+          for (const deprecation of deprecations) {
+            logger.dim(`  - ${deprecation.message} [${deprecation.code}]`);
+          }
+        }
 
-        if (result.warnings.length > 0) {
-          logger.warning(`${result.warnings.length} warning(s)`);
+        // Show unused warnings in strict mode
+        const unusedWarnings = result.warnings.filter((w) => w.type === 'unused');
+        if (unusedWarnings.length > 0) {
+          logger.newline();
+          logger.warning('Variables not in schema:');
+          for (const warning of unusedWarnings) {
+            logger.dim(`  - ${warning.variable}`);
+          }
         }
 
-        process.exit(0);
-      } else {
-        logger.error(`Validation failed: ${result.errors.length} error(s)`);
+        // What changed since the previous run in watch mode
+        if (previousStatuses) {
+          printStatusChanges(diffStatuses(previousStatuses, statuses));
+        }
+        previousStatuses = statuses;
+
+        // Summary
+        logger.newline();
+
+        if (result.valid) {
+          logger.success(`Validation passed (${variableNames.length} variables)`);
+
+          if (result.warnings.length > 0) {
+            logger.warning(`${result.warnings.length} warning(s)`);
+          }
 
-        if (options.ci) {
-          process.exit(1);
+          return 0;
         } else {
-          logger.newline();
-          logger.info('Fix the errors above and run validate again');
-          process.exit(1);
+          logger.error(`Validation failed: ${result.errors.length} error(s)`);
+
+          if (options.ci) {
+            return 1;
+          } else {
+            logger.newline();
+            logger.info('Fix the errors above and run validate again');
+            return 1;
+          }
         }
-      }
+      }, options);
     }
   );
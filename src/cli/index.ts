@@ -6,6 +6,10 @@ import { validateCommand } from './commands/validate.js';
 import { generateCommand } from './commands/generate.js';
 import { syncCommand } from './commands/sync.js';
 import { checkCommand } from './commands/check.js';
+import { lintCommand } from './commands/lint.js';
+import { lintEnvCommand } from './commands/lint-env.js';
+import { explainErrorCommand } from './commands/explain-error.js';
+import { docsCommand } from './commands/docs.js';
 
 const program = new Command();
 
@@ -20,6 +24,10 @@ program.addCommand(validateCommand);
 program.addCommand(generateCommand);
 program.addCommand(syncCommand);
 program.addCommand(checkCommand);
+program.addCommand(lintCommand);
+program.addCommand(lintEnvCommand);
+program.addCommand(explainErrorCommand);
+program.addCommand(docsCommand);
 
 // Parse arguments
 program.parse();
@@ -1,3 +1,4 @@
+import * as path from 'path';
 import chalk from 'chalk';
 
 export const logger = {
@@ -79,7 +80,8 @@ export const logger = {
 export function formatValidationResult(
   variable: string,
   status: 'valid' | 'invalid' | 'missing' | 'default',
-  details?: string
+  details?: string,
+  source?: string
 ): string {
   const icons = {
     valid: chalk.green('✓'),
@@ -99,6 +101,43 @@ export function formatValidationResult(
   const colorFn = colors[status];
   const statusText = colorFn(status.padEnd(8));
   const detailsText = details ? chalk.dim(` (${details})`) : '';
+  const sourceText = source ? chalk.dim(` ← ${source}`) : '';
 
-  return `${icon} ${chalk.cyan(variable.padEnd(20))} ${statusText}${detailsText}`;
+  return `${icon} ${chalk.cyan(variable.padEnd(20))} ${statusText}${detailsText}${sourceText}`;
+}
+
+/**
+ * Show an env source relative to the working directory ("process.env" stays as is)
+ */
+export function displaySource(source: string): string {
+  return path.isAbsolute(source) ? path.relative(process.cwd(), source) || source : source;
+}
+
+/**
+ * Show a position in an env file as `file:line`, or `file:line:column` when a column is given
+ */
+export function displayLocation(location: { file: string; line: number; column?: number }): string {
+  const column = location.column === undefined ? '' : `:${location.column}`;
+  return `${displaySource(location.file)}:${location.line}${column}`;
+}
+
+/**
+ * Summarize which extended schema files contributed variables
+ */
+export function formatSchemaSources(
+  sources: Record<string, string> | undefined,
+  schemaPath: string
+): string[] {
+  const counts = new Map<string, number>();
+
+  for (const file of Object.values(sources ?? {})) {
+    if (file !== schemaPath) {
+      counts.set(file, (counts.get(file) ?? 0) + 1);
+    }
+  }
+
+  return [...counts].map(
+    ([file, count]) =>
+      `Inherited ${count} variable(s) from ${path.relative(process.cwd(), file) || file}`
+  );
 }
@@ -0,0 +1,6 @@
+/**
+ * Commander reducer for repeatable options (`-e .env -e .env.ci`)
+ */
+export function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
@@ -0,0 +1,104 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { logger, displaySource } from './logger.js';
+import { FileWatcher, StatusChange, watchFiles } from '../../core/watcher.js';
+
+/**
+ * A command body that returns its exit code instead of exiting.
+ * It reports every file it read through `track` so watch mode can follow them.
+ */
+export type CommandRun = (track: (file: string) => void) => Promise<number>;
+
+/**
+ * Run a command once and exit with its code. With `watch`, keep running and
+ * re-run it whenever one of the files it read changes.
+ */
+export async function runCommand(run: CommandRun, options: { watch?: boolean }): Promise<void> {
+  let files = new Set<string>();
+  const track = (file: string) => files.add(path.resolve(process.cwd(), file));
+  const exitCode = await run(track);
+
+  if (!options.watch || files.size === 0) {
+    process.exit(exitCode);
+  }
+
+  let watcher: FileWatcher | undefined;
+  let running = false;
+  let pending: string[] = [];
+
+  const start = () => {
+    watcher = watchFiles([...files], (changed) => void rerun(changed));
+    logger.newline();
+    logger.dim(`Watching ${[...files].map(displaySource).join(', ')} (Ctrl+C to stop)`);
+  };
+
+  const rerun = async (changed: string[]) => {
+    // Changes made during a run are handled right after it
+    if (running) {
+      pending.push(...changed);
+      return;
+    }
+
+    running = true;
+
+    const time = new Date().toLocaleTimeString();
+    logger.newline();
+    console.log(chalk.dim(`[${time}] Changed: ${changed.map(displaySource).join(', ')}`));
+
+    // The files to follow can change, e.g. when the schema gains an `extends`
+    const previous = files;
+    files = new Set();
+
+    try {
+      await run(track);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      running = false;
+    }
+
+    // A run that failed before reading anything keeps following the same files
+    if (files.size === 0) {
+      files = previous;
+    }
+
+    if ([...files].sort().join('\n') !== [...previous].sort().join('\n')) {
+      watcher?.close();
+      start();
+    }
+
+    if (pending.length > 0) {
+      const next = [...new Set(pending)];
+      pending = [];
+      await rerun(next);
+    }
+  };
+
+  start();
+}
+
+/**
+ * Show how each variable's validation status changed since the previous run
+ */
+export function printStatusChanges(changes: StatusChange[]): void {
+  logger.newline();
+
+  if (changes.length === 0) {
+    logger.dim('No status changes since the last run');
+    return;
+  }
+
+  logger.info('Changes since the last run:');
+
+  const colors = {
+    valid: chalk.green,
+    default: chalk.yellow,
+    invalid: chalk.red,
+    missing: chalk.red,
+  };
+
+  for (const { variable, from, to } of changes) {
+    const status = to ? colors[to](to) : chalk.dim('removed');
+    console.log(`  ${variable}: ${from ?? 'new'} → ${status}`);
+  }
+}
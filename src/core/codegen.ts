@@ -0,0 +1,661 @@
+import { EnvSchema, Rule, Variable, VariableCondition } from '../types/index.js';
+import { describeCondition, isConditional, toConditionList } from './conditions.js';
+import { getAliases } from './deprecations.js';
+import { REDACTED } from './redact.js';
+import { resolveBound, resolveDefault } from './validator.js';
+
+// ============================================
+// Runtime Helper Sources
+// ============================================
+
+// Generated code must accept exactly what the validator accepts, so these mirror
+// formatValidators, coerceScalar, splitArray (validator.ts) and parseUnits (units.ts)
+
+const FORMAT_SOURCES: Record<string, string> = {
+  url: `(value: string) => {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }`,
+  email: `(value: string) => /^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/.test(value)`,
+  uuid: `(value: string) =>
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)`,
+  json: `(value: string) => {
+    try {
+      JSON.parse(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }`,
+  base64: `(value: string) => /^[A-Za-z0-9+/]*={0,2}$/.test(value) && value.length % 4 === 0`,
+  hex: `(value: string) => /^[0-9a-fA-F]+$/.test(value)`,
+  alphanumeric: `(value: string) => /^[a-zA-Z0-9]+$/.test(value)`,
+  port: `(value: string) => {
+    const num = Number(value);
+    return !isNaN(num) && num >= 1 && num <= 65535 && Number.isInteger(num);
+  }`,
+  positive: `(value: string) => {
+    const num = Number(value);
+    return !isNaN(num) && num > 0;
+  }`,
+  integer: `(value: string) => {
+    const num = Number(value);
+    return !isNaN(num) && Number.isInteger(num);
+  }`,
+  percentage: `(value: string) => {
+    const num = Number(value);
+    return !isNaN(num) && num >= 0 && num <= 100;
+  }`,
+};
+
+const PARSER_SOURCES: Record<ScalarType, string> = {
+  string: '',
+  number: `function parseNumber(value: string): number | undefined {
+  const num = Number(value);
+  return isNaN(num) ? undefined : num;
+}`,
+  boolean: `function parseBoolean(value: string): boolean | undefined {
+  const lower = value.toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(lower)) return true;
+  if (['false', '0', 'no', 'off'].includes(lower)) return false;
+  return undefined;
+}`,
+  duration: `/** Milliseconds of a duration such as 30s or 1h30m */
+function parseDuration(value: string): number | undefined {
+  return parseUnits(value, { ms: 1, s: 1e3, m: 6e4, h: 36e5, d: 864e5, w: 6048e5 });
+}`,
+  bytes: `/** Bytes of a size such as 10MB or 512KiB */
+function parseBytes(value: string): number | undefined {
+  const bytes = parseUnits(value, {
+    b: 1,
+    kb: 1e3,
+    mb: 1e6,
+    gb: 1e9,
+    tb: 1e12,
+    kib: 1024,
+    mib: 1024 ** 2,
+    gib: 1024 ** 3,
+    tib: 1024 ** 4,
+  });
+  return bytes === undefined ? undefined : Math.round(bytes);
+}`,
+};
+
+const PARSE_UNITS_SOURCE = `function parseUnits(value: string, units: Record<string, number>): number | undefined {
+  const input = value.trim().toLowerCase();
+  if (input === '') return undefined;
+  if (/^\\d+(\\.\\d+)?$/.test(input)) return Number(input);
+
+  const segment = /(\\d+(?:\\.\\d+)?|\\.\\d+)\\s*([a-z]+)/y;
+  let total = 0;
+
+  while (segment.lastIndex < input.length) {
+    const match = segment.exec(input);
+    const factor = match ? units[match[2]] : undefined;
+    if (!match || factor === undefined) return undefined;
+
+    total += Number(match[1]) * factor;
+    while (input[segment.lastIndex] === ' ') segment.lastIndex++;
+  }
+
+  return total;
+}`;
+
+const SPLIT_LIST_SOURCE = `/** Items of a list value, trimmed and without empty items */
+function splitList(value: string, separator: string): string[] {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}`;
+
+// Mirrors validateJsonSchema (json-schema.ts), answering only whether the value matches
+const JSON_SCHEMA_SOURCE = `interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+}
+
+/** Whether a JSON string matches a JSON Schema subset (unparseable JSON is left to the json format) */
+function matchesJsonSchema(value: string, schema: JsonSchema): boolean {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return true;
+  }
+  return matchesJsonValue(parsed, schema);
+}
+
+function matchesJsonValue(value: unknown, schema: JsonSchema): boolean {
+  const isObject = typeof value === 'object' && value !== null && !Array.isArray(value);
+  const kind = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  const equal = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+  const types = schema.type === undefined ? undefined : ([] as string[]).concat(schema.type);
+
+  if (types && !types.some((type) => type === kind || (type === 'integer' && Number.isInteger(value)))) {
+    return false;
+  }
+  if (schema.const !== undefined && !equal(value, schema.const)) return false;
+  if (schema.enum !== undefined && !schema.enum.some((option) => equal(value, option))) return false;
+  if (schema.anyOf !== undefined && !schema.anyOf.some((option) => matchesJsonValue(value, option))) {
+    return false;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) return false;
+    if (schema.maximum !== undefined && value > schema.maximum) return false;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) return false;
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) return false;
+    if (schema.pattern !== undefined && !matchesPattern(value, schema.pattern)) return false;
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) return false;
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) return false;
+    if (schema.items && !value.every((item) => matchesJsonValue(item, schema.items ?? {}))) {
+      return false;
+    }
+  }
+
+  if (isObject) {
+    const object = value as Record<string, unknown>;
+    if ((schema.required ?? []).some((key) => !(key in object))) return false;
+
+    for (const [key, child] of Object.entries(object)) {
+      const childSchema = schema.properties?.[key] ?? schema.additionalProperties;
+      if (childSchema === false) return false;
+      if (typeof childSchema === 'object' && !matchesJsonValue(child, childSchema)) return false;
+    }
+  }
+
+  return true;
+}
+
+/** Invalid patterns match nothing */
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return false;
+  }
+}`;
+
+const READ_ALIASES_SOURCE = `/** Copy legacy aliases to the variables they stand for; removed aliases are not read */
+function readAliases<T extends Record<string, unknown>>(source: T): T {
+  const env: Record<string, unknown> = { ...source };
+  const isSet = (value: unknown) => value !== undefined && value !== '';
+
+  for (const [name, alias, removalDate] of aliases) {
+    if (!isSet(env[alias]) || isSet(env[name])) continue;
+    if (removalDate !== undefined && Date.now() >= Date.parse(removalDate)) continue;
+    env[name] = env[alias];
+  }
+
+  return env as T;
+}`;
+
+// Mirrors checkGroup (rules.ts)
+const GROUP_RULE_SOURCE = `/** Problem with a mutuallyExclusive, oneOf or allOrNone rule, or undefined when it holds */
+function checkGroupRule(
+  type: 'mutuallyExclusive' | 'oneOf' | 'allOrNone',
+  variables: string[],
+  raw: (name: string) => unknown,
+  message?: string
+): string | undefined {
+  const set = variables.filter((name) => raw(name) !== undefined);
+  const list = variables.join(', ');
+  const found = set.length > 0 ? set.join(', ') : 'none';
+
+  if (type === 'mutuallyExclusive' && set.length > 1) {
+    return message ?? \`Only one of \${list} may be set (found \${found})\`;
+  }
+
+  if (type === 'oneOf' && set.length !== 1) {
+    return message ?? \`Exactly one of \${list} must be set (found \${found})\`;
+  }
+
+  if (type === 'allOrNone' && set.length > 0 && set.length < variables.length) {
+    const missing = variables.filter((name) => !set.includes(name)).join(', ');
+    return message ?? \`\${list} must be set together (missing \${missing})\`;
+  }
+
+  return undefined;
+}`;
+
+export type ScalarType = 'string' | 'number' | 'boolean' | 'duration' | 'bytes';
+
+// Name of the generated parser for each scalar type
+export const PARSER_NAMES: Record<ScalarType, string> = {
+  string: '',
+  number: 'parseNumber',
+  boolean: 'parseBoolean',
+  duration: 'parseDuration',
+  bytes: 'parseBytes',
+};
+
+// Message when a generated parser rejects a value
+export const PARSE_MESSAGES: Record<Exclude<ScalarType, 'string'>, string> = {
+  number: 'Expected a number',
+  boolean: 'Expected true/false, 1/0, yes/no or on/off',
+  duration: 'Expected a duration such as 500ms, 30s or 1h30m',
+  bytes: 'Expected a size such as 512B, 10MB or 1.5GiB',
+};
+
+/**
+ * Runtime helpers a schema needs, so generated files only contain code they use
+ */
+export interface RuntimeNeeds {
+  formats: Set<string>;
+  parsers: Set<ScalarType>;
+  list: boolean;
+  jsonSchema: boolean;
+  aliases: string[];
+  groupRules: boolean;
+}
+
+export function collectRuntimeNeeds(schema: EnvSchema): RuntimeNeeds {
+  const needs: RuntimeNeeds = {
+    formats: new Set(),
+    parsers: new Set(),
+    list: false,
+    jsonSchema: false,
+    aliases: [],
+    groupRules: (schema.rules ?? []).some((rule) => rule.type !== 'compare'),
+  };
+
+  for (const [name, spec] of Object.entries(schema.variables)) {
+    for (const alias of getAliases(spec)) {
+      const date = alias.removalDate === undefined ? [] : [alias.removalDate];
+      needs.aliases.push(`[${[name, alias.name, ...date].map(toStringLiteral).join(', ')}]`);
+    }
+
+    if (spec.type === 'array') {
+      needs.list = true;
+      needs.parsers.add(spec.items?.type ?? 'string');
+      if (spec.items?.format && spec.items.format in FORMAT_SOURCES) {
+        needs.formats.add(spec.items.format);
+      }
+      continue;
+    }
+
+    needs.parsers.add(spec.type);
+    if (spec.format && spec.format in FORMAT_SOURCES) needs.formats.add(spec.format);
+    if (spec.format === 'json' && spec.jsonSchema) needs.jsonSchema = true;
+  }
+
+  needs.parsers.delete('string');
+  return needs;
+}
+
+/**
+ * Source of the helpers in `needs`: a `formats` object, value parsers, list splitting,
+ * JSON Schema matching, alias reading and group rules
+ */
+export function generateRuntimeHelpers(needs: RuntimeNeeds): string[] {
+  const blocks: string[] = [];
+
+  if (needs.formats.size > 0) {
+    const entries = [...needs.formats].map((format) => `  ${format}: ${FORMAT_SOURCES[format]},`);
+    blocks.push(`const formats = {\n${entries.join('\n')}\n};`);
+  }
+
+  if (needs.parsers.has('duration') || needs.parsers.has('bytes')) {
+    blocks.push(PARSE_UNITS_SOURCE);
+  }
+
+  for (const type of ['number', 'boolean', 'duration', 'bytes'] as const) {
+    if (needs.parsers.has(type)) blocks.push(PARSER_SOURCES[type]);
+  }
+
+  if (needs.list) blocks.push(SPLIT_LIST_SOURCE);
+  if (needs.jsonSchema) blocks.push(JSON_SCHEMA_SOURCE);
+
+  if (needs.aliases.length > 0) {
+    const entries = needs.aliases.map((entry) => `  ${entry},`);
+    blocks.push(
+      `// Legacy names as [variable, alias, removal date]\n` +
+        `const aliases: Array<[string, string, string?]> = [\n${entries.join('\n')}\n];`
+    );
+    blocks.push(READ_ALIASES_SOURCE);
+  }
+
+  if (needs.groupRules) blocks.push(GROUP_RULE_SOURCE);
+
+  return blocks;
+}
+
+// ============================================
+// Checks
+// ============================================
+
+/**
+ * One raw-string check of a value: a boolean expression over `value` and its message
+ */
+export interface ValueCheck {
+  test: string;
+  message: string;
+}
+
+/**
+ * Checks the validator runs on the raw string of a scalar variable or list item:
+ * enum, format and pattern, plus length and JSON Schema for whole variables
+ */
+export function rawValueChecks(
+  spec: Pick<Variable, 'format' | 'pattern' | 'enum'> &
+    Partial<Pick<Variable, 'type' | 'minLength' | 'maxLength' | 'jsonSchema'>>,
+  options: { item?: boolean } = {}
+): ValueCheck[] {
+  const checks: ValueCheck[] = [];
+  const prefix = options.item ? 'Item' : 'Value';
+
+  if (spec.enum && spec.enum.length > 0) {
+    checks.push({
+      test: `[${spec.enum.map(toStringLiteral).join(', ')}].includes(value)`,
+      message: `${prefix} must be one of: ${spec.enum.join(', ')}`,
+    });
+  }
+
+  if (spec.format?.startsWith('regex:')) {
+    const pattern = spec.format.slice(6);
+    checks.push(
+      isValidRegExp(pattern)
+        ? { test: toRegExpTest(pattern), message: `${prefix} does not match pattern: ${pattern}` }
+        : { test: 'false', message: `Invalid regex pattern: ${pattern}` }
+    );
+  } else if (spec.format && spec.format in FORMAT_SOURCES) {
+    checks.push({
+      test: `formats.${spec.format}(value)`,
+      message: `Invalid ${spec.format} format`,
+    });
+  }
+
+  if (spec.type === 'string' && spec.minLength !== undefined) {
+    checks.push({
+      test: `value.length >= ${spec.minLength}`,
+      message: `Value length is less than minimum ${spec.minLength}`,
+    });
+  }
+
+  if (spec.type === 'string' && spec.maxLength !== undefined) {
+    checks.push({
+      test: `value.length <= ${spec.maxLength}`,
+      message: `Value length is greater than maximum ${spec.maxLength}`,
+    });
+  }
+
+  // An invalid custom pattern is skipped, as in the validator
+  if (spec.pattern && isValidRegExp(spec.pattern)) {
+    checks.push({
+      test: toRegExpTest(spec.pattern),
+      message: `${prefix} does not match pattern: ${spec.pattern}`,
+    });
+  }
+
+  if (spec.format === 'json' && spec.jsonSchema) {
+    checks.push({
+      test: `matchesJsonSchema(value, ${JSON.stringify(spec.jsonSchema)})`,
+      message: 'Value does not match jsonSchema',
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * A `min` or `max` bound of a number, duration or size, with the message for values
+ * outside it. `limit` is undefined when the bound does not parse, which fails every value.
+ */
+export interface RangeLimit {
+  kind: 'min' | 'max';
+  limit?: number;
+  message: string;
+}
+
+export function rangeLimits(spec: Variable): RangeLimit[] {
+  const limits: RangeLimit[] = [];
+  if (spec.type !== 'number' && spec.type !== 'duration' && spec.type !== 'bytes') return limits;
+
+  for (const kind of ['min', 'max'] as const) {
+    const bound = spec[kind];
+    if (bound === undefined) continue;
+
+    const limit = resolveBound(bound, spec.type);
+    const relation = kind === 'min' ? 'less than minimum' : 'greater than maximum';
+
+    limits.push(
+      limit === undefined
+        ? { kind, message: `Invalid ${kind} "${bound}" for type ${spec.type}` }
+        : { kind, limit, message: `Value is ${relation} ${bound}` }
+    );
+  }
+
+  return limits;
+}
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toRegExpTest(pattern: string): string {
+  return `new RegExp(${JSON.stringify(pattern)}).test(value)`;
+}
+
+// ============================================
+// Cross-Variable Checks
+// ============================================
+
+/**
+ * Where generated cross-variable checks read parsed values and report problems.
+ * Raw values come from a `raw(name)` function in scope that treats empty values as unset.
+ */
+export interface CheckTarget {
+  /** Expression for a variable's parsed value that `typeof` can narrow */
+  parsed: (name: string) => string;
+  /** Statement reporting `message`, an expression that may be undefined, for `variables` */
+  report: (variables: string[], message: string) => string;
+}
+
+/**
+ * Statements checking requiredIf/requiredUnless like the validator: an unset conditional
+ * variable without a default is missing when its conditions require it
+ */
+export function generateRequirementChecks(schema: EnvSchema, target: CheckTarget): string[] {
+  const lines: string[] = [];
+
+  for (const [name, spec] of Object.entries(schema.variables)) {
+    if (!isConditional(spec) || spec.default !== undefined) continue;
+
+    const cases = toConditionList(spec.requiredIf).map((condition) => ({
+      test: toConditionTest(condition, target),
+      reason: `required when ${describeCondition(condition)}`,
+    }));
+
+    if (spec.requiredUnless !== undefined) {
+      const conditions = toConditionList(spec.requiredUnless);
+      const tests = conditions.map((condition) => toConditionTest(condition, target));
+      cases.push({
+        test: tests.length > 0 ? `!(${tests.join(' || ')})` : 'true',
+        reason: `required unless ${conditions.map(describeCondition).join(' or ')}`,
+      });
+    }
+
+    if (cases.length === 0) continue;
+
+    lines.push(`if (raw(${toStringLiteral(name)}) === undefined) {`);
+    cases.forEach(({ test, reason }, index) => {
+      const message = toStringLiteral(`Required variable is missing (${reason})`);
+      lines.push(`  ${index === 0 ? 'if' : '} else if'} (${test}) {`);
+      lines.push(`    ${target.report([name], message)}`);
+    });
+    lines.push('  }');
+    lines.push('}');
+  }
+
+  return lines;
+}
+
+/**
+ * Statements checking cross-variable rules like evaluateRules: compare rules on parsed
+ * values, the others on raw values. `include` picks the rules to check.
+ */
+export function generateRuleChecks(
+  rules: Rule[],
+  schema: EnvSchema,
+  target: CheckTarget,
+  include: (rule: Rule) => boolean = () => true
+): string[] {
+  const lines: string[] = [];
+
+  for (const rule of rules.filter(include)) {
+    if (rule.type !== 'compare') {
+      const args = [
+        toStringLiteral(rule.type),
+        `[${rule.variables.map(toStringLiteral).join(', ')}]`,
+        'raw',
+        ...(rule.message === undefined ? [] : [toStringLiteral(rule.message)]),
+      ];
+      lines.push(target.report(rule.variables, `checkGroupRule(${args.join(', ')})`));
+      continue;
+    }
+
+    const left = target.parsed(rule.left);
+    const right = typeof rule.right === 'number' ? String(rule.right) : target.parsed(rule.right);
+    const operator =
+      rule.operator === '==' || rule.operator === '!=' ? `${rule.operator}=` : rule.operator;
+    const variables = typeof rule.right === 'string' ? [rule.left, rule.right] : [rule.left];
+    const guards = variables.map((name) => `typeof ${target.parsed(name)} === 'number'`);
+
+    const show = (name: string, value: string) =>
+      schema.variables[name]?.sensitive ? REDACTED : `\${${value}}`;
+    const rightLabel =
+      typeof rule.right === 'string'
+        ? `${toTemplateText(rule.right)} (${show(rule.right, right)})`
+        : String(rule.right);
+    const message =
+      rule.message === undefined
+        ? `\`${toTemplateText(rule.left)} (${show(rule.left, left)}) must be ${rule.operator} ${rightLabel}\``
+        : toStringLiteral(rule.message);
+
+    lines.push(`if (${guards.join(' && ')} && !(${left} ${operator} ${right})) {`);
+    lines.push(`  ${target.report(variables, message)}`);
+    lines.push('}');
+  }
+
+  return lines;
+}
+
+/**
+ * Boolean expression for a condition, mirroring evaluateCondition (conditions.ts)
+ */
+function toConditionTest(condition: VariableCondition, target: CheckTarget): string {
+  const isRaw = condition.compare !== 'parsed';
+  const value = isRaw
+    ? `raw(${toStringLiteral(condition.variable)})`
+    : `(${target.parsed(condition.variable)} as unknown)`;
+  const toLiteral = (expected: string | number | boolean) =>
+    isRaw || typeof expected === 'string' ? toStringLiteral(String(expected)) : String(expected);
+  const tests: string[] = [];
+
+  if (condition.present !== undefined) {
+    tests.push(`${value} ${condition.present ? '!==' : '==='} undefined`);
+  }
+
+  if (condition.absent !== undefined) {
+    tests.push(`${value} ${condition.absent ? '===' : '!=='} undefined`);
+  }
+
+  if (condition.equals !== undefined) {
+    tests.push(`${value} === ${toLiteral(condition.equals)}`);
+  }
+
+  if (condition.in !== undefined) {
+    const matches = condition.in.map((expected) => `${value} === ${toLiteral(expected)}`);
+    tests.push(matches.length > 0 ? `(${matches.join(' || ')})` : 'false');
+  }
+
+  return tests.length > 0 ? tests.join(' && ') : 'true';
+}
+
+// ============================================
+// Source Helpers
+// ============================================
+
+/**
+ * Object key for a variable name, quoted when it is not an identifier
+ */
+export function toPropertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name.replace(/\\|'/g, '\\$&')}'`;
+}
+
+/**
+ * Property access on `object` for a variable name
+ */
+export function toPropertyAccess(object: string, name: string): string {
+  const key = toPropertyKey(name);
+  return key === name ? `${object}.${name}` : `${object}[${key}]`;
+}
+
+/**
+ * Text escaped for use inside a template literal
+ */
+function toTemplateText(text: string): string {
+  return text.replace(/\\|`|\$\{/g, (match) => `\\${match}`);
+}
+
+/**
+ * A string literal in single quotes
+ */
+export function toStringLiteral(text: string): string {
+  return `'${text.replace(/\\|'/g, '\\$&').replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * Source for a variable's parsed default value
+ */
+export function toDefaultLiteral(spec: Variable): string {
+  const value = resolveDefault(spec);
+  return typeof value === 'string' ? toStringLiteral(value) : JSON.stringify(value);
+}
+
+/**
+ * Schema features that generated runtime code does not check, for its header comment
+ */
+export function listUncheckedFeatures(schema: EnvSchema): string[] {
+  const specs = Object.values(schema.variables);
+  const features: string[] = [];
+  const hasRemovalDate = (spec: Variable) =>
+    getAliases(spec).some((alias) => alias.removalDate !== undefined);
+
+  if (schema.patternVariables) features.push('patternVariables');
+  if (specs.some((spec) => spec.deprecated !== undefined || hasRemovalDate(spec))) {
+    features.push('deprecations');
+  }
+  if (schema.expand) features.push('${VAR} expansion');
+
+  return features;
+}
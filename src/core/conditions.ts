@@ -0,0 +1,109 @@
+import { Variable, VariableCondition } from '../types/index.js';
+
+type ConditionValue = string | number | boolean;
+
+export interface RequirementResult {
+  required: boolean;
+  /** Human-readable reason, e.g. "required when MAIL_DRIVER = smtp" */
+  reason?: string;
+}
+
+/**
+ * Normalize a single condition or a list of conditions to a list
+ */
+export function toConditionList(
+  conditions: VariableCondition | VariableCondition[] | undefined
+): VariableCondition[] {
+  if (!conditions) return [];
+  return Array.isArray(conditions) ? conditions : [conditions];
+}
+
+/**
+ * Whether a variable's requirement depends on other variables
+ */
+export function isConditional(spec: Variable): boolean {
+  return spec.requiredIf !== undefined || spec.requiredUnless !== undefined;
+}
+
+/**
+ * Check one condition against the raw env and the parsed values
+ */
+export function evaluateCondition(
+  condition: VariableCondition,
+  env: Record<string, string | undefined>,
+  parsed: Record<string, unknown>
+): boolean {
+  const raw = env[condition.variable];
+  const isRaw = condition.compare !== 'parsed';
+  const value: unknown = isRaw ? (raw === '' ? undefined : raw) : parsed[condition.variable];
+  const isPresent = value !== undefined;
+
+  const matches = (expected: ConditionValue) =>
+    isRaw ? value === String(expected) : value === expected;
+
+  if (condition.present !== undefined && condition.present !== isPresent) return false;
+  if (condition.absent !== undefined && condition.absent === isPresent) return false;
+  if (condition.equals !== undefined && !matches(condition.equals)) return false;
+  if (condition.in !== undefined && !condition.in.some(matches)) return false;
+
+  return true;
+}
+
+/**
+ * Describe a condition for error messages
+ */
+export function describeCondition(condition: VariableCondition): string {
+  const parts: string[] = [];
+
+  if (condition.equals !== undefined) {
+    parts.push(`${condition.variable} = ${String(condition.equals)}`);
+  }
+
+  if (condition.in !== undefined) {
+    parts.push(`${condition.variable} in [${condition.in.map(String).join(', ')}]`);
+  }
+
+  if (condition.present !== undefined) {
+    parts.push(`${condition.variable} is ${condition.present ? 'set' : 'not set'}`);
+  }
+
+  if (condition.absent !== undefined) {
+    parts.push(`${condition.variable} is ${condition.absent ? 'not set' : 'set'}`);
+  }
+
+  return parts.length > 0 ? parts.join(' and ') : `${condition.variable} is set`;
+}
+
+/**
+ * Resolve whether a conditional variable is required for this env
+ */
+export function resolveRequirement(
+  spec: Variable,
+  env: Record<string, string | undefined>,
+  parsed: Record<string, unknown>
+): RequirementResult {
+  if (spec.requiredIf !== undefined) {
+    const match = toConditionList(spec.requiredIf).find((c) => evaluateCondition(c, env, parsed));
+
+    if (match) {
+      return { required: true, reason: `required when ${describeCondition(match)}` };
+    }
+
+    if (spec.requiredUnless === undefined) {
+      return { required: false };
+    }
+  }
+
+  if (spec.requiredUnless !== undefined) {
+    const conditions = toConditionList(spec.requiredUnless);
+
+    if (!conditions.some((c) => evaluateCondition(c, env, parsed))) {
+      const described = conditions.map(describeCondition).join(' or ');
+      return { required: true, reason: `required unless ${described}` };
+    }
+
+    return { required: false };
+  }
+
+  return { required: spec.required };
+}
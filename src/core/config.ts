@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config, ConfigSchema, DEFAULT_CONFIG_PATHS } from '../types/index.js';
+
+export interface LoadConfigResult {
+  success: boolean;
+  config: Config;
+  error?: string;
+  path?: string;
+}
+
+/**
+ * Find config file in current directory or use custom path
+ */
+export function findConfigFile(customPath?: string): string | null {
+  if (customPath) {
+    const absolutePath = path.resolve(process.cwd(), customPath);
+    return fs.existsSync(absolutePath) ? absolutePath : null;
+  }
+
+  for (const configPath of DEFAULT_CONFIG_PATHS) {
+    const absolutePath = path.resolve(process.cwd(), configPath);
+    if (fs.existsSync(absolutePath)) {
+      return absolutePath;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Load the project config. A missing default config is not an error.
+ */
+export function loadConfig(customPath?: string): LoadConfigResult {
+  const configPath = findConfigFile(customPath);
+
+  if (!configPath) {
+    return customPath
+      ? { success: false, config: {}, error: `Config file not found: ${customPath}` }
+      : { success: true, config: {} };
+  }
+
+  try {
+    const content = fs.readFileSync(configPath, 'utf-8');
+    const parsed = ConfigSchema.safeParse(JSON.parse(content));
+
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(
+        (issue) => `${issue.path.join('.')}: ${issue.message}`
+      );
+      return {
+        success: false,
+        config: {},
+        error: `Invalid config: ${issues.join(', ')}`,
+        path: configPath,
+      };
+    }
+
+    return { success: true, config: parsed.data, path: configPath };
+  } catch (error) {
+    return {
+      success: false,
+      config: {},
+      error: `Failed to read config: ${error instanceof Error ? error.message : String(error)}`,
+      path: configPath,
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import { EnvSchema, Variable, ValidationError, ValidationWarning } from '../types/index.js';
+
+export interface DeprecationInfo {
+  message?: string;
+  removalDate?: string;
+}
+
+export interface AliasResolution {
+  /** Env with alias values copied to the variables they stand for */
+  env: Record<string, string | undefined>;
+  warnings: ValidationWarning[];
+  errors: ValidationError[];
+}
+
+/**
+ * Normalize the `deprecated` option, or undefined when not deprecated
+ */
+export function getDeprecation(spec: Variable): DeprecationInfo | undefined {
+  const { deprecated } = spec;
+
+  if (deprecated === undefined || deprecated === false) return undefined;
+  if (deprecated === true) return {};
+  if (typeof deprecated === 'string') return { message: deprecated };
+  return deprecated;
+}
+
+/**
+ * Legacy names of a variable with their removal dates
+ */
+export function getAliases(spec: Variable): Array<{ name: string; removalDate?: string }> {
+  return (spec.aliases ?? []).map((alias) => (typeof alias === 'string' ? { name: alias } : alias));
+}
+
+/**
+ * Whether a removal date has been reached
+ */
+export function isRemoved(removalDate: string | undefined, now: Date): boolean {
+  return removalDate !== undefined && now.getTime() >= Date.parse(removalDate);
+}
+
+/**
+ * Describe a deprecation, e.g. "DB_URL is deprecated, use DATABASE_URL instead (removal on 2025-06-30)"
+ */
+export function describeDeprecation(
+  name: string,
+  info: DeprecationInfo & { replacedBy?: string },
+  now: Date
+): string {
+  const removed = isRemoved(info.removalDate, now);
+  const parts = [removed ? `${name} was removed on ${info.removalDate}` : `${name} is deprecated`];
+
+  if (info.replacedBy) parts.push(`use ${info.replacedBy} instead`);
+  if (info.message) parts.push(info.message);
+
+  const removal = !removed && info.removalDate ? ` (removal on ${info.removalDate})` : '';
+  return `${parts.join(', ')}${removal}`;
+}
+
+/**
+ * Read legacy aliases for variables that are not set under their own name.
+ * Aliases past their removal date are reported as errors and not read.
+ */
+export function resolveAliases(
+  schema: EnvSchema,
+  env: Record<string, string | undefined>,
+  now: Date
+): AliasResolution {
+  const resolved = { ...env };
+  const warnings: ValidationWarning[] = [];
+  const errors: ValidationError[] = [];
+
+  for (const [name, spec] of Object.entries(schema.variables)) {
+    for (const alias of getAliases(spec)) {
+      const value = env[alias.name];
+      if (value === undefined || value === '') continue;
+
+      const message = describeDeprecation(alias.name, { ...alias, replacedBy: name }, now);
+
+      if (isRemoved(alias.removalDate, now)) {
+        errors.push({
+          variable: alias.name,
+          message,
+          code: 'EG4005',
+          type: 'deprecated',
+          expected: name,
+        });
+        continue;
+      }
+
+      warnings.push({ variable: alias.name, message, code: 'EG4004', type: 'deprecated' });
+
+      if (resolved[name] === undefined || resolved[name] === '') {
+        resolved[name] = value;
+      }
+    }
+  }
+
+  return { env: resolved, warnings, errors };
+}
+
+/**
+ * Warn about (or, past the removal date, reject) a deprecated variable that is set
+ */
+export function checkDeprecated(
+  name: string,
+  spec: Variable,
+  value: string | undefined,
+  now: Date
+): { warning?: ValidationWarning; error?: ValidationError } {
+  const info = getDeprecation(spec);
+
+  if (!info || value === undefined || value === '') return {};
+
+  const message = describeDeprecation(name, { ...info, replacedBy: spec.replacedBy }, now);
+
+  return isRemoved(info.removalDate, now)
+    ? {
+        error: {
+          variable: name,
+          message,
+          code: 'EG4003',
+          type: 'deprecated',
+          expected: spec.replacedBy,
+        },
+      }
+    : { warning: { variable: name, message, code: 'EG4002', type: 'deprecated' } };
+}
@@ -0,0 +1,379 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnvSchema, Variable } from '../types/index.js';
+import { describeCondition, isConditional, toConditionList } from './conditions.js';
+import { getAliases, getDeprecation } from './deprecations.js';
+import { REDACTED } from './redact.js';
+import { WriteResult, writeIfChanged } from './generator.js';
+import { resolveEnvironment } from './schema.js';
+
+export const DOCS_FORMATS = ['markdown', 'html'] as const;
+export type DocsFormat = (typeof DOCS_FORMATS)[number];
+
+export function isDocsFormat(format: string): format is DocsFormat {
+  return (DOCS_FORMATS as readonly string[]).includes(format);
+}
+
+// Generated docs go between these comments when injected into an existing file
+export const DOCS_START_MARKER = '<!-- env-guardian-cli:docs:start -->';
+export const DOCS_END_MARKER = '<!-- env-guardian-cli:docs:end -->';
+
+export interface DocsOptions {
+  format?: DocsFormat;
+  /** Replace the section between the markers in the existing file instead of the whole file */
+  inject?: boolean;
+  /** Only report whether the file would change; nothing is written */
+  check?: boolean;
+  /** Document the variables with this environment's overrides applied */
+  environment?: string;
+}
+
+// ============================================
+// Rows
+// ============================================
+
+// Cell text: plain strings and code spans, rendered per format
+type Inline = string | { code: string };
+type Cell = Inline[];
+
+interface DocRow {
+  name: string;
+  secret: boolean;
+  type: Cell;
+  format: Cell;
+  required: Cell;
+  allowed: Cell;
+  constraints: Cell;
+  description: Cell;
+}
+
+const COLUMNS: Array<[Exclude<keyof DocRow, 'name' | 'secret'>, string]> = [
+  ['type', 'Type'],
+  ['format', 'Format'],
+  ['required', 'Required'],
+  ['allowed', 'Allowed values'],
+  ['constraints', 'Constraints'],
+  ['description', 'Description'],
+];
+
+const code = (text: string | number | boolean) => ({ code: String(text) });
+
+/**
+ * Join cells with a separator, skipping empty ones
+ */
+function joinCells(cells: Cell[], separator: string): Cell {
+  return cells
+    .filter((cell) => cell.length > 0)
+    .flatMap((cell, index) => (index === 0 ? cell : [separator, ...cell]));
+}
+
+function codeList(values: Array<string | number | boolean>): Cell {
+  return joinCells(
+    values.map((value) => [code(value)]),
+    ', '
+  );
+}
+
+function toTypeCell(spec: Variable): Cell {
+  if (spec.type !== 'array') return [spec.type];
+  return [`array of ${spec.items?.type ?? 'string'}`];
+}
+
+function toRequiredCell(spec: Variable): Cell {
+  if (spec.default !== undefined) {
+    const value = Array.isArray(spec.default)
+      ? spec.default.join(spec.separator ?? ',')
+      : spec.default;
+    return ['Default: ', code(spec.sensitive ? REDACTED : value)];
+  }
+
+  if (isConditional(spec)) {
+    const requiredIf = toConditionList(spec.requiredIf).map(describeCondition);
+    const requiredUnless = toConditionList(spec.requiredUnless).map(describeCondition);
+
+    return joinCells(
+      [
+        requiredIf.length > 0 ? [`When ${requiredIf.join(' or ')}`] : [],
+        requiredUnless.length > 0 ? [`Unless ${requiredUnless.join(' or ')}`] : [],
+      ],
+      ', '
+    );
+  }
+
+  return [spec.required ? 'Yes' : 'No'];
+}
+
+function toConstraintsCell(spec: Variable): Cell {
+  const constraints: Cell[] = [];
+
+  if (spec.min !== undefined) constraints.push([code(`>= ${spec.min}`)]);
+  if (spec.max !== undefined) constraints.push([code(`<= ${spec.max}`)]);
+  if (spec.minLength !== undefined) constraints.push([`at least ${spec.minLength} characters`]);
+  if (spec.maxLength !== undefined) constraints.push([`at most ${spec.maxLength} characters`]);
+  if (spec.pattern) constraints.push(['matches ', code(spec.pattern)]);
+
+  if (spec.type === 'array') {
+    constraints.push(['separated by ', code(spec.separator ?? ',')]);
+    if (spec.minItems !== undefined) constraints.push([`at least ${spec.minItems} item(s)`]);
+    if (spec.maxItems !== undefined) constraints.push([`at most ${spec.maxItems} item(s)`]);
+    if (spec.unique) constraints.push(['unique items']);
+    if (spec.items?.format) constraints.push(['items formatted as ', code(spec.items.format)]);
+    if (spec.items?.pattern) constraints.push(['items match ', code(spec.items.pattern)]);
+  }
+
+  if (spec.jsonSchema) constraints.push(['matches its JSON Schema']);
+
+  return joinCells(constraints, ', ');
+}
+
+function toDescriptionCell(name: string, spec: Variable): Cell {
+  const parts: Cell[] = [];
+  const deprecation = getDeprecation(spec);
+
+  if (deprecation) {
+    const replacement = spec.replacedBy ? [', use ', code(spec.replacedBy), ' instead'] : [];
+    const removal = deprecation.removalDate ? [` (removal on ${deprecation.removalDate})`] : [];
+    parts.push(['Deprecated', ...replacement, ...removal, '.']);
+  }
+
+  if (deprecation?.message) parts.push([deprecation.message]);
+  if (spec.description) parts.push([spec.description]);
+
+  const aliases = getAliases(spec).map((alias) => alias.name);
+  if (aliases.length > 0) {
+    parts.push(['Also read from ', ...codeList(aliases), ` when ${name} is unset.`]);
+  }
+
+  return joinCells(parts, ' ');
+}
+
+function toRow(name: string, spec: Variable): DocRow {
+  const allowed = spec.type === 'array' ? spec.items?.enum : spec.enum;
+
+  return {
+    name,
+    secret: spec.sensitive === true,
+    type: toTypeCell(spec),
+    format: spec.format ? [code(spec.format)] : [],
+    required: toRequiredCell(spec),
+    allowed: allowed && allowed.length > 0 ? codeList(allowed) : [],
+    constraints: toConstraintsCell(spec),
+    description: toDescriptionCell(name, spec),
+  };
+}
+
+/**
+ * One row per variable, then one per pattern variable family
+ */
+function collectRows(schema: EnvSchema): DocRow[] {
+  return [
+    ...Object.entries(schema.variables).map(([name, spec]) => toRow(name, spec)),
+    ...Object.entries(schema.patternVariables ?? {}).map(([pattern, spec]) => toRow(pattern, spec)),
+  ];
+}
+
+// ============================================
+// Markdown
+// ============================================
+
+function toMarkdownCell(cell: Cell): string {
+  return cell
+    .map((part) => {
+      if (typeof part === 'string') return part.replace(/\s*\n\s*/g, ' ');
+      const fence = part.code.includes('`') ? '``' : '`';
+      return `${fence}${part.code}${fence}`;
+    })
+    .join('')
+    .replace(/\|/g, '\\|');
+}
+
+/**
+ * Markdown table documenting every variable
+ */
+export function generateMarkdownDocs(schema: EnvSchema): string {
+  const lines: string[] = [];
+
+  lines.push(`| Variable | ${COLUMNS.map(([, title]) => title).join(' | ')} |`);
+  lines.push(`| --- | ${COLUMNS.map(() => '---').join(' | ')} |`);
+
+  for (const row of collectRows(schema)) {
+    const name = toMarkdownCell([code(row.name), ...(row.secret ? [' (secret)'] : [])]);
+    const cells = COLUMNS.map(([key]) => toMarkdownCell(row[key]));
+    lines.push(`| ${name} | ${cells.join(' | ')} |`);
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================
+// HTML
+// ============================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toHtmlCell(cell: Cell): string {
+  return cell
+    .map((part) =>
+      typeof part === 'string' ? escapeHtml(part) : `<code>${escapeHtml(part.code)}</code>`
+    )
+    .join('');
+}
+
+const HTML_STYLE = `    body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border: 1px solid #d0d7de; padding: 6px 12px; text-align: left; vertical-align: top; }
+    th { background: #f6f8fa; }
+    code { font-family: ui-monospace, monospace; background: #f6f8fa; padding: 0 4px; border-radius: 4px; }
+    .secret { background: #fff1e5; color: #953800; border-radius: 4px; padding: 0 6px; font-size: 0.85em; }`;
+
+/**
+ * HTML table documenting every variable
+ */
+export function generateHtmlTable(schema: EnvSchema): string {
+  const lines: string[] = [];
+  const headings = COLUMNS.map(([, title]) => `<th>${title}</th>`).join('');
+
+  lines.push('<table>');
+  lines.push('  <thead>');
+  lines.push(`    <tr><th>Variable</th>${headings}</tr>`);
+  lines.push('  </thead>');
+  lines.push('  <tbody>');
+
+  for (const row of collectRows(schema)) {
+    const secret = row.secret ? ' <span class="secret">secret</span>' : '';
+    const cells = COLUMNS.map(([key]) => `<td>${toHtmlCell(row[key])}</td>`).join('');
+    lines.push(`    <tr><td><code>${escapeHtml(row.name)}</code>${secret}</td>${cells}</tr>`);
+  }
+
+  lines.push('  </tbody>');
+  lines.push('</table>');
+
+  return lines.join('\n');
+}
+
+/**
+ * Standalone HTML page documenting every variable
+ */
+export function generateHtmlDocs(schema: EnvSchema): string {
+  const table = generateHtmlTable(schema)
+    .split('\n')
+    .map((line) => `  ${line}`);
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '  <meta charset="utf-8">',
+    '  <title>Environment variables</title>',
+    '  <style>',
+    HTML_STYLE,
+    '  </style>',
+    '</head>',
+    '<body>',
+    '  <!-- Generated by env-guardian-cli. Do not edit manually. -->',
+    '  <h1>Environment variables</h1>',
+    ...table,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+// ============================================
+// Files
+// ============================================
+
+/**
+ * Docs in the given format. Only the table is returned when it is injected into another file.
+ */
+export function generateDocs(schema: EnvSchema, options: DocsOptions = {}): string {
+  if (options.format === 'html') {
+    return options.inject ? generateHtmlTable(schema) : generateHtmlDocs(schema);
+  }
+
+  const table = generateMarkdownDocs(schema);
+  if (options.inject) return table;
+
+  return [
+    '# Environment variables',
+    '',
+    '<!-- Generated by env-guardian-cli. Do not edit manually. -->',
+    '',
+    table,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Replace the section between the docs markers, or return undefined when they are missing
+ */
+export function injectDocs(content: string, docs: string): string | undefined {
+  const start = content.indexOf(DOCS_START_MARKER);
+  const end = content.indexOf(DOCS_END_MARKER, start);
+
+  if (start === -1 || end === -1) return undefined;
+
+  return [
+    content.slice(0, start + DOCS_START_MARKER.length),
+    '\n\n',
+    docs.trimEnd(),
+    '\n\n',
+    content.slice(end),
+  ].join('');
+}
+
+/**
+ * Write docs to a file, or into the marked section of an existing file with `inject`.
+ * With `check`, nothing is written and `changed` tells whether the file is out of date.
+ * Environment overrides are only applied when `environment` is given, never from NODE_ENV.
+ */
+export function writeDocsFile(
+  schema: EnvSchema,
+  outputPath: string,
+  options: DocsOptions = {}
+): WriteResult {
+  const absolutePath = path.resolve(process.cwd(), outputPath);
+
+  try {
+    const existing = fs.existsSync(absolutePath)
+      ? fs.readFileSync(absolutePath, 'utf-8')
+      : undefined;
+    let content = generateDocs(resolveEnvironment(schema, options.environment), options);
+
+    if (options.inject) {
+      if (existing === undefined) {
+        return { success: false, error: `File not found: ${absolutePath}`, path: absolutePath };
+      }
+
+      const injected = injectDocs(existing, content);
+
+      if (injected === undefined) {
+        return {
+          success: false,
+          error: `No ${DOCS_START_MARKER} ... ${DOCS_END_MARKER} section in ${absolutePath}`,
+          path: absolutePath,
+        };
+      }
+
+      content = injected;
+    }
+
+    if (options.check) {
+      return { success: true, path: absolutePath, changed: content !== existing };
+    }
+
+    return { success: true, path: absolutePath, changed: writeIfChanged(absolutePath, content) };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to write docs: ${error instanceof Error ? error.message : String(error)}`,
+      path: absolutePath,
+    };
+  }
+}
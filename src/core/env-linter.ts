@@ -0,0 +1,282 @@
+import { EnvLintIssue, EnvLintResult, LintSeverity } from '../types/index.js';
+import { EnvDocument, EnvEntry, EnvNode, parseEnvFile, stringifyEnvFile } from './env-parser.js';
+
+type Report = (line: number, column: number, message: string) => void;
+
+interface EnvLintRule {
+  /** Stable diagnostic code */
+  code: string;
+  /** Severity when the config does not set one */
+  severity: LintSeverity;
+  description: string;
+  check: (document: EnvDocument, report: Report) => void;
+  /** Rewrite the file so the rule passes, without changing any parsed value */
+  fix?: (document: EnvDocument) => EnvDocument;
+}
+
+// Everything up to the `=` of an assignment, and the whitespace around it
+const SEPARATOR = /^(\uFEFF?[ \t]*(?:export[ \t]+)?[A-Za-z_][A-Za-z0-9_.-]*)([ \t]*)=([ \t]*)/;
+
+// ============================================
+// Rules
+// ============================================
+
+/**
+ * Built-in .env lint rules
+ */
+export const ENV_LINT_RULES: Record<string, EnvLintRule> = {
+  'duplicate-key': {
+    code: 'EG8001',
+    severity: 'error',
+    description: 'A key may only be defined once per file (the last definition wins)',
+    check: reportParseIssues('duplicate'),
+    fix: (document) => {
+      const last = new Map(getEntries(document).map((entry) => [entry.key, entry]));
+      return {
+        ...document,
+        nodes: document.nodes.filter(
+          (node) => node.type !== 'entry' || last.get(node.key) === node
+        ),
+      };
+    },
+  },
+
+  'unbalanced-quotes': {
+    code: 'EG8002',
+    severity: 'error',
+    description: 'Quoted values must be closed, with nothing but a comment after the quote',
+    check: reportParseIssues('unbalanced_quote'),
+  },
+
+  'invalid-line': {
+    code: 'EG8003',
+    severity: 'error',
+    description: 'Every line must be KEY=value, a comment or blank',
+    check: reportParseIssues('invalid_line'),
+  },
+
+  'unquoted-hash': {
+    code: 'EG8004',
+    severity: 'error',
+    description: '# inside an unquoted value starts a comment and cuts the value short',
+    check: (document, report) => {
+      for (const entry of getEntries(document)) {
+        if (entry.quote || entry.comment === undefined) continue;
+
+        const text = firstLine(entry);
+        const hash = text.length - entry.comment.length;
+
+        if (!/[ \t]/.test(text[hash - 1])) {
+          report(
+            entry.line,
+            hash + 1,
+            `# in the unquoted value of ${entry.key} starts a comment; quote the value`
+          );
+        }
+      }
+    },
+  },
+
+  'spaces-around-equals': {
+    code: 'EG8005',
+    severity: 'warning',
+    description: 'No spaces around = (shells and Docker do not accept them)',
+    check: (document, report) => {
+      for (const entry of getEntries(document)) {
+        if (hasSpacesAroundEquals(entry)) {
+          report(entry.line, entry.column, `Spaces around = in ${entry.key}`);
+        }
+      }
+    },
+    fix: (document) =>
+      mapEntries(document, (entry) =>
+        entry.raw.replace(SEPARATOR, (match, head: string, _before, after: string) => {
+          const rest = entry.raw.slice(match.length);
+          return rest.startsWith('#') ? `${head}=${after}` : `${head}=`;
+        })
+      ),
+  },
+
+  'trailing-whitespace': {
+    code: 'EG8006',
+    severity: 'warning',
+    description: 'Unquoted values must not end with whitespace (other tools keep it)',
+    check: (document, report) => {
+      for (const entry of getEntries(document)) {
+        if (hasTrailingWhitespace(entry)) {
+          const text = firstLine(entry);
+          report(
+            entry.line,
+            text.trimEnd().length + 1,
+            `Unquoted value of ${entry.key} has trailing whitespace`
+          );
+        }
+      }
+    },
+    fix: (document) =>
+      mapEntries(document, (entry) =>
+        hasTrailingWhitespace(entry) ? entry.raw.replace(/[ \t]+(\r?\n)?$/, '$1') : entry.raw
+      ),
+  },
+
+  'lowercase-key': {
+    code: 'EG8007',
+    severity: 'warning',
+    description: 'Keys must be uppercase',
+    check: (document, report) => {
+      for (const entry of getEntries(document)) {
+        if (entry.key !== entry.key.toUpperCase()) {
+          report(entry.line, entry.column, `Key ${entry.key} is not uppercase`);
+        }
+      }
+    },
+  },
+
+  'crlf-line-endings': {
+    code: 'EG8008',
+    severity: 'warning',
+    description: 'Lines must end with LF, not CRLF',
+    check: (document, report) => {
+      const node = document.nodes.find((candidate) => candidate.raw.includes('\r\n'));
+
+      if (node) {
+        const line = node.line + node.raw.slice(0, node.raw.indexOf('\r\n')).split('\n').length - 1;
+        report(line, 1, 'File uses CRLF line endings');
+      }
+    },
+    fix: (document) => mapNodes(document, (node) => node.raw.replace(/\r\n/g, '\n')),
+  },
+
+  bom: {
+    code: 'EG8009',
+    severity: 'warning',
+    description: 'Files must not start with a byte order mark',
+    check: (document, report) => {
+      if (document.nodes[0]?.raw.startsWith('\uFEFF')) {
+        report(1, 1, 'File starts with a byte order mark');
+      }
+    },
+    fix: (document) =>
+      mapNodes(document, (node) =>
+        node === document.nodes[0] ? node.raw.replace(/^\uFEFF/, '') : node.raw
+      ),
+  },
+};
+
+function reportParseIssues(type: EnvDocument['issues'][number]['type']) {
+  return (document: EnvDocument, report: Report) => {
+    for (const issue of document.issues) {
+      if (issue.type === type) {
+        report(issue.line, issue.column, issue.message);
+      }
+    }
+  };
+}
+
+function hasSpacesAroundEquals(entry: EnvEntry): boolean {
+  const text = firstLine(entry);
+  const match = SEPARATOR.exec(text);
+  if (!match) return false;
+
+  const rest = text.slice(match[0].length);
+  return match[2] !== '' || (match[3] !== '' && rest !== '' && !rest.startsWith('#'));
+}
+
+function hasTrailingWhitespace(entry: EnvEntry): boolean {
+  return (
+    !entry.quote &&
+    entry.comment === undefined &&
+    entry.value !== '' &&
+    /[ \t]$/.test(firstLine(entry))
+  );
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function getEntries(document: EnvDocument): EnvEntry[] {
+  return document.nodes.filter((node): node is EnvEntry => node.type === 'entry');
+}
+
+/**
+ * First line of an entry without its line break or a byte order mark
+ */
+function firstLine(entry: EnvEntry): string {
+  return entry.raw
+    .split('\n')[0]
+    .replace(/\r$/, '')
+    .replace(/^\uFEFF/, '');
+}
+
+function mapNodes(document: EnvDocument, rewrite: (node: EnvNode) => string): EnvDocument {
+  return { ...document, nodes: document.nodes.map((node) => ({ ...node, raw: rewrite(node) })) };
+}
+
+function mapEntries(document: EnvDocument, rewrite: (entry: EnvEntry) => string): EnvDocument {
+  return mapNodes(document, (node) => (node.type === 'entry' ? rewrite(node) : node.raw));
+}
+
+// ============================================
+// Linting
+// ============================================
+
+/**
+ * Check .env content for formatting hazards.
+ * `rules` overrides rule severities, e.g. { "lowercase-key": "off" }.
+ */
+export function lintEnvFile(
+  content: string,
+  options: { rules?: Record<string, LintSeverity> } = {}
+): EnvLintResult {
+  const document = parseEnvFile(content);
+  const issues: EnvLintIssue[] = [];
+
+  for (const [id, rule] of Object.entries(ENV_LINT_RULES)) {
+    const severity = options.rules?.[id] ?? rule.severity;
+    if (severity === 'off') continue;
+
+    const report: Report = (line, column, message) =>
+      issues.push({
+        rule: id,
+        code: rule.code,
+        severity,
+        message,
+        line,
+        column,
+        fixable: rule.fix !== undefined,
+      });
+
+    rule.check(document, report);
+  }
+
+  issues.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  return {
+    valid: !issues.some((issue) => issue.severity === 'error'),
+    issues,
+  };
+}
+
+/**
+ * Apply the safe fixes of all enabled rules. Parsed values stay the same.
+ */
+export function fixEnvFile(
+  content: string,
+  options: { rules?: Record<string, LintSeverity> } = {}
+): { content: string; fixed: number } {
+  let document = parseEnvFile(content);
+
+  for (const [id, rule] of Object.entries(ENV_LINT_RULES)) {
+    const severity = options.rules?.[id] ?? rule.severity;
+    if (severity !== 'off' && rule.fix) {
+      document = rule.fix(document);
+    }
+  }
+
+  const output = stringifyEnvFile(document);
+  const countFixable = (text: string) =>
+    lintEnvFile(text, options).issues.filter((issue) => issue.fixable).length;
+
+  return { content: output, fixed: countFixable(content) - countFixable(output) };
+}
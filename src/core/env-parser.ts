@@ -0,0 +1,377 @@
+export type EnvQuote = '"' | "'" | '`';
+
+interface EnvNodeBase {
+  /** Exact source text, including the line break(s) */
+  raw: string;
+  /** 1-based line the node starts on */
+  line: number;
+}
+
+export interface EnvEntry extends EnvNodeBase {
+  type: 'entry';
+  key: string;
+  /** Decoded value */
+  value: string;
+  /** 1-based column of the key */
+  column: number;
+  quote?: EnvQuote;
+  exported: boolean;
+  /** Inline comment after the value, including the `#` */
+  comment?: string;
+}
+
+export interface EnvComment extends EnvNodeBase {
+  type: 'comment';
+  /** Comment text without the `#` */
+  text: string;
+}
+
+export interface EnvBlank extends EnvNodeBase {
+  type: 'blank';
+}
+
+/** A line that is not KEY=value, kept so the file can be written back unchanged */
+export interface EnvInvalid extends EnvNodeBase {
+  type: 'invalid';
+}
+
+export type EnvNode = EnvEntry | EnvComment | EnvBlank | EnvInvalid;
+
+export interface EnvParseIssue {
+  message: string;
+  line: number;
+  column: number;
+  key?: string;
+  type: 'invalid_line' | 'unbalanced_quote' | 'duplicate';
+  code: string; // Diagnostic code of the matching lint-env rule
+}
+
+export interface EnvDocument {
+  nodes: EnvNode[];
+  issues: EnvParseIssue[];
+}
+
+// Indentation, optional `export`, key and `=` of an assignment
+const ASSIGNMENT = /^([ \t]*)(export[ \t]+)?([A-Za-z_][A-Za-z0-9_.-]*)[ \t]*=[ \t]*/;
+
+// What may follow a closing quote on its line
+const TRAILER = /^[ \t]*(#.*)?$/;
+
+const QUOTES = new Set(['"', "'", '`']);
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Parse .env content into nodes that keep comments, order, quoting and positions.
+ * Duplicate keys and syntax problems are reported as issues rather than thrown.
+ */
+export function parseEnvFile(content: string): EnvDocument {
+  const nodes: EnvNode[] = [];
+  const issues: EnvParseIssue[] = [];
+  const firstLines = new Map<string, number>();
+  let offset = 0;
+  let line = 1;
+
+  while (offset < content.length) {
+    // A byte order mark is kept in the raw text but not parsed
+    const textStart = offset === 0 && content.startsWith('\uFEFF') ? 1 : offset;
+    const lineEnd = findLineEnd(content, offset);
+    const text = stripCarriageReturn(content.slice(textStart, lineEnd));
+    let end = nextLineStart(content, lineEnd);
+    let node: EnvNode;
+
+    const assignment = ASSIGNMENT.exec(text);
+
+    if (text.trim() === '') {
+      node = { type: 'blank', raw: '', line };
+    } else if (text.trimStart().startsWith('#')) {
+      node = { type: 'comment', raw: '', line, text: text.trimStart().slice(1) };
+    } else if (!assignment) {
+      issues.push({
+        type: 'invalid_line',
+        code: 'EG8003',
+        message: 'Expected KEY=value',
+        line,
+        column: text.length - text.trimStart().length + 1,
+      });
+      node = { type: 'invalid', raw: '', line };
+    } else {
+      const [prefix, indent, exported, key] = assignment;
+      const valueStart = textStart + prefix.length;
+      const entry: EnvEntry = {
+        type: 'entry',
+        raw: '',
+        line,
+        column: indent.length + (exported?.length ?? 0) + 1,
+        key,
+        value: '',
+        exported: exported !== undefined,
+      };
+
+      const quote = content[valueStart];
+      let close = QUOTES.has(quote) ? findClosingQuote(content, valueStart) : -1;
+      const closeLineEnd = findLineEnd(content, close);
+      const trailerMatch = TRAILER.exec(
+        stripCarriageReturn(content.slice(close + 1, close === -1 ? 0 : closeLineEnd))
+      );
+
+      // A multi-line value must end its last line; otherwise the quote is more likely
+      // unterminated and the closing one belongs to a later entry
+      if (close > lineEnd && !trailerMatch) {
+        close = -1;
+      }
+
+      if (close !== -1) {
+        entry.quote = quote as EnvQuote;
+        entry.value = decodeQuoted(content.slice(valueStart + 1, close), entry.quote);
+        entry.comment = trailerMatch?.[1];
+
+        if (!trailerMatch) {
+          issues.push({
+            type: 'unbalanced_quote',
+            code: 'EG8002',
+            message: `Unexpected text after closing quote of ${key}`,
+            line: line + countLines(content, offset, close),
+            column: close - lineStartOf(content, close) + 2,
+            key,
+          });
+        }
+
+        end = nextLineStart(content, closeLineEnd);
+      } else {
+        if (QUOTES.has(quote)) {
+          issues.push({
+            type: 'unbalanced_quote',
+            code: 'EG8002',
+            message: `Unterminated ${quote} quote in value of ${key}`,
+            line,
+            column: prefix.length + 1,
+            key,
+          });
+        }
+
+        const rest = text.slice(prefix.length);
+        const hash = rest.indexOf('#');
+        entry.value = (hash === -1 ? rest : rest.slice(0, hash)).trim();
+        entry.comment = hash === -1 ? undefined : rest.slice(hash);
+      }
+
+      const firstLine = firstLines.get(key);
+      if (firstLine !== undefined) {
+        issues.push({
+          type: 'duplicate',
+          code: 'EG8001',
+          message: `Duplicate key ${key} (first defined on line ${firstLine})`,
+          line,
+          column: entry.column,
+          key,
+        });
+      } else {
+        firstLines.set(key, line);
+      }
+
+      node = entry;
+    }
+
+    node.raw = content.slice(offset, end);
+    nodes.push(node);
+    line += countLines(content, offset, end);
+    offset = end;
+  }
+
+  return { nodes, issues };
+}
+
+/**
+ * Write a document back to text. Unedited documents round-trip byte for byte.
+ */
+export function stringifyEnvFile(document: EnvDocument): string {
+  return document.nodes.map((node) => node.raw).join('');
+}
+
+/**
+ * Key/value pairs of a document. The last definition of a duplicated key wins.
+ */
+export function toEnvRecord(document: EnvDocument): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const node of document.nodes) {
+    if (node.type === 'entry') {
+      env[node.key] = node.value;
+    }
+  }
+
+  return env;
+}
+
+/**
+ * The entry that supplies a key's value (the last one when duplicated)
+ */
+export function findEnvEntry(document: EnvDocument, key: string): EnvEntry | undefined {
+  return getEntries(document)
+    .filter((entry) => entry.key === key)
+    .pop();
+}
+
+function getEntries(document: EnvDocument): EnvEntry[] {
+  return document.nodes.filter((node): node is EnvEntry => node.type === 'entry');
+}
+
+// ============================================
+// Editing
+// ============================================
+
+/**
+ * Set a key's value, keeping its indentation, `export`, quote style and inline comment.
+ * Missing keys are appended. Every other byte of the file is left as is.
+ */
+export function setEnvValue(document: EnvDocument, key: string, value: string): EnvDocument {
+  const existing = findEnvEntry(document, key);
+  const newline = detectNewline(document);
+
+  if (existing) {
+    const indent = /^[ \t]*/.exec(existing.raw)?.[0] ?? '';
+    const quote = chooseQuote(value, existing.quote);
+    const comment = existing.comment ? ` ${existing.comment}` : '';
+    const lineBreak = /\r?\n$/.exec(existing.raw)?.[0] ?? '';
+    const updated: EnvEntry = {
+      ...existing,
+      value,
+      quote,
+      raw: `${indent}${existing.exported ? 'export ' : ''}${key}=${encodeValue(value, quote)}${comment}${lineBreak}`,
+    };
+
+    return {
+      ...document,
+      nodes: document.nodes.map((node) => (node === existing ? updated : node)),
+    };
+  }
+
+  const nodes = [...document.nodes];
+  const last = nodes[nodes.length - 1];
+
+  if (last && !/\n$/.test(last.raw)) {
+    nodes[nodes.length - 1] = { ...last, raw: `${last.raw}${newline}` };
+  }
+
+  const quote = chooseQuote(value, undefined);
+  nodes.push({
+    type: 'entry',
+    raw: `${key}=${encodeValue(value, quote)}${newline}`,
+    line: countLines(stringifyEnvFile({ ...document, nodes }), 0, Infinity) + 1,
+    column: 1,
+    key,
+    value,
+    quote,
+    exported: false,
+  });
+
+  return { ...document, nodes };
+}
+
+/**
+ * Remove every definition of a key
+ */
+export function removeEnvEntry(document: EnvDocument, key: string): EnvDocument {
+  return {
+    ...document,
+    nodes: document.nodes.filter((node) => node.type !== 'entry' || node.key !== key),
+  };
+}
+
+/**
+ * Quote to write a value with: the original one when it can hold the value,
+ * double quotes when the value needs quoting, otherwise none
+ */
+function chooseQuote(value: string, original: EnvQuote | undefined): EnvQuote | undefined {
+  if (original === "'" || original === '`') {
+    return value.includes(original) ? '"' : original;
+  }
+
+  if (original === '"' || /[#"'`\n\r\\]|^\s|\s$/.test(value)) {
+    return '"';
+  }
+
+  return undefined;
+}
+
+function encodeValue(value: string, quote: EnvQuote | undefined): string {
+  if (quote !== '"') {
+    return quote ? `${quote}${value}${quote}` : value;
+  }
+
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+  return `"${escaped}"`;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Decode a quoted value. Double quotes support \n, \r, \" and \\ escapes; like dotenv, other
+ * sequences such as \t are kept as written. Single quotes and backticks are literal.
+ * Line breaks are normalized to \n.
+ */
+function decodeQuoted(value: string, quote: EnvQuote): string {
+  const normalized = value.replace(/\r\n/g, '\n');
+  if (quote !== '"') return normalized;
+
+  const escapes: Record<string, string> = { n: '\n', r: '\r', '"': '"', '\\': '\\' };
+  return normalized.replace(/\\([nr"\\])/g, (_match, char: string) => escapes[char]);
+}
+
+/**
+ * Index of the quote closing the value that opens at `start` (-1 when unterminated).
+ * Only double quotes support backslash escapes.
+ */
+function findClosingQuote(content: string, start: number): number {
+  const quote = content[start];
+
+  for (let index = start + 1; index < content.length; index++) {
+    if (quote === '"' && content[index] === '\\') {
+      index++;
+    } else if (content[index] === quote) {
+      return index;
+    }
+  }
+
+  return -1;
+}
+
+function detectNewline(document: EnvDocument): string {
+  return document.nodes.some((node) => node.raw.includes('\r\n')) ? '\r\n' : '\n';
+}
+
+function findLineEnd(content: string, offset: number): number {
+  const index = content.indexOf('\n', offset);
+  return index === -1 ? content.length : index;
+}
+
+function nextLineStart(content: string, lineEnd: number): number {
+  return Math.min(lineEnd + 1, content.length);
+}
+
+function lineStartOf(content: string, index: number): number {
+  return content.lastIndexOf('\n', index - 1) + 1;
+}
+
+function stripCarriageReturn(text: string): string {
+  return text.endsWith('\r') ? text.slice(0, -1) : text;
+}
+
+function countLines(content: string, start: number, end: number): number {
+  let count = 0;
+
+  for (let index = start; index < Math.min(end, content.length); index++) {
+    if (content[index] === '\n') count++;
+  }
+
+  return count;
+}
@@ -0,0 +1,471 @@
+export interface ErrorCodeInfo {
+  /** Stable kebab-case name, e.g. "missing-required" */
+  name: string;
+  /** One-line description */
+  summary: string;
+  explanation: string;
+  fix: string;
+}
+
+/**
+ * Every diagnostic code. Codes are never reused or renumbered.
+ *
+ * EG1xxx presence, EG2xxx values and formats, EG3xxx ranges, EG4xxx rules and deprecations,
+ * EG5xxx interpolation, EG6xxx schema loading, EG7xxx schema lint, EG8xxx .env lint
+ */
+export const ERROR_CODES: Record<string, ErrorCodeInfo> = {
+  // ============================================
+  // Presence
+  // ============================================
+
+  EG1001: {
+    name: 'missing-required',
+    summary: 'A required variable is not set',
+    explanation:
+      'The schema marks the variable as required (the default) and it has no default value, but it is missing or empty in every env source that was loaded.',
+    fix: 'Set the variable in your .env file or environment, give it a "default", or set "required": false.',
+  },
+  EG1002: {
+    name: 'missing-conditional',
+    summary: 'A conditionally required variable is not set',
+    explanation:
+      'The variable is only required when its "requiredIf" condition holds (or its "requiredUnless" condition does not), and with the current values it is required but missing.',
+    fix: 'Set the variable, or change the variables its condition depends on. The error message names the condition that applied.',
+  },
+  EG1003: {
+    name: 'missing-pattern-match',
+    summary: 'No variable matches a required pattern',
+    explanation:
+      'A "patternVariables" family (such as FEATURE_*) is required, so at least one variable whose name matches the pattern must be set.',
+    fix: 'Set at least one matching variable, or set "required": false on the pattern.',
+  },
+  EG1004: {
+    name: 'default-applied',
+    summary: 'A default value was used',
+    explanation:
+      'The variable is not set, so the default from the schema was used. This is a warning, not an error.',
+    fix: 'Nothing to fix if the default is intended. Set the variable to override it.',
+  },
+  EG1005: {
+    name: 'undeclared-variable',
+    summary: 'A variable is not declared in the schema',
+    explanation:
+      'In strict mode every variable in the env files must be declared in "variables", as a legacy alias, or match a "patternVariables" entry. Undeclared variables are often typos or leftovers.',
+    fix: 'Declare the variable in the schema, or remove it from the env file.',
+  },
+
+  // ============================================
+  // Values and formats
+  // ============================================
+
+  EG2001: {
+    name: 'invalid-type',
+    summary: 'The value cannot be converted to its type',
+    explanation:
+      'Values are strings in the environment and are converted to the declared "type": numbers must be numeric, booleans one of true/false/1/0/yes/no, durations like 30s or 1h 30m, sizes like 512kb or 10MiB.',
+    fix: 'Correct the value so it parses as the declared type, or change the "type" in the schema.',
+  },
+  EG2002: {
+    name: 'invalid-enum',
+    summary: 'The value is not one of the allowed values',
+    explanation:
+      'The variable (or a list item) declares an "enum", and the value is not in it. Comparison is exact and case-sensitive.',
+    fix: 'Use one of the values listed in the message, or add the value to the "enum".',
+  },
+  EG2003: {
+    name: 'invalid-url',
+    summary: 'The value is not a valid URL',
+    explanation:
+      'The "url" format requires an absolute URL with a scheme, such as https://example.com or postgres://user@host/db.',
+    fix: 'Include the scheme and host, and percent-encode special characters in credentials.',
+  },
+  EG2004: {
+    name: 'invalid-email',
+    summary: 'The value is not a valid email address',
+    explanation: 'The "email" format requires a value of the form name@domain.tld without spaces.',
+    fix: 'Correct the address.',
+  },
+  EG2005: {
+    name: 'invalid-uuid',
+    summary: 'The value is not a valid UUID',
+    explanation:
+      'The "uuid" format requires 32 hexadecimal digits in the 8-4-4-4-12 layout, e.g. 123e4567-e89b-12d3-a456-426614174000.',
+    fix: 'Copy the full UUID, including the dashes.',
+  },
+  EG2006: {
+    name: 'invalid-json',
+    summary: 'The value is not valid JSON',
+    explanation:
+      'The "json" format requires the value to parse with JSON.parse. Common causes are single quotes, trailing commas and unquoted keys.',
+    fix: 'Fix the JSON syntax. Quote the whole value in the .env file so # and spaces are kept.',
+  },
+  EG2007: {
+    name: 'invalid-base64',
+    summary: 'The value is not valid base64',
+    explanation:
+      'The "base64" format requires characters A-Z, a-z, 0-9, + and / with = padding, and a length that is a multiple of 4.',
+    fix: 'Re-encode the value, and make sure it was not cut short or wrapped across lines.',
+  },
+  EG2008: {
+    name: 'invalid-hex',
+    summary: 'The value is not hexadecimal',
+    explanation: 'The "hex" format only allows the characters 0-9, a-f and A-F.',
+    fix: 'Remove prefixes such as 0x and any other characters.',
+  },
+  EG2009: {
+    name: 'invalid-alphanumeric',
+    summary: 'The value is not alphanumeric',
+    explanation: 'The "alphanumeric" format only allows letters and digits.',
+    fix: 'Remove spaces, dashes, underscores and other symbols.',
+  },
+  EG2010: {
+    name: 'invalid-port',
+    summary: 'The value is not a valid port',
+    explanation: 'The "port" format requires a whole number from 1 to 65535.',
+    fix: 'Use a port number in range.',
+  },
+  EG2011: {
+    name: 'invalid-positive',
+    summary: 'The value is not a positive number',
+    explanation: 'The "positive" format requires a number greater than 0.',
+    fix: 'Use a number greater than 0.',
+  },
+  EG2012: {
+    name: 'invalid-integer',
+    summary: 'The value is not an integer',
+    explanation: 'The "integer" format requires a whole number without a fractional part.',
+    fix: 'Remove the fractional part.',
+  },
+  EG2013: {
+    name: 'invalid-percentage',
+    summary: 'The value is not a percentage',
+    explanation: 'The "percentage" format requires a number from 0 to 100.',
+    fix: 'Use a number from 0 to 100, without a % sign.',
+  },
+  EG2014: {
+    name: 'pattern-mismatch',
+    summary: 'The value does not match the required pattern',
+    explanation:
+      'The variable declares a "pattern" or a "regex:" format (or its list items declare "items.pattern"), and the value does not match the regular expression.',
+    fix: 'Change the value to match the pattern shown in the message.',
+  },
+  EG2015: {
+    name: 'invalid-pattern',
+    summary: 'The schema contains an invalid regular expression',
+    explanation:
+      'A "regex:" format in the schema is not a valid JavaScript regular expression, so values cannot be checked against it.',
+    fix: 'Fix the regular expression in the schema. Run "env-guardian-cli lint" to find these before validating.',
+  },
+  EG2016: {
+    name: 'json-schema-mismatch',
+    summary: 'The JSON value does not match its jsonSchema',
+    explanation:
+      'The value parses as JSON but fails the embedded "jsonSchema". The error includes a JSON pointer (such as /rollout) to the failing part.',
+    fix: 'Correct the value at the reported pointer, or update the "jsonSchema".',
+  },
+  EG2017: {
+    name: 'duplicate-item',
+    summary: 'A list contains the same item twice',
+    explanation: 'The list variable sets "unique": true, and an item occurs more than once.',
+    fix: 'Remove the repeated item.',
+  },
+
+  // ============================================
+  // Ranges
+  // ============================================
+
+  EG3001: {
+    name: 'below-minimum',
+    summary: 'The value is less than the minimum',
+    explanation:
+      'Numbers, durations and sizes are compared with "min" after conversion, so 500ms is less than a minimum of 1s.',
+    fix: 'Increase the value, or lower "min" in the schema.',
+  },
+  EG3002: {
+    name: 'above-maximum',
+    summary: 'The value is greater than the maximum',
+    explanation:
+      'Numbers, durations and sizes are compared with "max" after conversion, so 2GiB is greater than a maximum of 1GiB.',
+    fix: 'Decrease the value, or raise "max" in the schema.',
+  },
+  EG3003: {
+    name: 'too-short',
+    summary: 'The value is shorter than minLength',
+    explanation: 'String values must have at least "minLength" characters.',
+    fix: 'Use a longer value. For secrets, generate a new one of the required length.',
+  },
+  EG3004: {
+    name: 'too-long',
+    summary: 'The value is longer than maxLength',
+    explanation: 'String values must have at most "maxLength" characters.',
+    fix: 'Shorten the value, or check that two values were not pasted together.',
+  },
+  EG3005: {
+    name: 'too-few-items',
+    summary: 'The list has fewer items than minItems',
+    explanation:
+      'List variables must have at least "minItems" items after splitting on the separator.',
+    fix: 'Add items, and check that the separator matches the schema (default ",").',
+  },
+  EG3006: {
+    name: 'too-many-items',
+    summary: 'The list has more items than maxItems',
+    explanation:
+      'List variables must have at most "maxItems" items after splitting on the separator.',
+    fix: 'Remove items, or raise "maxItems".',
+  },
+  EG3007: {
+    name: 'invalid-bound',
+    summary: 'The schema has a min or max that does not fit the type',
+    explanation:
+      'A "min" or "max" could not be read for the variable type, e.g. "min": "soon" on a duration.',
+    fix: 'Fix the bound in the schema. Run "env-guardian-cli lint" to find these before validating.',
+  },
+
+  // ============================================
+  // Rules and deprecations
+  // ============================================
+
+  EG4001: {
+    name: 'rule-violation',
+    summary: 'A cross-variable rule failed',
+    explanation:
+      'A rule in the schema\'s "rules" section relates several variables (for example "requires", "exclusive" or "compare"), and the current values break it.',
+    fix: 'Change the variables named in the message so the rule holds. A custom "message" on the rule describes the intent.',
+  },
+  EG4002: {
+    name: 'deprecated-variable',
+    summary: 'A deprecated variable is set',
+    explanation:
+      'The variable is marked "deprecated" and will stop working on its removal date, if one is set. This is a warning until then.',
+    fix: 'Move the value to the replacement named in the message and remove the old variable.',
+  },
+  EG4003: {
+    name: 'removed-variable',
+    summary: 'A variable past its removal date is set',
+    explanation:
+      'The variable is deprecated and its "removalDate" has passed, so setting it is an error.',
+    fix: 'Move the value to the replacement named in the message and remove the old variable.',
+  },
+  EG4004: {
+    name: 'deprecated-alias',
+    summary: 'A variable is set under a legacy name',
+    explanation:
+      'The name is listed in "aliases" of another variable. Its value is used for the new name when that is not set, with a warning.',
+    fix: 'Rename the variable to the new name shown in the message.',
+  },
+  EG4005: {
+    name: 'removed-alias',
+    summary: 'A legacy name past its removal date is set',
+    explanation: 'The alias has passed its "removalDate", so its value is no longer read.',
+    fix: 'Rename the variable to the new name shown in the message.',
+  },
+
+  // ============================================
+  // Interpolation
+  // ============================================
+
+  EG5001: {
+    name: 'unresolved-reference',
+    summary: 'A ${VAR} reference points to an unset variable',
+    explanation:
+      'With interpolation enabled, ${NAME} is replaced by the value of NAME from the env files or the process environment. NAME is not set in either.',
+    fix: 'Set the referenced variable, use ${NAME:-fallback}, or write \\${ for a literal ${.',
+  },
+  EG5002: {
+    name: 'circular-reference',
+    summary: '${VAR} references form a cycle',
+    explanation:
+      'Variables reference each other in a loop (A -> B -> A), so none of them can be expanded.',
+    fix: 'Break the cycle by replacing one reference with a literal value.',
+  },
+  EG5003: {
+    name: 'required-reference',
+    summary: 'A ${VAR:?message} reference is not set',
+    explanation:
+      'The ${NAME:?message} form requires NAME to be set and non-empty, and reports the message when it is not.',
+    fix: 'Set the referenced variable.',
+  },
+
+  // ============================================
+  // Schema loading
+  // ============================================
+
+  EG6001: {
+    name: 'schema-not-found',
+    summary: 'No schema file was found',
+    explanation:
+      'The schema is looked up as env.schema.json (or .yaml, .toml, .js, .ts) in the working directory, or at the path given with --schema.',
+    fix: 'Run "env-guardian-cli init" to create a schema, or pass --schema.',
+  },
+  EG6002: {
+    name: 'unsupported-schema-format',
+    summary: 'The schema file type is not supported',
+    explanation: 'Schemas can be JSON, YAML, TOML, JavaScript or TypeScript files.',
+    fix: 'Rename or convert the schema to a supported extension.',
+  },
+  EG6003: {
+    name: 'invalid-schema',
+    summary: 'The schema does not have a valid structure',
+    explanation:
+      'The schema parsed, but an option has the wrong type or references something that does not exist, such as a rule naming an undeclared variable.',
+    fix: 'Fix the option at the path and line given in the message.',
+  },
+  EG6004: {
+    name: 'schema-load-failed',
+    summary: 'The schema could not be read',
+    explanation:
+      'The schema file (or a file it extends) could not be parsed or loaded, for example because of a syntax error, a circular "extends" or a missing extended file.',
+    fix: 'Fix the error named in the message.',
+  },
+
+  // ============================================
+  // Schema lint
+  // ============================================
+
+  EG7001: {
+    name: 'invalid-regex',
+    summary: 'A pattern in the schema is not a valid regular expression',
+    explanation:
+      '"pattern", "items.pattern", "regex:" formats and patterns inside "jsonSchema" must compile as JavaScript regular expressions.',
+    fix: 'Fix the regular expression. Remember to escape backslashes in JSON.',
+  },
+  EG7002: {
+    name: 'unknown-format',
+    summary: 'A format is not built in',
+    explanation:
+      '"format" and "items.format" must be a built-in format or start with "regex:". Unknown formats are not checked.',
+    fix: 'Use a built-in format (see the README) or "regex:<pattern>".',
+  },
+  EG7003: {
+    name: 'invalid-default',
+    summary: 'A default fails its own variable checks',
+    explanation:
+      'The default value would fail the type, enum, format or range checks of its variable.',
+    fix: 'Change the default or the checks so they agree.',
+  },
+  EG7004: {
+    name: 'invalid-range',
+    summary: 'A min/max pair can never be satisfied',
+    explanation:
+      'min is greater than max (or minLength than maxLength, or minItems than maxItems), or a bound does not fit the type.',
+    fix: 'Swap or correct the bounds.',
+  },
+  EG7005: {
+    name: 'redundant-optional',
+    summary: '"required": false has no effect',
+    explanation:
+      'A variable with a default is never missing, so marking it optional changes nothing.',
+    fix: 'Remove "required": false.',
+  },
+  EG7006: {
+    name: 'require-description',
+    summary: 'A variable has no description',
+    explanation: 'The team policy requires every variable to be documented.',
+    fix: 'Add a "description".',
+  },
+  EG7007: {
+    name: 'no-secret-defaults',
+    summary: 'A secret has a default value',
+    explanation:
+      'Defaults end up in version control and generated files, so secrets must not have one.',
+    fix: 'Remove the "default" and set the value in each environment.',
+  },
+  EG7008: {
+    name: 'sensitive-names',
+    summary: 'A secret-looking variable is not marked sensitive',
+    explanation:
+      'Names ending in SECRET, TOKEN, PASSWORD, API_KEY or PRIVATE_KEY usually hold secrets, which are only redacted from output when marked "sensitive".',
+    fix: 'Add "sensitive": true.',
+  },
+  EG7009: {
+    name: 'naming-convention',
+    summary: 'A variable name is not UPPER_SNAKE_CASE',
+    explanation: 'The team policy requires UPPER_SNAKE_CASE names.',
+    fix: 'Rename the variable, keeping the old name in "aliases" during the migration.',
+  },
+
+  // ============================================
+  // .env lint
+  // ============================================
+
+  EG8001: {
+    name: 'duplicate-key',
+    summary: 'A key is defined more than once in a file',
+    explanation: 'Only the last definition is used, which makes the earlier ones misleading.',
+    fix: 'Remove the earlier definitions, or run "env-guardian-cli lint-env --fix".',
+  },
+  EG8002: {
+    name: 'unbalanced-quotes',
+    summary: 'A quoted value is not closed',
+    explanation:
+      'A value starts with a quote that is never closed, or has text after its closing quote. The value is read differently from what was intended.',
+    fix: 'Close the quote, and move any trailing text inside the quotes or into a # comment.',
+  },
+  EG8003: {
+    name: 'invalid-line',
+    summary: 'A line is not KEY=value',
+    explanation:
+      'Lines must be assignments, comments starting with # or blank. Other lines are ignored.',
+    fix: 'Fix or remove the line. Keys may only contain letters, digits, _, . and -.',
+  },
+  EG8004: {
+    name: 'unquoted-hash',
+    summary: 'A # cuts an unquoted value short',
+    explanation: 'In unquoted values, # starts a comment, so PASSWORD=abc#123 is read as "abc".',
+    fix: 'Quote the value: PASSWORD="abc#123".',
+  },
+  EG8005: {
+    name: 'spaces-around-equals',
+    summary: 'There are spaces around =',
+    explanation: 'KEY = value works here, but shells and Docker --env-file do not accept it.',
+    fix: 'Write KEY=value, or run "env-guardian-cli lint-env --fix".',
+  },
+  EG8006: {
+    name: 'trailing-whitespace',
+    summary: 'An unquoted value ends with whitespace',
+    explanation: 'The whitespace is trimmed here, but other tools keep it as part of the value.',
+    fix: 'Remove the whitespace (or quote the value if it is intended), or run "env-guardian-cli lint-env --fix".',
+  },
+  EG8007: {
+    name: 'lowercase-key',
+    summary: 'A key is not uppercase',
+    explanation: 'Environment variable names are case-sensitive and conventionally uppercase.',
+    fix: 'Rename the key in the file and wherever it is read.',
+  },
+  EG8008: {
+    name: 'crlf-line-endings',
+    summary: 'The file uses CRLF line endings',
+    explanation: 'Tools that do not strip \\r read it as part of the last character of each value.',
+    fix: 'Convert the file to LF, or run "env-guardian-cli lint-env --fix".',
+  },
+  EG8009: {
+    name: 'bom',
+    summary: 'The file starts with a byte order mark',
+    explanation: 'Some tools read the byte order mark as part of the first key.',
+    fix: 'Save the file as UTF-8 without BOM, or run "env-guardian-cli lint-env --fix".',
+  },
+};
+
+/**
+ * Look up a code by its code (case-insensitive) or name
+ */
+export function findErrorCode(query: string): ({ code: string } & ErrorCodeInfo) | undefined {
+  const normalized = query.trim().toUpperCase();
+
+  for (const [code, info] of Object.entries(ERROR_CODES)) {
+    if (code === normalized || info.name === query.trim().toLowerCase()) {
+      return { code, ...info };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Code with its name, e.g. "EG1001 missing-required"
+ */
+export function describeErrorCode(code: string): string {
+  const info = ERROR_CODES[code];
+  return info ? `${code} ${info.name}` : code;
+}
@@ -0,0 +1,125 @@
+export interface ExpandError {
+  variable: string;
+  message: string;
+  code: string;
+}
+
+export interface ExpandEnvResult {
+  env: Record<string, string>;
+  errors: ExpandError[];
+}
+
+// Variable name at the start of a `${...}` body
+const REFERENCE_NAME = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+/**
+ * Expand `${VAR}`, `${VAR:-default}` and `${VAR:?error}` references.
+ * References resolve against `env` first, then `fallback` (e.g. process.env).
+ * `\${` stays literal. Unresolved references and cycles are reported as errors.
+ */
+export function expandEnv(
+  env: Record<string, string>,
+  fallback: Record<string, string | undefined> = {}
+): ExpandEnvResult {
+  const expanded: Record<string, string> = {};
+  const errors: ExpandError[] = [];
+  const stack: string[] = [];
+
+  const resolve = (name: string): string | undefined => {
+    if (!Object.hasOwn(env, name)) return fallback[name];
+    if (Object.hasOwn(expanded, name)) return expanded[name];
+
+    if (stack.includes(name)) {
+      const cycle = [...stack.slice(stack.indexOf(name)), name].join(' -> ');
+      errors.push({
+        variable: stack[stack.length - 1],
+        message: `Circular reference: ${cycle}`,
+        code: 'EG5002',
+      });
+      return '';
+    }
+
+    stack.push(name);
+    const value = expandValue(env[name], (message, code) =>
+      errors.push({ variable: name, message, code })
+    );
+    stack.pop();
+
+    expanded[name] = value;
+    return value;
+  };
+
+  const expandValue = (input: string, fail: (message: string, code: string) => void): string => {
+    let output = '';
+    let index = 0;
+
+    while (index < input.length) {
+      if (input.startsWith('\\${', index)) {
+        output += '${';
+        index += 3;
+        continue;
+      }
+
+      if (!input.startsWith('${', index)) {
+        output += input[index++];
+        continue;
+      }
+
+      const end = findClosingBrace(input, index + 2);
+      const body = input.slice(index + 2, end);
+      const name = REFERENCE_NAME.exec(body)?.[0];
+      const operator = name ? body.slice(name.length, name.length + 2) : '';
+
+      if (end === -1 || !name || (body !== name && operator !== ':-' && operator !== ':?')) {
+        // Not a reference we understand, keep it as written
+        const literal = end === -1 ? input.slice(index) : input.slice(index, end + 1);
+        output += literal;
+        index += literal.length;
+        continue;
+      }
+
+      const argument = body.slice(name.length + 2);
+      const value = resolve(name);
+      const isEmpty = value === undefined || value === '';
+
+      if (operator === ':-' && isEmpty) {
+        output += expandValue(argument, fail);
+      } else if (operator === ':?' && isEmpty) {
+        fail(argument ? `${name}: ${argument}` : `${name} is required`, 'EG5003');
+      } else if (value === undefined) {
+        fail(`Unresolved reference \${${name}}`, 'EG5001');
+      } else {
+        output += value;
+      }
+
+      index = end + 1;
+    }
+
+    return output;
+  };
+
+  for (const name of Object.keys(env)) {
+    resolve(name);
+  }
+
+  return { env: expanded, errors };
+}
+
+/**
+ * Index of the `}` closing a `${` body, skipping nested references (-1 when unclosed)
+ */
+function findClosingBrace(input: string, start: number): number {
+  let depth = 0;
+
+  for (let index = start; index < input.length; index++) {
+    if (input.startsWith('${', index)) {
+      depth++;
+      index++;
+    } else if (input[index] === '}') {
+      if (depth === 0) return index;
+      depth--;
+    }
+  }
+
+  return -1;
+}
@@ -1,18 +1,49 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { EnvSchema, Variable } from '../types/index.js';
+import { EnvSchema, Variable, VariableCondition } from '../types/index.js';
+import { describeCondition, isConditional, toConditionList } from './conditions.js';
+import { jsonSchemaToTypeScript } from './json-schema.js';
+import { PARSED_UNITS } from './units.js';
+import { describeDeprecation, getAliases, getDeprecation } from './deprecations.js';
+import { toTemplateLiteral } from './patterns.js';
+
+/**
+ * Whether a variable is always present in the parsed env without a default
+ */
+function isAlwaysRequired(spec: Variable): boolean {
+  return spec.required && spec.default === undefined && !isConditional(spec);
+}
 
 /**
  * Convert schema type to TypeScript type
  */
-function toTypeScriptType(spec: Variable): string {
+function toTypeScriptType(spec: Variable, name: string): string {
+  if (spec.format === 'json' && spec.jsonSchema) {
+    return toJsonTypeName(name);
+  }
+
+  if (spec.type === 'array') {
+    const itemEnum = spec.items?.enum;
+    const itemType =
+      itemEnum && itemEnum.length > 0
+        ? `(${itemEnum.map((v) => `'${v}'`).join(' | ')})`
+        : toScalarType(spec.items?.type ?? 'string');
+    return `${itemType}[]`;
+  }
+
   // If enum is defined, use literal union
   if (spec.enum && spec.enum.length > 0) {
     return spec.enum.map((v) => `'${v}'`).join(' | ');
   }
 
-  switch (spec.type) {
+  return toScalarType(spec.type);
+}
+
+function toScalarType(type: Variable['type']): string {
+  switch (type) {
     case 'number':
+    case 'duration':
+    case 'bytes':
       return 'number';
     case 'boolean':
       return 'boolean';
@@ -22,6 +53,84 @@ function toTypeScriptType(spec: Variable): string {
   }
 }
 
+/**
+ * JSDoc text for a parsed variable: its description plus the unit of durations and sizes
+ */
+export function toDocText(spec: Variable): string | undefined {
+  if (spec.type !== 'duration' && spec.type !== 'bytes') {
+    return spec.description;
+  }
+
+  const unit = PARSED_UNITS[spec.type];
+  const label = spec.type === 'duration' ? 'Duration' : 'Size';
+  return spec.description ? `${spec.description} (in ${unit})` : `${label} in ${unit}`;
+}
+
+/**
+ * `@deprecated` tag text for a deprecated variable
+ */
+export function toDeprecatedTag(spec: Variable): string | undefined {
+  const info = getDeprecation(spec);
+  if (!info) return undefined;
+
+  const parts = [spec.replacedBy ? `Use ${spec.replacedBy} instead.` : '', info.message ?? ''];
+  if (info.removalDate) parts.push(`Removal on ${info.removalDate}.`);
+
+  return `@deprecated ${parts.filter(Boolean).join(' ')}`.trimEnd();
+}
+
+/**
+ * Render JSDoc lines as a one-line or block comment (empty when there are no lines)
+ */
+export function formatDocComment(lines: Array<string | undefined>, indent: string): string {
+  const text = lines.filter((line): line is string => Boolean(line));
+
+  if (text.length === 0) return '';
+  if (text.length === 1) return `${indent}/** ${text[0]} */\n`;
+
+  return `${indent}/**\n${text.map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+/**
+ * Name of the generated type for a structured JSON variable (FEATURE_FLAGS -> FeatureFlags)
+ */
+function toJsonTypeName(name: string): string {
+  return name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Generate types for json variables that carry a jsonSchema
+ */
+function generateJsonTypes(schema: EnvSchema): string[] {
+  const blocks: string[] = [];
+
+  const entries = [
+    ...Object.entries(schema.variables),
+    ...Object.entries(schema.patternVariables ?? {}),
+  ];
+
+  for (const [name, spec] of entries) {
+    if (spec.format !== 'json' || !spec.jsonSchema) continue;
+
+    const typeName = toJsonTypeName(name);
+    const tsType = jsonSchemaToTypeScript(spec.jsonSchema);
+    const comment = `/** Parsed value of ${name} */\n`;
+
+    blocks.push(
+      tsType.startsWith('{')
+        ? `${comment}export interface ${typeName} ${tsType}`
+        : `${comment}export type ${typeName} = ${tsType};`
+    );
+  }
+
+  return blocks;
+}
+
 /**
  * Generate ProcessEnv interface (always strings)
  */
@@ -30,17 +139,24 @@ function generateProcessEnvInterface(schema: EnvSchema): string {
   lines.push('  interface ProcessEnv {');
 
   for (const [name, spec] of Object.entries(schema.variables)) {
-    const comment = spec.description ? `    /** ${spec.description} */\n` : '';
+    const comment = formatDocComment([spec.description, toDeprecatedTag(spec)], '    ');
 
     // ProcessEnv values are always string | undefined
+    const optional = spec.required && !isConditional(spec) ? '' : '?';
+
     if (spec.enum && spec.enum.length > 0) {
       const enumType = spec.enum.map((v) => `'${v}'`).join(' | ');
-      const optional = spec.required ? '' : '?';
       lines.push(`${comment}    ${name}${optional}: ${enumType};`);
     } else {
-      const optional = spec.required ? '' : '?';
       lines.push(`${comment}    ${name}${optional}: string;`);
     }
+
+    // Legacy aliases are still read, so they stay typed until removed
+    for (const alias of getAliases(spec)) {
+      const removal = alias.removalDate ? ` Removal on ${alias.removalDate}.` : '';
+      lines.push(`    /** @deprecated Use ${name} instead.${removal} */`);
+      lines.push(`    ${alias.name}?: string;`);
+    }
   }
 
   lines.push('  }');
@@ -51,21 +167,154 @@ function generateProcessEnvInterface(schema: EnvSchema): string {
  * Generate typed Env interface (with proper types)
  */
 function generateEnvInterface(schema: EnvSchema): string {
+  const unions = collectDiscriminatedUnions(schema);
   const lines: string[] = [];
-  lines.push('export interface Env {');
+  lines.push(unions.length > 0 ? 'export interface EnvBase {' : 'export interface Env {');
 
   for (const [name, spec] of Object.entries(schema.variables)) {
-    const comment = spec.description ? `  /** ${spec.description} */\n` : '';
-    const tsType = toTypeScriptType(spec);
-    const optional = spec.required && spec.default === undefined ? '' : '?';
+    const comment = formatDocComment([toDocText(spec), toDeprecatedTag(spec)], '  ');
+    const tsType = toTypeScriptType(spec, name);
+    const optional = isAlwaysRequired(spec) ? '' : '?';
 
     lines.push(`${comment}  ${name}${optional}: ${tsType};`);
   }
 
+  // Pattern variable families become template-literal index signatures
+  for (const [pattern, spec] of Object.entries(schema.patternVariables ?? {})) {
+    const keyType = toTemplateLiteral(pattern);
+
+    if (!keyType) {
+      lines.push(`  // ${pattern}: regular expression keys have no TypeScript equivalent`);
+      continue;
+    }
+
+    const comment = formatDocComment([toDocText(spec), toDeprecatedTag(spec)], '  ');
+    lines.push(`${comment}  [key: ${keyType}]: ${toTypeScriptType(spec, pattern)};`);
+  }
+
   lines.push('}');
+
+  if (unions.length > 0) {
+    // Conditional requirements narrow on their discriminator variable
+    lines.push('');
+    lines.push('export type Env = EnvBase &');
+    unions.forEach((union, index) => {
+      const members = union.members.map((member) => {
+        const props = [
+          `${union.discriminator}: ${member.literals.join(' | ')}`,
+          ...member.required.map(
+            (name) => `${name}: ${toTypeScriptType(schema.variables[name], name)}`
+          ),
+        ];
+        return `    | { ${props.join('; ')} }`;
+      });
+      const suffix = index === unions.length - 1 ? ';' : ' &';
+      lines.push('  (');
+      lines.push(...members);
+      lines.push(`  )${suffix}`);
+    });
+  }
+
   return lines.join('\n');
 }
 
+interface DiscriminatedUnion {
+  discriminator: string;
+  members: Array<{ literals: string[]; required: string[] }>;
+}
+
+/**
+ * Find conditional requirements that can be expressed as discriminated unions:
+ * equals/in conditions on a single always-present enum or boolean variable
+ */
+function collectDiscriminatedUnions(schema: EnvSchema): DiscriminatedUnion[] {
+  const byDiscriminator = new Map<string, Map<string, string[]>>();
+
+  for (const [name, spec] of Object.entries(schema.variables)) {
+    if (!isConditional(spec) || spec.default !== undefined) continue;
+    if (spec.requiredIf !== undefined && spec.requiredUnless !== undefined) continue;
+
+    const requiredIf = spec.requiredIf !== undefined;
+    const conditions = toConditionList(requiredIf ? spec.requiredIf : spec.requiredUnless);
+    const discriminator = conditions[0]?.variable;
+    const target = discriminator ? schema.variables[discriminator] : undefined;
+
+    if (!discriminator || !target || isConditional(target)) continue;
+    if (!target.required && target.default === undefined) continue;
+    if (!conditions.every((c) => c.variable === discriminator && isLiteralCondition(c))) continue;
+
+    const domain = literalDomain(target, conditions);
+    if (!domain) continue;
+
+    const literals = byDiscriminator.get(discriminator) ?? new Map<string, string[]>();
+    byDiscriminator.set(discriminator, literals);
+
+    for (const [literal, value] of domain) {
+      const matched = conditions.some((c) => conditionMatchesLiteral(c, value));
+      const required = literals.get(literal) ?? [];
+      literals.set(literal, required);
+
+      if (matched === requiredIf) {
+        required.push(name);
+      }
+    }
+  }
+
+  return [...byDiscriminator].map(([discriminator, literals]) => {
+    // Merge literals that require the same variables into one member
+    const members: DiscriminatedUnion['members'] = [];
+
+    for (const [literal, required] of literals) {
+      const existing = members.find((m) => m.required.join() === required.join());
+      if (existing) {
+        existing.literals.push(literal);
+      } else {
+        members.push({ literals: [literal], required });
+      }
+    }
+
+    return { discriminator, members };
+  });
+}
+
+function isLiteralCondition(condition: VariableCondition): boolean {
+  return (
+    condition.present === undefined &&
+    condition.absent === undefined &&
+    (condition.equals !== undefined) !== (condition.in !== undefined)
+  );
+}
+
+/**
+ * Literal types of the discriminator, keyed by their TypeScript source
+ */
+function literalDomain(
+  spec: Variable,
+  conditions: VariableCondition[]
+): Map<string, string | boolean> | undefined {
+  if (spec.enum && spec.enum.length > 0) {
+    return new Map(spec.enum.map((v) => [`'${v}'`, v]));
+  }
+
+  // Raw booleans have many spellings, so only parsed comparisons narrow
+  if (spec.type === 'boolean' && conditions.every((c) => c.compare === 'parsed')) {
+    return new Map<string, boolean>([
+      ['true', true],
+      ['false', false],
+    ]);
+  }
+
+  return undefined;
+}
+
+function conditionMatchesLiteral(condition: VariableCondition, value: string | boolean): boolean {
+  const candidates = condition.equals !== undefined ? [condition.equals] : (condition.in ?? []);
+
+  return candidates.some((candidate) =>
+    typeof value === 'boolean' ? candidate === value : String(candidate) === value
+  );
+}
+
 /**
  * Generate TypeScript declarations from schema
  */
@@ -89,13 +338,19 @@ export function generateTypeScript(
     lines.push('');
   }
 
+  // Generate structured JSON types
+  for (const block of generateJsonTypes(schema)) {
+    lines.push(block);
+    lines.push('');
+  }
+
   // Generate typed Env interface
   lines.push(generateEnvInterface(schema));
   lines.push('');
 
   // Generate helper type for required env vars
   const requiredVars = Object.entries(schema.variables)
-    .filter(([_, spec]) => spec.required && spec.default === undefined)
+    .filter(([_, spec]) => isAlwaysRequired(spec))
     .map(([name]) => `'${name}'`);
 
   if (requiredVars.length > 0) {
@@ -107,7 +362,7 @@ export function generateTypeScript(
 
   // Generate helper type for optional env vars
   const optionalVars = Object.entries(schema.variables)
-    .filter(([_, spec]) => !spec.required || spec.default !== undefined)
+    .filter(([_, spec]) => !isAlwaysRequired(spec))
     .map(([name]) => `'${name}'`);
 
   if (optionalVars.length > 0) {
@@ -124,6 +379,33 @@ export function generateTypeScript(
   return lines.join('\n');
 }
 
+export interface WriteResult {
+  success: boolean;
+  error?: string;
+  path: string;
+  /** False when the file already had the generated content and was left untouched */
+  changed?: boolean;
+}
+
+/**
+ * Write a generated file, creating its directory. Files whose content would not change
+ * are not rewritten, so watchers and build tools don't see a spurious change.
+ */
+export function writeIfChanged(absolutePath: string, content: string): boolean {
+  if (fs.existsSync(absolutePath) && fs.readFileSync(absolutePath, 'utf-8') === content) {
+    return false;
+  }
+
+  // Ensure directory exists
+  const dir = path.dirname(absolutePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(absolutePath, content, 'utf-8');
+  return true;
+}
+
 /**
  * Write TypeScript declarations to file
  */
@@ -131,23 +413,16 @@ export function writeTypeScriptFile(
   schema: EnvSchema,
   outputPath: string,
   options: { namespace?: boolean } = {}
-): { success: boolean; error?: string; path: string } {
+): WriteResult {
   const absolutePath = path.resolve(process.cwd(), outputPath);
 
   try {
     const content = generateTypeScript(schema, options);
 
-    // Ensure directory exists
-    const dir = path.dirname(absolutePath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-
-    fs.writeFileSync(absolutePath, content, 'utf-8');
-
     return {
       success: true,
       path: absolutePath,
+      changed: writeIfChanged(absolutePath, content),
     };
   } catch (error) {
     return {
@@ -180,12 +455,46 @@ export function generateEnvExample(schema: EnvSchema, options: { comments?: bool
       lines.push(`# Allowed values: ${spec.enum.join(', ')}`);
     }
 
-    if (showComments && !spec.required) {
+    if (showComments && isConditional(spec)) {
+      const requiredIf = toConditionList(spec.requiredIf).map(describeCondition);
+      const requiredUnless = toConditionList(spec.requiredUnless).map(describeCondition);
+
+      if (requiredIf.length > 0) lines.push(`# Required when ${requiredIf.join(' or ')}`);
+      if (requiredUnless.length > 0) lines.push(`# Required unless ${requiredUnless.join(' or ')}`);
+    } else if (showComments && !spec.required) {
       lines.push('# Optional');
     }
 
-    // Use default value if available, otherwise empty
-    const value = spec.default !== undefined ? String(spec.default) : '';
+    if (showComments && spec.type === 'array') {
+      lines.push(`# List separated by "${spec.separator ?? ','}"`);
+    }
+
+    const deprecation = getDeprecation(spec);
+    if (showComments && deprecation) {
+      const info = { ...deprecation, replacedBy: spec.replacedBy };
+      lines.push(`# ${describeDeprecation(name, info, new Date())}`);
+    }
+
+    if (showComments && spec.sensitive) {
+      lines.push('# Secret - keep the real value out of version control');
+    }
+
+    if (showComments && spec.type === 'duration') {
+      lines.push('# Duration, e.g. 500ms, 30s, 5m, 1h');
+    }
+
+    if (showComments && spec.type === 'bytes') {
+      lines.push('# Size, e.g. 512KB, 10MB, 1GiB');
+    }
+
+    // Use default value if available, otherwise empty. Secrets never get a default.
+    const value = spec.sensitive
+      ? ''
+      : Array.isArray(spec.default)
+        ? spec.default.join(spec.separator ?? ',')
+        : spec.default !== undefined
+          ? String(spec.default)
+          : '';
     lines.push(`${name}=${value}`);
 
     if (showComments) {
@@ -193,6 +502,17 @@ export function generateEnvExample(schema: EnvSchema, options: { comments?: bool
     }
   }
 
+  // Pattern families have no fixed names, so they are only documented
+  if (showComments) {
+    for (const [pattern, spec] of Object.entries(schema.patternVariables ?? {})) {
+      lines.push(`# Variables matching ${pattern} (${spec.format ?? spec.type})`);
+      if (spec.description) {
+        lines.push(`# ${spec.description}`);
+      }
+      lines.push('');
+    }
+  }
+
   return lines.join('\n');
 }
 
@@ -203,23 +523,16 @@ export function writeEnvExample(
   schema: EnvSchema,
   outputPath: string,
   options: { comments?: boolean } = {}
-): { success: boolean; error?: string; path: string } {
+): WriteResult {
   const absolutePath = path.resolve(process.cwd(), outputPath);
 
   try {
     const content = generateEnvExample(schema, options);
 
-    // Ensure directory exists
-    const dir = path.dirname(absolutePath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-
-    fs.writeFileSync(absolutePath, content, 'utf-8');
-
     return {
       success: true,
       path: absolutePath,
+      changed: writeIfChanged(absolutePath, content),
     };
   } catch (error) {
     return {
@@ -0,0 +1,239 @@
+import * as path from 'path';
+import { ArrayItem, EnvSchema, JsonValue, Variable } from '../types/index.js';
+import { isConditional } from './conditions.js';
+import { compilePattern } from './patterns.js';
+import { parseUnitValue } from './units.js';
+import { resolveBound, resolveDefault } from './validator.js';
+import { JSON_SCHEMA_DRAFT, JsonSchemaObject } from './meta-schema.js';
+import { WriteResult, toDocText, writeIfChanged } from './generator.js';
+
+// Built-in string formats: a standard keyword where JSON Schema has one, a pattern otherwise
+const STRING_FORMATS: Record<string, JsonSchemaObject> = {
+  url: { format: 'uri' },
+  email: { format: 'email' },
+  uuid: { format: 'uuid' },
+  json: { contentMediaType: 'application/json' },
+  base64: {
+    contentEncoding: 'base64',
+    pattern: '^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{4}|[A-Za-z0-9+/]{3}=|[A-Za-z0-9+/]{2}==)?$',
+  },
+  hex: { pattern: '^[0-9a-fA-F]+$' },
+  alphanumeric: { pattern: '^[a-zA-Z0-9]+$' },
+};
+
+// Built-in number formats as constraints on the parsed number
+const NUMBER_FORMATS: Record<string, JsonSchemaObject> = {
+  port: { type: 'integer', minimum: 1, maximum: 65535 },
+  positive: { exclusiveMinimum: 0 },
+  integer: { type: 'integer' },
+  percentage: { minimum: 0, maximum: 100 },
+};
+
+// ============================================
+// Keywords
+// ============================================
+
+type ScalarSpec = Pick<Variable, 'format' | 'pattern' | 'enum'> & {
+  type: ArrayItem['type'];
+};
+
+/**
+ * JSON Schema type of a parsed scalar value
+ */
+function toJsonType(type: ArrayItem['type']): string {
+  if (type === 'string' || type === 'boolean') return type;
+  return type === 'bytes' ? 'integer' : 'number';
+}
+
+/**
+ * Enum values as parsed values, dropping any that do not parse
+ */
+function toEnumValues(values: string[], type: ArrayItem['type']): JsonValue[] {
+  const parsed = values.map((value): JsonValue | undefined => {
+    if (type === 'number') return isNaN(Number(value)) ? undefined : Number(value);
+    if (type === 'duration' || type === 'bytes') return parseUnitValue(value, type);
+    if (type === 'boolean') return ['true', 'false'].includes(value) ? value === 'true' : undefined;
+    return value;
+  });
+
+  return parsed.filter((value): value is JsonValue => value !== undefined);
+}
+
+/**
+ * Add a pattern, combining it with an existing one through allOf
+ */
+function addPattern(schema: JsonSchemaObject, pattern: string): void {
+  if (schema.pattern === undefined) {
+    schema.pattern = pattern;
+    return;
+  }
+
+  const allOf = Array.isArray(schema.allOf) ? schema.allOf : [];
+  schema.allOf = [...allOf, { pattern }];
+}
+
+/**
+ * Add a lower or upper bound, keeping the stricter one
+ */
+function addBound(schema: JsonSchemaObject, key: 'minimum' | 'maximum', value: number): void {
+  const current = schema[key];
+
+  if (typeof current !== 'number') {
+    schema[key] = value;
+  } else {
+    schema[key] = key === 'minimum' ? Math.max(current, value) : Math.min(current, value);
+  }
+}
+
+/**
+ * Keywords for a scalar variable or list item: type, enum, format and pattern
+ */
+function toScalarSchema(spec: ScalarSpec): JsonSchemaObject {
+  const schema: JsonSchemaObject = { type: toJsonType(spec.type) };
+
+  if (spec.enum && spec.enum.length > 0) {
+    schema.enum = toEnumValues(spec.enum, spec.type);
+  }
+
+  const format = spec.format;
+  const formats = spec.type === 'string' ? STRING_FORMATS : NUMBER_FORMATS;
+
+  if (format?.startsWith('regex:')) {
+    addPattern(schema, format.slice(6));
+  } else if (format && format in formats) {
+    const { pattern, minimum, maximum, ...keywords } = formats[format];
+    Object.assign(schema, keywords);
+
+    if (typeof pattern === 'string') addPattern(schema, pattern);
+    if (typeof minimum === 'number') addBound(schema, 'minimum', minimum);
+    if (typeof maximum === 'number') addBound(schema, 'maximum', maximum);
+  }
+
+  if (spec.pattern) {
+    addPattern(schema, spec.pattern);
+  }
+
+  return schema;
+}
+
+/**
+ * JSON Schema for a variable's parsed value
+ */
+function toPropertySchema(spec: Variable): JsonSchemaObject {
+  const description = toDocText(spec);
+  let schema: JsonSchemaObject;
+
+  if (spec.type === 'array') {
+    const items = spec.items ?? { type: 'string' as const };
+    schema = { type: 'array', items: toScalarSchema(items) };
+
+    if (spec.minItems !== undefined) schema.minItems = spec.minItems;
+    if (spec.maxItems !== undefined) schema.maxItems = spec.maxItems;
+    if (spec.unique) schema.uniqueItems = true;
+  } else if (spec.format === 'json' && spec.jsonSchema) {
+    // Structured JSON is described by its own schema
+    schema = { ...(spec.jsonSchema as JsonSchemaObject) };
+  } else {
+    schema = toScalarSchema({ ...spec, type: spec.type });
+
+    for (const kind of ['min', 'max'] as const) {
+      const bound = spec[kind];
+      const limit = bound === undefined ? undefined : resolveBound(bound, spec.type);
+
+      if (limit !== undefined && spec.type !== 'string' && spec.type !== 'boolean') {
+        addBound(schema, kind === 'min' ? 'minimum' : 'maximum', limit);
+      }
+    }
+
+    if (spec.type === 'string' && spec.minLength !== undefined) schema.minLength = spec.minLength;
+    if (spec.type === 'string' && spec.maxLength !== undefined) schema.maxLength = spec.maxLength;
+  }
+
+  const defaultValue = toDefaultValue(spec);
+
+  return {
+    ...(description ? { description } : {}),
+    ...schema,
+    ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+    ...(spec.deprecated ? { deprecated: true } : {}),
+  };
+}
+
+/**
+ * Default as a parsed value. Structured JSON defaults are written as JSON strings.
+ */
+function toDefaultValue(spec: Variable): JsonValue | undefined {
+  const value = resolveDefault(spec);
+
+  if (spec.format === 'json' && spec.jsonSchema && typeof value === 'string') {
+    try {
+      return JSON.parse(value) as JsonValue;
+    } catch {
+      return undefined;
+    }
+  }
+
+  return value;
+}
+
+// ============================================
+// Generation
+// ============================================
+
+/**
+ * Translate a schema's variables into a draft 2020-12 JSON Schema describing the
+ * parsed environment. Conditional requirements and cross-variable rules are not expressed.
+ */
+export function generateJsonSchema(schema: EnvSchema): JsonSchemaObject {
+  const properties: JsonSchemaObject = {};
+  const required: string[] = [];
+
+  for (const [name, spec] of Object.entries(schema.variables)) {
+    properties[name] = toPropertySchema(spec);
+
+    if (spec.required && spec.default === undefined && !isConditional(spec)) {
+      required.push(name);
+    }
+  }
+
+  const result: JsonSchemaObject = {
+    $schema: JSON_SCHEMA_DRAFT,
+    title: 'Environment variables',
+    type: 'object',
+    properties,
+  };
+
+  if (schema.patternVariables) {
+    const patternProperties: JsonSchemaObject = {};
+
+    for (const [pattern, spec] of Object.entries(schema.patternVariables)) {
+      patternProperties[compilePattern(pattern).source] = toPropertySchema(spec);
+    }
+
+    result.patternProperties = patternProperties;
+  }
+
+  if (required.length > 0) {
+    result.required = required;
+  }
+
+  return result;
+}
+
+/**
+ * Write the JSON Schema to file
+ */
+export function writeJsonSchemaFile(schema: EnvSchema, outputPath: string): WriteResult {
+  const absolutePath = path.resolve(process.cwd(), outputPath);
+
+  try {
+    const content = `${JSON.stringify(generateJsonSchema(schema), null, 2)}\n`;
+    return { success: true, path: absolutePath, changed: writeIfChanged(absolutePath, content) };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to write JSON Schema: ${error instanceof Error ? error.message : String(error)}`,
+      path: absolutePath,
+    };
+  }
+}
@@ -0,0 +1,217 @@
+import { JsonSchema, JsonValue } from '../types/index.js';
+
+type JsonSchemaType = NonNullable<Extract<JsonSchema['type'], string>>;
+
+export interface JsonSchemaIssue {
+  /** JSON pointer (RFC 6901) to the failing value, "" for the root */
+  pointer: string;
+  message: string;
+}
+
+/**
+ * Validate a parsed JSON value against a JSON Schema subset
+ */
+export function validateJsonSchema(
+  value: JsonValue,
+  schema: JsonSchema,
+  pointer = ''
+): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = [];
+  const fail = (message: string) => issues.push({ pointer, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`expected ${types.join(' | ')}, received ${typeOf(value)}`);
+      return issues;
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    fail(`must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some((option) => deepEqual(value, option))) {
+    fail(`must be one of: ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (schema.anyOf !== undefined) {
+    const matches = schema.anyOf.some(
+      (option) => validateJsonSchema(value, option, pointer).length === 0
+    );
+    if (!matches) {
+      fail('does not match any allowed shape');
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`length must be >= ${schema.minLength}`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`length must be <= ${schema.maxLength}`);
+    }
+    if (schema.pattern !== undefined && !matchesPattern(value, schema.pattern)) {
+      fail(`must match pattern: ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have >= ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have <= ${schema.maxItems} item(s)`);
+    }
+    if (schema.items !== undefined) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => {
+        issues.push(...validateJsonSchema(item, itemSchema, `${pointer}/${index}`));
+      });
+    }
+  }
+
+  if (isJsonObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        issues.push({ pointer: `${pointer}/${escapePointer(key)}`, message: 'is required' });
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const childPointer = `${pointer}/${escapePointer(key)}`;
+      const childSchema = schema.properties?.[key];
+
+      if (childSchema) {
+        issues.push(...validateJsonSchema(child, childSchema, childPointer));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ pointer: childPointer, message: 'is not an allowed property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateJsonSchema(child, schema.additionalProperties, childPointer));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Convert a JSON Schema subset to a TypeScript type expression
+ */
+export function jsonSchemaToTypeScript(schema: JsonSchema, indent = ''): string {
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+
+  if (schema.enum !== undefined) {
+    return schema.enum.map((option) => JSON.stringify(option)).join(' | ');
+  }
+
+  if (schema.anyOf !== undefined) {
+    return schema.anyOf.map((option) => jsonSchemaToTypeScript(option, indent)).join(' | ');
+  }
+
+  const types =
+    schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  if (types.length === 0) {
+    return schema.properties ? objectType(schema, indent) : 'unknown';
+  }
+
+  return types
+    .map((type) => {
+      switch (type) {
+        case 'string':
+        case 'boolean':
+        case 'null':
+          return type;
+        case 'number':
+        case 'integer':
+          return 'number';
+        case 'array':
+          return `Array<${schema.items ? jsonSchemaToTypeScript(schema.items, indent) : 'unknown'}>`;
+        case 'object':
+          return objectType(schema, indent);
+      }
+    })
+    .join(' | ');
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const inner = `${indent}  `;
+  const required = new Set(schema.required ?? []);
+  const lines: string[] = [];
+
+  for (const [key, child] of Object.entries(schema.properties ?? {})) {
+    const optional = required.has(key) ? '' : '?';
+    const propertyKey = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+    if (child.description) {
+      lines.push(`${inner}/** ${child.description} */`);
+    }
+    lines.push(`${inner}${propertyKey}${optional}: ${jsonSchemaToTypeScript(child, inner)};`);
+  }
+
+  if (schema.additionalProperties !== undefined && schema.additionalProperties !== false) {
+    const valueType =
+      schema.additionalProperties === true
+        ? 'unknown'
+        : jsonSchemaToTypeScript(schema.additionalProperties, inner);
+    lines.push(`${inner}[key: string]: ${valueType};`);
+  }
+
+  return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, unknown>';
+}
+
+/**
+ * Invalid patterns match nothing; schema loading rejects them, so this only guards
+ * schemas built in code
+ */
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return false;
+  }
+}
+
+function matchesType(value: JsonValue, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isJsonObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function typeOf(value: JsonValue): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isJsonObject(value: JsonValue): value is { [key: string]: JsonValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: JsonValue, b: JsonValue): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -1,12 +1,15 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as dotenv from 'dotenv';
+import { EnvLocation } from '../types/index.js';
+import { isSensitiveName } from './redact.js';
+import { EnvDocument, EnvParseIssue, parseEnvFile, toEnvRecord } from './env-parser.js';
 
 export interface LoadEnvResult {
   success: boolean;
   env: Record<string, string>;
   error?: string;
   path: string;
+  document?: EnvDocument; // Parsed file with positions, comments and duplicates
 }
 
 /**
@@ -26,12 +29,13 @@ export function loadEnvFile(envPath: string): LoadEnvResult {
 
   try {
     const content = fs.readFileSync(absolutePath, 'utf-8');
-    const parsed = dotenv.parse(content);
+    const document = parseEnvFile(content);
 
     return {
       success: true,
-      env: parsed,
+      env: toEnvRecord(document),
       path: absolutePath,
+      document,
     };
   } catch (error) {
     return {
@@ -58,6 +62,98 @@ export function loadProcessEnv(): Record<string, string> {
   return env;
 }
 
+export interface EnvCascadeResult {
+  env: Record<string, string>;
+  /** File path (or "process.env") that supplied each variable's final value */
+  sources: Record<string, string>;
+  /** File position of each variable whose final value came from a file */
+  locations: Record<string, EnvLocation>;
+  /** Files that were read, lowest precedence first */
+  loaded: string[];
+  /** Absolute paths of every file in the cascade, including missing ones */
+  files: string[];
+  /** Explicitly requested files that could not be read */
+  errors: string[];
+  /** Syntax problems and duplicate keys in the files that were read */
+  issues: Array<EnvParseIssue & { file: string }>;
+}
+
+export const PROCESS_ENV_SOURCE = 'process.env';
+
+/**
+ * Default cascade, lowest precedence first:
+ * .env, .env.local, .env.<environment>, .env.<environment>.local
+ */
+export function getCascadeFiles(environment?: string): string[] {
+  const files = ['.env', '.env.local'];
+
+  if (environment) {
+    files.push(`.env.${environment}`, `.env.${environment}.local`);
+  }
+
+  return files;
+}
+
+/**
+ * Load layered env files and record where each final value came from.
+ * Later files win; process.env (when included) has the lowest precedence.
+ * Missing files of the default cascade are skipped, missing explicit files are errors.
+ */
+export function loadEnvCascade(
+  options: { files?: string[]; environment?: string; processEnv?: boolean } = {}
+): EnvCascadeResult {
+  const explicit = options.files !== undefined && options.files.length > 0;
+  const files = explicit ? (options.files ?? []) : getCascadeFiles(options.environment);
+  const result: EnvCascadeResult = {
+    env: {},
+    sources: {},
+    locations: {},
+    loaded: [],
+    files: files.map((file) => path.resolve(process.cwd(), file)),
+    errors: [],
+    issues: [],
+  };
+
+  const apply = (env: Record<string, string>, source: string) => {
+    for (const [key, value] of Object.entries(env)) {
+      result.env[key] = value;
+      result.sources[key] = source;
+      delete result.locations[key];
+    }
+  };
+
+  if (options.processEnv) {
+    apply(loadProcessEnv(), PROCESS_ENV_SOURCE);
+  }
+
+  for (const file of files) {
+    const envResult = loadEnvFile(file);
+
+    if (envResult.success) {
+      apply(envResult.env, envResult.path);
+      result.loaded.push(envResult.path);
+
+      for (const node of envResult.document?.nodes ?? []) {
+        if (node.type === 'entry') {
+          result.locations[node.key] = {
+            file: envResult.path,
+            line: node.line,
+            column: node.column,
+          };
+        }
+      }
+
+      for (const issue of envResult.document?.issues ?? []) {
+        result.issues.push({ ...issue, file: envResult.path });
+      }
+    } else if (explicit || fs.existsSync(envResult.path)) {
+      result.errors.push(envResult.error ?? `Failed to load ${file}`);
+    }
+  }
+
+  return result;
+}
+
 /**
  * Merge multiple env sources (later sources override earlier ones)
  */
@@ -85,9 +181,7 @@ export function inferType(value: string): 'string' | 'number' | 'boolean' {
 /**
  * Infer format from string value
  */
-export function inferFormat(
-  value: string
-): 'url' | 'email' | 'uuid' | 'json' | 'port' | undefined {
+export function inferFormat(value: string): 'url' | 'email' | 'uuid' | 'json' | 'port' | undefined {
   // URL
   if (/^https?:\/\//.test(value)) {
     return 'url';
@@ -104,7 +198,10 @@ export function inferFormat(
   }
 
   // JSON (basic check)
-  if ((value.startsWith('{') && value.endsWith('}')) || (value.startsWith('[') && value.endsWith(']'))) {
+  if (
+    (value.startsWith('{') && value.endsWith('}')) ||
+    (value.startsWith('[') && value.endsWith(']'))
+  ) {
     try {
       JSON.parse(value);
       return 'json';
@@ -122,16 +219,19 @@ export function inferFormat(
   return undefined;
 }
 
+interface InferredVariable {
+  type: string;
+  format?: string;
+  required: boolean;
+  sensitive?: boolean;
+  description: string;
+}
+
 /**
  * Infer schema from existing env variables
  */
-export function inferSchemaFromEnv(
-  env: Record<string, string>
-): Record<string, { type: string; format?: string; required: boolean; description: string }> {
-  const variables: Record<
-    string,
-    { type: string; format?: string; required: boolean; description: string }
-  > = {};
+export function inferSchemaFromEnv(env: Record<string, string>): Record<string, InferredVariable> {
+  const variables: Record<string, InferredVariable> = {};
 
   for (const [key, value] of Object.entries(env)) {
     const type = inferType(value);
@@ -141,6 +241,7 @@ export function inferSchemaFromEnv(
       type,
       ...(format && { format }),
       required: true,
+      ...(isSensitiveName(key) && { sensitive: true }),
       description: `TODO: Add description for ${key}`,
     };
   }
@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import {
+  EnvSchemaDefinition,
+  JsonSchemaDefinition,
+  JsonValue,
+  JsonValueSchema,
+  PatternVariableSchema,
+  RuleSchema,
+  SCHEMA_URL,
+  VariableConditionSchema,
+  VariableOverrideSchema,
+  VariableSchema,
+} from '../types/index.js';
+
+export type JsonSchemaObject = { [key: string]: JsonValue };
+
+export const JSON_SCHEMA_DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+
+// Zod types emitted once under $defs and referenced by name. Recursive (lazy) types must be here.
+const DEFINITIONS: Array<[string, z.ZodTypeAny]> = [
+  ['variable', VariableSchema],
+  ['patternVariable', PatternVariableSchema],
+  ['variableOverride', VariableOverrideSchema],
+  ['condition', VariableConditionSchema],
+  ['rule', RuleSchema],
+  ['jsonSchema', JsonSchemaDefinition],
+  ['jsonValue', JsonValueSchema],
+];
+
+// ============================================
+// Zod Conversion
+// ============================================
+
+interface ConversionContext {
+  names: Map<z.ZodTypeAny, string>;
+  defs: Record<string, JsonSchemaObject>;
+}
+
+/**
+ * JSON Schema for a zod type. Refinements and transforms cannot be expressed,
+ * so the schema describes their input type.
+ */
+function toJsonSchema(type: z.ZodTypeAny, context: ConversionContext): JsonSchemaObject {
+  const name = context.names.get(type);
+
+  if (name !== undefined) {
+    if (!(name in context.defs)) {
+      // Reserve the name first so recursive references resolve to it
+      context.defs[name] = {};
+      context.defs[name] = convertType(type, context);
+    }
+    return { $ref: `#/$defs/${name}` };
+  }
+
+  return convertType(type, context);
+}
+
+function convertType(type: z.ZodTypeAny, context: ConversionContext): JsonSchemaObject {
+  const schema = convertShape(type, context);
+  return type.description ? { description: type.description, ...schema } : schema;
+}
+
+function convertShape(type: z.ZodTypeAny, context: ConversionContext): JsonSchemaObject {
+  if (type instanceof z.ZodObject) {
+    const shape = type.shape as Record<string, z.ZodTypeAny>;
+    const properties: JsonSchemaObject = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = toJsonSchema(value, context);
+      if (!value.isOptional()) required.push(key);
+    }
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      ...(type._def.unknownKeys === 'strict' ? { additionalProperties: false } : {}),
+    };
+  }
+
+  if (type instanceof z.ZodString) {
+    const schema: JsonSchemaObject = { type: 'string' };
+    for (const check of type._def.checks) {
+      if (check.kind === 'min') schema.minLength = check.value;
+      if (check.kind === 'max') schema.maxLength = check.value;
+      if (check.kind === 'regex') schema.pattern = check.regex.source;
+    }
+    return schema;
+  }
+
+  if (type instanceof z.ZodNumber) {
+    const schema: JsonSchemaObject = { type: 'number' };
+    for (const check of type._def.checks) {
+      if (check.kind === 'int') {
+        schema.type = 'integer';
+      } else if (check.kind === 'min') {
+        schema[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      } else if (check.kind === 'max') {
+        schema[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+    }
+    return schema;
+  }
+
+  if (type instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (type instanceof z.ZodNull) return { type: 'null' };
+  if (type instanceof z.ZodEnum) return { type: 'string', enum: [...(type.options as string[])] };
+  if (type instanceof z.ZodLiteral) return { const: type.value as JsonValue };
+
+  if (type instanceof z.ZodArray) {
+    const def = type._def as z.ZodArrayDef;
+    return {
+      type: 'array',
+      items: toJsonSchema(def.type, context),
+      ...(def.minLength ? { minItems: def.minLength.value } : {}),
+      ...(def.maxLength ? { maxItems: def.maxLength.value } : {}),
+    };
+  }
+
+  if (type instanceof z.ZodRecord) {
+    const values = type.valueSchema as z.ZodTypeAny;
+    return { type: 'object', additionalProperties: toJsonSchema(values, context) };
+  }
+
+  if (type instanceof z.ZodUnion) {
+    const options = type.options as z.ZodTypeAny[];
+    return { anyOf: options.map((option) => toJsonSchema(option, context)) };
+  }
+
+  if (type instanceof z.ZodDiscriminatedUnion) {
+    const options = type.options as z.ZodTypeAny[];
+    return { oneOf: options.map((option) => toJsonSchema(option, context)) };
+  }
+
+  if (type instanceof z.ZodDefault) {
+    const def = type._def as z.ZodDefaultDef;
+    return { ...toJsonSchema(def.innerType, context), default: def.defaultValue() as JsonValue };
+  }
+
+  if (type instanceof z.ZodOptional) return toJsonSchema(type.unwrap() as z.ZodTypeAny, context);
+  if (type instanceof z.ZodEffects) return toJsonSchema(type.innerType() as z.ZodTypeAny, context);
+  if (type instanceof z.ZodLazy) return toJsonSchema(type.schema as z.ZodTypeAny, context);
+
+  // Anything else accepts any value
+  return {};
+}
+
+/**
+ * Convert a zod type to a standalone draft 2020-12 JSON Schema. Types listed in
+ * `definitions` are emitted once under `$defs` and referenced from every use.
+ */
+export function zodToJsonSchema(
+  type: z.ZodTypeAny,
+  definitions: Array<[string, z.ZodTypeAny]> = []
+): JsonSchemaObject {
+  const context: ConversionContext = {
+    names: new Map(definitions.map(([name, definition]) => [definition, name])),
+    defs: {},
+  };
+
+  const schema: JsonSchemaObject = { $schema: JSON_SCHEMA_DRAFT, ...convertType(type, context) };
+
+  if (Object.keys(context.defs).length > 0) {
+    schema.$defs = context.defs;
+  }
+
+  return schema;
+}
+
+// ============================================
+// Meta-schema
+// ============================================
+
+/**
+ * JSON Schema for env.schema.json files, generated from EnvSchemaDefinition.
+ * It is published at SCHEMA_URL, so the `$schema` that init writes gives editor validation.
+ */
+export function generateMetaSchema(): JsonSchemaObject {
+  const { $schema, ...schema } = zodToJsonSchema(EnvSchemaDefinition, DEFINITIONS);
+
+  return {
+    $schema,
+    $id: SCHEMA_URL,
+    title: 'env-guardian-cli schema',
+    description: 'Environment variable schema for env-guardian-cli (env.schema.json)',
+    ...schema,
+  };
+}
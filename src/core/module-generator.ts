@@ -0,0 +1,365 @@
+import * as path from 'path';
+import { EnvSchema, Variable } from '../types/index.js';
+import { isConditional } from './conditions.js';
+import { jsonSchemaToTypeScript } from './json-schema.js';
+import {
+  PARSER_NAMES,
+  PARSE_MESSAGES,
+  CheckTarget,
+  collectRuntimeNeeds,
+  generateRequirementChecks,
+  generateRuleChecks,
+  generateRuntimeHelpers,
+  listUncheckedFeatures,
+  rangeLimits,
+  rawValueChecks,
+  toDefaultLiteral,
+  toPropertyAccess,
+  toPropertyKey,
+  toStringLiteral,
+} from './codegen.js';
+import {
+  WriteResult,
+  formatDocComment,
+  toDeprecatedTag,
+  toDocText,
+  writeIfChanged,
+} from './generator.js';
+
+const READER_SOURCE = `/** Thrown when the environment is invalid, listing every problem */
+export class EnvValidationError extends Error {
+  constructor(readonly problems: string[]) {
+    super(\`Invalid environment:\\n\${problems.map((problem) => \`  - \${problem}\`).join('\\n')}\`);
+    this.name = 'EnvValidationError';
+  }
+}
+
+type Check = (ok: boolean, message: string) => void;
+
+/**
+ * Reader for single variables that records every problem in \`problems\`.
+ * Empty values count as unset, as in env-guardian-cli validate.
+ */
+function createReader(source: Record<string, string | undefined>, problems: string[]) {
+  return <T>(name: string, required: boolean, parse: (value: string, check: Check) => T) => {
+    const value = source[name];
+
+    if (value === undefined || value === '') {
+      if (required) problems.push(\`\${name}: Required variable is missing\`);
+      return undefined;
+    }
+
+    const failures: string[] = [];
+    const parsed = parse(value, (ok, message) => {
+      if (!ok && !failures.includes(message)) failures.push(message);
+    });
+
+    problems.push(...failures.map((message) => \`\${name}: \${message}\`));
+    return failures.length > 0 ? undefined : parsed;
+  };
+}`;
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * TypeScript type of a variable's parsed value
+ */
+function toValueType(spec: Variable, indent: string): string {
+  if (spec.type === 'array') {
+    const itemEnum = spec.items?.type === 'string' ? spec.items.enum : undefined;
+    const itemType =
+      itemEnum && itemEnum.length > 0
+        ? `(${itemEnum.map(toStringLiteral).join(' | ')})`
+        : toScalarType(spec.items?.type ?? 'string');
+    return `${itemType}[]`;
+  }
+
+  if (spec.format === 'json' && spec.jsonSchema) {
+    return jsonSchemaToTypeScript(spec.jsonSchema, indent);
+  }
+
+  if (spec.type === 'string' && spec.enum && spec.enum.length > 0) {
+    return spec.enum.map(toStringLiteral).join(' | ');
+  }
+
+  return toScalarType(spec.type);
+}
+
+function toScalarType(type: Variable['type']): string {
+  if (type === 'boolean') return 'boolean';
+  return type === 'string' ? 'string' : 'number';
+}
+
+/**
+ * Whether a variable always has a value once the environment is valid
+ */
+function isAlwaysSet(spec: Variable): boolean {
+  return spec.default !== undefined || (spec.required && !isConditional(spec));
+}
+
+function generateEnvInterface(schema: EnvSchema): string {
+  const lines: string[] = ['export interface Env {'];
+
+  for (const [name, spec] of Object.entries(schema.variables)) {
+    const comment = formatDocComment([toDocText(spec), toDeprecatedTag(spec)], '  ');
+    const optional = isAlwaysSet(spec) ? '' : '?';
+    lines.push(
+      `${comment}  readonly ${toPropertyKey(name)}${optional}: ${toValueType(spec, '  ')};`
+    );
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// ============================================
+// Parsers
+// ============================================
+
+/**
+ * Body of the parse callback for a variable, checking `value` like the validator does
+ */
+function toParseBody(spec: Variable): string[] {
+  if (spec.type === 'array') {
+    return toListBody(spec);
+  }
+
+  const body: string[] = [];
+  const checks = rawValueChecks(spec);
+
+  if (spec.type !== 'string') {
+    body.push(`const parsed = ${PARSER_NAMES[spec.type]}(value);`);
+    body.push(`check(parsed !== undefined, ${toStringLiteral(PARSE_MESSAGES[spec.type])});`);
+  }
+
+  for (const check of checks) {
+    body.push(`check(${check.test}, ${toStringLiteral(check.message)});`);
+  }
+
+  for (const { kind, limit, message } of rangeLimits(spec)) {
+    const test =
+      limit === undefined
+        ? 'false'
+        : `parsed === undefined || parsed ${kind === 'min' ? '>=' : '<='} ${limit}`;
+    body.push(`check(${test}, ${toStringLiteral(message)});`);
+  }
+
+  if (spec.type !== 'string') {
+    body.push('return parsed;');
+  } else if (spec.format === 'json' && spec.jsonSchema) {
+    // Checks do not stop parsing, so malformed JSON must not reach JSON.parse
+    const type = toValueType(spec, '      ');
+    body.push(`return formats.json(value) ? (JSON.parse(value) as ${type}) : undefined;`);
+  } else if (spec.enum && spec.enum.length > 0) {
+    body.push(`return value as ${toValueType(spec, '')};`);
+  } else {
+    body.push('return value;');
+  }
+
+  return body;
+}
+
+/**
+ * Lists split on their separator, then check each item and the list size
+ */
+function toListBody(spec: Variable): string[] {
+  const itemType = spec.items?.type ?? 'string';
+  const itemChecks = rawValueChecks({ ...spec.items, type: itemType }, { item: true });
+  const split = `splitList(list, ${toStringLiteral(spec.separator ?? ',')})`;
+  const body: string[] = [];
+
+  const hasSizeChecks = spec.minItems !== undefined || spec.maxItems !== undefined || spec.unique;
+
+  if (itemType === 'string' && itemChecks.length === 0) {
+    if (!hasSizeChecks) return [`return ${split};`];
+    body.push(`const items = ${split};`);
+  } else {
+    body.push(`const items = ${split}.map((value) => {`);
+
+    if (itemType !== 'string') {
+      body.push(`  const parsed = ${PARSER_NAMES[itemType]}(value);`);
+      body.push(`  check(parsed !== undefined, ${toStringLiteral(PARSE_MESSAGES[itemType])});`);
+    }
+
+    for (const check of itemChecks) {
+      body.push(`  check(${check.test}, ${toStringLiteral(check.message)});`);
+    }
+
+    body.push(itemType === 'string' ? '  return value;' : '  return parsed;');
+    body.push('});');
+  }
+
+  if (spec.minItems !== undefined) {
+    const message = `List has fewer than ${spec.minItems} item(s)`;
+    body.push(`check(items.length >= ${spec.minItems}, ${toStringLiteral(message)});`);
+  }
+
+  if (spec.maxItems !== undefined) {
+    const message = `List has more than ${spec.maxItems} item(s)`;
+    body.push(`check(items.length <= ${spec.maxItems}, ${toStringLiteral(message)});`);
+  }
+
+  if (spec.unique) {
+    body.push(`check(new Set(items).size === items.length, 'List contains duplicate items');`);
+  }
+
+  const itemEnum = itemType === 'string' ? spec.items?.enum : undefined;
+  body.push(
+    itemEnum && itemEnum.length > 0 ? `return items as ${toValueType(spec, '')};` : 'return items;'
+  );
+
+  return body;
+}
+
+/**
+ * Object entry reading one variable inside parseEnv()
+ */
+function toEntry(name: string, spec: Variable): string {
+  const required = spec.required && !isConditional(spec) && spec.default === undefined;
+  const param = spec.type === 'array' ? 'list' : 'value';
+  const fallback = spec.default === undefined ? '' : ` ?? ${toDefaultLiteral(spec)}`;
+  const body = toParseBody(spec);
+  const start = `    ${toPropertyKey(name)}: read(${toStringLiteral(name)}, ${required}, `;
+
+  if (body.length === 1) {
+    return `${start}(${param}) => ${body[0].replace(/^return |;$/g, '')})${fallback},`;
+  }
+
+  const params = body.some((line) => line.includes('check(')) ? `${param}, check` : param;
+
+  return [
+    `${start}(${params}) => {`,
+    ...body.map((line) => `      ${line}`),
+    `    })${fallback},`,
+  ].join('\n');
+}
+
+/**
+ * Conditional requirement and rule checks, run once every variable is read
+ */
+function toCrossVariableChecks(schema: EnvSchema): string[] {
+  const target: CheckTarget = {
+    parsed: (name) => toPropertyAccess('env', name),
+    report: (variables, message) =>
+      `report([${variables.map(toStringLiteral).join(', ')}], ${message});`,
+  };
+
+  return [
+    ...generateRequirementChecks(schema, target),
+    ...generateRuleChecks(schema.rules ?? [], schema, target),
+  ];
+}
+
+// ============================================
+// Generation
+// ============================================
+
+/**
+ * Generate a self-contained TypeScript module that validates process.env once, using
+ * the same checks as validate(), and exports the parsed values as a frozen, typed `env`
+ */
+export function generateEnvModule(schema: EnvSchema): string {
+  const lines: string[] = [];
+  const unchecked = listUncheckedFeatures(schema);
+  const needs = collectRuntimeNeeds(schema);
+  const checks = toCrossVariableChecks(schema);
+  const hasAliases = needs.aliases.length > 0;
+
+  lines.push('// Auto-generated by env-guardian-cli. Do not edit manually.');
+  lines.push('// Regenerate with: npx env-guardian-cli generate --target module');
+
+  if (unchecked.length > 0) {
+    lines.push(`// Not checked here, use env-guardian-cli validate: ${unchecked.join(', ')}`);
+  }
+
+  lines.push('');
+  lines.push(generateEnvInterface(schema));
+  lines.push('');
+  lines.push('// ============================================');
+  lines.push('// Helpers');
+  lines.push('// ============================================');
+  lines.push('');
+  lines.push(READER_SOURCE);
+  lines.push('');
+
+  for (const block of generateRuntimeHelpers(needs)) {
+    lines.push(block);
+    lines.push('');
+  }
+
+  lines.push('// ============================================');
+  lines.push('// Env');
+  lines.push('// ============================================');
+  lines.push('');
+  lines.push('/**');
+  lines.push(' * Parse and validate environment variables, applying defaults.');
+  lines.push(' * Throws an EnvValidationError listing every problem.');
+  lines.push(' */');
+  lines.push(
+    `export function parseEnv(${hasAliases ? 'input' : 'source'}: Record<string, string | undefined> = process.env): Env {`
+  );
+  lines.push('  const problems: string[] = [];');
+
+  if (hasAliases) {
+    lines.push('  const source = readAliases(input);');
+  }
+
+  lines.push('  const read = createReader(source, problems);');
+  lines.push('');
+  lines.push('  const env = {');
+
+  for (const [name, spec] of Object.entries(schema.variables)) {
+    lines.push(toEntry(name, spec));
+  }
+
+  lines.push('  };');
+  lines.push('');
+
+  if (checks.length > 0) {
+    lines.push("  const raw = (name: string) => (source[name] === '' ? undefined : source[name]);");
+    lines.push('  const report = (variables: string[], message: string | undefined) => {');
+    lines.push(
+      "    if (message !== undefined) problems.push(`${variables.join(', ')}: ${message}`);"
+    );
+    lines.push('  };');
+    lines.push('');
+    lines.push(...checks.map((line) => `  ${line}`));
+    lines.push('');
+  }
+
+  lines.push('  if (problems.length > 0) {');
+  lines.push('    throw new EnvValidationError(problems);');
+  lines.push('  }');
+  lines.push('');
+  lines.push('  return Object.freeze(env) as Env;');
+  lines.push('}');
+  lines.push('');
+  lines.push('/** The validated environment, parsed once when this module is first imported */');
+  lines.push('export const env: Env = parseEnv();');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Write the env module to file
+ */
+export function writeEnvModuleFile(schema: EnvSchema, outputPath: string): WriteResult {
+  const absolutePath = path.resolve(process.cwd(), outputPath);
+
+  try {
+    return {
+      success: true,
+      path: absolutePath,
+      changed: writeIfChanged(absolutePath, generateEnvModule(schema)),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to write env module: ${error instanceof Error ? error.message : String(error)}`,
+      path: absolutePath,
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { EnvSchema, PatternVariable } from '../types/index.js';
+
+export interface PatternMatch {
+  pattern: string;
+  spec: PatternVariable;
+}
+
+/**
+ * Whether a patternVariables key is a regular expression (`/^TENANT_\d+_URL$/`) rather than a glob
+ */
+export function isRegexPattern(pattern: string): boolean {
+  return pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/');
+}
+
+/**
+ * Compile a glob (`*` matches one or more characters) or `/regex/` key pattern
+ */
+export function compilePattern(pattern: string): RegExp {
+  if (isRegexPattern(pattern)) {
+    return new RegExp(pattern.slice(1, -1));
+  }
+
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.+');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Find the first pattern matching an env key. Keys declared in `variables` never match.
+ */
+export function matchPatternVariable(schema: EnvSchema, key: string): PatternMatch | undefined {
+  if (key in schema.variables) return undefined;
+
+  for (const [pattern, spec] of Object.entries(schema.patternVariables ?? {})) {
+    if (compilePattern(pattern).test(key)) {
+      return { pattern, spec };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * TypeScript key type for a glob pattern (`FEATURE_*` -> `FEATURE_${string}`),
+ * or undefined for regular expressions
+ */
+export function toTemplateLiteral(pattern: string): string | undefined {
+  if (isRegexPattern(pattern)) return undefined;
+
+  const escaped = pattern.split('*').map((part) => part.replace(/[`\\]|\$\{/g, '\\$&'));
+  return `\`${escaped.join('${string}')}\``;
+}
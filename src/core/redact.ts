@@ -0,0 +1,24 @@
+import { Variable } from '../types/index.js';
+
+/**
+ * Placeholder shown instead of sensitive values
+ */
+export const REDACTED = '[REDACTED]';
+
+// Names such as API_TOKEN, DB_PASSWORD, STRIPE_SECRET or SECRET
+const SENSITIVE_NAME = /(?:^|_)(?:SECRET|TOKEN|PASSWORD|API_KEY|PRIVATE_KEY)$/i;
+
+/**
+ * Whether a variable name looks like it holds a secret
+ */
+export function isSensitiveName(name: string): boolean {
+  return SENSITIVE_NAME.test(name);
+}
+
+/**
+ * Value to show in messages and output, redacted for sensitive variables
+ */
+export function displayValue(spec: Pick<Variable, 'sensitive'>, value: unknown): string {
+  if (spec.sensitive) return REDACTED;
+  return Array.isArray(value) ? value.map(String).join(', ') : String(value);
+}
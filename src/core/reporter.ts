@@ -0,0 +1,278 @@
+import * as path from 'path';
+import {
+  EnvLocation,
+  EnvSchema,
+  ParsedValue,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning,
+} from '../types/index.js';
+import { REDACTED } from './redact.js';
+import { matchPatternVariable } from './patterns.js';
+import { ERROR_CODES } from './error-codes.js';
+
+export const REPORT_FORMATS = ['json', 'junit', 'sarif', 'github'] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface ReportContext {
+  schema: EnvSchema;
+  schemaPath?: string;
+  /** Where each variable's value was defined, e.g. from loadEnvCascade */
+  locations?: Record<string, EnvLocation>;
+  /** Base for relative paths in the report (default: process.cwd()) */
+  cwd?: string;
+}
+
+const TOOL_NAME = 'env-guardian-cli';
+
+/**
+ * Render a validation result for machines. Sensitive values are redacted.
+ */
+export function formatReport(
+  format: ReportFormat,
+  result: ValidationResult,
+  context: ReportContext
+): string {
+  switch (format) {
+    case 'json':
+      return formatJson(result, context);
+    case 'junit':
+      return formatJUnit(result, context);
+    case 'sarif':
+      return formatSarif(result, context);
+    case 'github':
+      return formatGitHub(result, context);
+  }
+}
+
+export function isReportFormat(format: string): format is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(format);
+}
+
+// ============================================
+// Formats
+// ============================================
+
+function formatJson(result: ValidationResult, context: ReportContext): string {
+  const report = {
+    valid: result.valid,
+    ...(context.schemaPath && { schemaPath: toReportPath(context.schemaPath, context) }),
+    errors: result.errors.map((error) => {
+      const location = locate(error, context);
+      return location ? { ...error, location } : error;
+    }),
+    warnings: result.warnings,
+    parsed: redactParsed(result.parsed, context.schema),
+    ...(result.groups && {
+      groups: Object.fromEntries(
+        Object.entries(result.groups).map(([pattern, group]) => [
+          pattern,
+          redactParsed(group, context.schema),
+        ])
+      ),
+    }),
+  };
+
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * One test case per variable, failing with each of its errors.
+ * A rule violation fails the test case of every variable it involves.
+ */
+function formatJUnit(result: ValidationResult, context: ReportContext): string {
+  const names = reportedVariables(result, context.schema);
+  const errorsOf = (name: string) =>
+    result.errors.filter((error) => (error.variables ?? [error.variable]).includes(name));
+  const failures = names.filter((name) => errorsOf(name).length > 0).length;
+  const cases = names.map((name) => {
+    const errors = errorsOf(name);
+    const warnings = result.warnings.filter((warning) => warning.variable === name);
+    const location = context.locations?.[name];
+    const file = location ? ` file="${escapeXml(toReportPath(location.file, context))}"` : '';
+    const body = errors.map((error) => {
+      const at = locate(error.variables ? { ...error, variable: name } : error, context);
+      const text = at ? `${error.message}\nat ${at.file}:${at.line}` : error.message;
+      const message = escapeXml(error.message);
+      return `      <failure message="${message}" type="${error.code}">${escapeXml(text)}</failure>`;
+    });
+
+    if (warnings.length > 0) {
+      const text = warnings
+        .map((warning) => `warning: ${warning.message} [${warning.code}]`)
+        .join('\n');
+      body.push(`      <system-out>${escapeXml(text)}</system-out>`);
+    }
+
+    const open = `    <testcase classname="${TOOL_NAME}" name="${escapeXml(name)}"${file}`;
+    return body.length > 0 ? `${open}>\n${body.join('\n')}\n    </testcase>` : `${open} />`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${names.length}" failures="${failures}">`,
+    `  <testsuite name="environment" tests="${names.length}" failures="${failures}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\n');
+}
+
+/**
+ * SARIF 2.1.0 log, with results pointing at the env file line (or the schema for missing values)
+ */
+function formatSarif(result: ValidationResult, context: ReportContext): string {
+  const issues: Array<{ issue: ValidationError | ValidationWarning; level: string }> = [
+    ...result.errors.map((issue) => ({ issue, level: 'error' })),
+    ...result.warnings.map((issue) => ({ issue, level: 'warning' })),
+  ];
+  const ruleIds = [...new Set(issues.map(({ issue }) => issue.code))];
+
+  const results = issues.map(({ issue, level }) => {
+    const location = locate(issue, context);
+    const artifact =
+      location?.file ?? (context.schemaPath && toReportPath(context.schemaPath, context));
+
+    return {
+      ruleId: issue.code,
+      level,
+      message: { text: `${issue.variable}: ${issue.message}` },
+      ...(artifact && {
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: artifact },
+              ...(location && {
+                region: { startLine: location.line, startColumn: location.column },
+              }),
+            },
+          },
+        ],
+      }),
+    };
+  });
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            informationUri: 'https://github.com/Darshan1606/env-guardian-cli',
+            rules: ruleIds.map(toSarifRule),
+          },
+        },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
+
+/**
+ * GitHub Actions workflow commands (`::error file=.env,line=3::...`)
+ */
+function formatGitHub(result: ValidationResult, context: ReportContext): string {
+  const command = (kind: string, issue: ValidationError | ValidationWarning) => {
+    const location = locate(issue, context);
+    const properties: Array<[string, string | number]> = location
+      ? [
+          ['file', location.file],
+          ['line', location.line],
+          ['col', location.column],
+        ]
+      : context.schemaPath
+        ? [['file', toReportPath(context.schemaPath, context)]]
+        : [];
+    properties.push(['title', `${issue.variable} (${issue.code})`]);
+    const list = properties.map(([key, value]) => `${key}=${escapeGitHubProperty(String(value))}`);
+
+    return `::${kind} ${list.join(',')}::${escapeGitHubData(issue.message)}`;
+  };
+
+  return [
+    ...result.errors.map((error) => command('error', error)),
+    ...result.warnings.map((warning) => command('warning', warning)),
+  ].join('\n');
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Declared variables, env keys matched by patternVariables, then any other reported name
+ */
+function reportedVariables(result: ValidationResult, schema: EnvSchema): string[] {
+  const names = [
+    ...Object.keys(schema.variables),
+    ...Object.keys(result.parsed).filter((key) => matchPatternVariable(schema, key)),
+    ...result.errors.flatMap((error) => error.variables ?? [error.variable]),
+  ];
+
+  return [...new Set(names)];
+}
+
+/**
+ * Location of an issue with its file relative to the report base
+ */
+function locate(
+  issue: ValidationError | ValidationWarning,
+  context: ReportContext
+): EnvLocation | undefined {
+  const location =
+    ('location' in issue ? issue.location : undefined) ?? context.locations?.[issue.variable];
+  return location && { ...location, file: toReportPath(location.file, context) };
+}
+
+/**
+ * SARIF rule descriptor for a diagnostic code, from the error code catalog
+ */
+function toSarifRule(code: string) {
+  const info = ERROR_CODES[code];
+  if (!info) return { id: code };
+
+  return {
+    id: code,
+    name: info.name,
+    shortDescription: { text: info.summary },
+    help: { text: info.fix },
+  };
+}
+
+function toReportPath(file: string, context: ReportContext): string {
+  const relative = path.relative(context.cwd ?? process.cwd(), file);
+  return relative.split(path.sep).join('/');
+}
+
+function redactParsed(
+  parsed: Record<string, ParsedValue>,
+  schema: EnvSchema
+): Record<string, ParsedValue> {
+  return Object.fromEntries(
+    Object.entries(parsed).map(([name, value]) => {
+      const spec = schema.variables[name] ?? matchPatternVariable(schema, name)?.spec;
+      return [name, spec?.sensitive ? REDACTED : value];
+    })
+  );
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function escapeGitHubData(text: string): string {
+  return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeGitHubProperty(text: string): string {
+  return escapeGitHubData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
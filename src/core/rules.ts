@@ -0,0 +1,119 @@
+import { Rule, ValidationError } from '../types/index.js';
+import { REDACTED } from './redact.js';
+
+type CompareRule = Extract<Rule, { type: 'compare' }>;
+
+const comparators: Record<CompareRule['operator'], (a: number, b: number) => boolean> = {
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+  '==': (a, b) => a === b,
+  '!=': (a, b) => a !== b,
+};
+
+/**
+ * Evaluate cross-variable rules against the raw env and parsed values
+ */
+export function evaluateRules(
+  rules: Rule[],
+  env: Record<string, string | undefined>,
+  parsed: Record<string, unknown>,
+  sensitive: Set<string> = new Set()
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const rule of rules) {
+    const error =
+      rule.type === 'compare' ? checkCompare(rule, parsed, sensitive) : checkGroup(rule, env);
+
+    if (error) {
+      errors.push(error);
+    }
+  }
+
+  return errors;
+}
+
+function checkCompare(
+  rule: CompareRule,
+  parsed: Record<string, unknown>,
+  sensitive: Set<string>
+): ValidationError | null {
+  const left = parsed[rule.left];
+  const right = typeof rule.right === 'number' ? rule.right : parsed[rule.right];
+
+  // Missing or non-numeric operands are reported by per-variable validation
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    return null;
+  }
+
+  if (comparators[rule.operator](left, right)) {
+    return null;
+  }
+
+  const variables = typeof rule.right === 'string' ? [rule.left, rule.right] : [rule.left];
+  const show = (name: string, value: number) => (sensitive.has(name) ? REDACTED : String(value));
+  const rightLabel =
+    typeof rule.right === 'string' ? `${rule.right} (${show(rule.right, right)})` : String(right);
+
+  return ruleError(
+    variables,
+    rule.message ??
+      `${rule.left} (${show(rule.left, left)}) must be ${rule.operator} ${rightLabel}`,
+    `${rule.left} ${rule.operator} ${String(rule.right)}`
+  );
+}
+
+function checkGroup(
+  rule: Exclude<Rule, CompareRule>,
+  env: Record<string, string | undefined>
+): ValidationError | null {
+  const set = rule.variables.filter((name) => env[name] !== undefined && env[name] !== '');
+  const list = rule.variables.join(', ');
+  const found = set.length > 0 ? set.join(', ') : 'none';
+
+  switch (rule.type) {
+    case 'mutuallyExclusive':
+      return set.length <= 1
+        ? null
+        : ruleError(
+            rule.variables,
+            rule.message ?? `Only one of ${list} may be set (found ${found})`,
+            `at most one of ${list}`
+          );
+
+    case 'oneOf':
+      return set.length === 1
+        ? null
+        : ruleError(
+            rule.variables,
+            rule.message ?? `Exactly one of ${list} must be set (found ${found})`,
+            `exactly one of ${list}`
+          );
+
+    case 'allOrNone': {
+      if (set.length === 0 || set.length === rule.variables.length) {
+        return null;
+      }
+
+      const missing = rule.variables.filter((name) => !set.includes(name)).join(', ');
+      return ruleError(
+        rule.variables,
+        rule.message ?? `${list} must be set together (missing ${missing})`,
+        `all or none of ${list}`
+      );
+    }
+  }
+}
+
+function ruleError(variables: string[], message: string, expected: string): ValidationError {
+  return {
+    variable: variables.join(', '),
+    message,
+    code: 'EG4001',
+    type: 'rule_violation',
+    expected,
+    variables,
+  };
+}
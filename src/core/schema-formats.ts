@@ -0,0 +1,148 @@
+import * as YAML from 'yaml';
+import * as TOML from 'smol-toml';
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export const DATA_EXTENSIONS = ['.json', '.yaml', '.yml', '.toml'];
+
+// `[table.path]` / `[[array.of.tables]]`
+const TOML_TABLE_HEADER = /^(\s*)\[\[?\s*([^\]]+?)\s*\]\]?/;
+
+// `key = ...` / `dotted."key" = ...`
+const TOML_ASSIGNMENT =
+  /^(\s*)((?:[\w-]+|"[^"]*"|'[^']*')(?:\s*\.\s*(?:[\w-]+|"[^"]*"|'[^']*'))*)\s*=/;
+
+/**
+ * Parse a data schema file (JSON, YAML or TOML)
+ */
+export function parseSchemaContent(content: string, ext: string): unknown {
+  switch (ext) {
+    case '.json':
+      return JSON.parse(content) as unknown;
+    case '.yaml':
+    case '.yml':
+      return YAML.parse(content) as unknown;
+    case '.toml':
+      return TOML.parse(content);
+    default:
+      throw new Error(`Unsupported data format: ${ext}`);
+  }
+}
+
+/**
+ * Serialize a schema object for a data format
+ */
+export function stringifySchemaContent(
+  schema: { $schema?: string } & Record<string, unknown>,
+  format: 'json' | 'yaml' | 'toml'
+): string {
+  if (format === 'json') {
+    return JSON.stringify(schema, null, 2);
+  }
+
+  // YAML and TOML point editors at the meta-schema through a comment directive
+  const { $schema, ...rest } = schema;
+
+  if (format === 'yaml') {
+    const directive = $schema ? `# yaml-language-server: $schema=${$schema}\n\n` : '';
+    return `${directive}${YAML.stringify(rest)}`;
+  }
+
+  const directive = $schema ? `#:schema ${$schema}\n\n` : '';
+  return `${directive}${TOML.stringify(rest)}\n`;
+}
+
+/**
+ * Find the line/column of a schema path in the source file.
+ * Falls back to the closest ancestor that exists (e.g. for missing keys).
+ */
+export function locateSchemaPath(
+  content: string,
+  ext: string,
+  schemaPath: Array<string | number>
+): SourcePosition | undefined {
+  switch (ext) {
+    case '.json':
+    case '.yaml':
+    case '.yml':
+      // YAML is a superset of JSON, so one locator covers both
+      return locateInYaml(content, schemaPath);
+    case '.toml':
+      return locateInToml(content, schemaPath);
+    default:
+      return undefined;
+  }
+}
+
+function locateInYaml(
+  content: string,
+  schemaPath: Array<string | number>
+): SourcePosition | undefined {
+  const lineCounter = new YAML.LineCounter();
+  const doc = YAML.parseDocument(content, { lineCounter });
+
+  for (let depth = schemaPath.length; depth >= 0; depth--) {
+    const node = depth === 0 ? doc.contents : doc.getIn(schemaPath.slice(0, depth), true);
+
+    if (YAML.isNode(node) && node.range) {
+      const { line, col } = lineCounter.linePos(node.range[0]);
+      return { line, column: col };
+    }
+  }
+
+  return undefined;
+}
+
+function locateInToml(
+  content: string,
+  schemaPath: Array<string | number>
+): SourcePosition | undefined {
+  const target = schemaPath.map(String);
+  const lines = content.split(/\r?\n/);
+  let table: string[] = [];
+  let best: { depth: number; position: SourcePosition } | undefined;
+
+  const consider = (keyPath: string[], line: number, column: number) => {
+    const depth = matchingPrefixLength(keyPath, target);
+
+    if (depth === keyPath.length && depth > (best?.depth ?? 0)) {
+      best = { depth, position: { line, column } };
+    }
+  };
+
+  lines.forEach((text, index) => {
+    const header = TOML_TABLE_HEADER.exec(text);
+
+    if (header) {
+      table = splitTomlKey(header[2]);
+      consider(table, index + 1, header[1].length + 1);
+      return;
+    }
+
+    const assignment = TOML_ASSIGNMENT.exec(text);
+
+    if (assignment) {
+      consider([...table, ...splitTomlKey(assignment[2])], index + 1, assignment[1].length + 1);
+    }
+  });
+
+  return best?.position;
+}
+
+function splitTomlKey(key: string): string[] {
+  const parts = key.match(/"[^"]*"|'[^']*'|[^.\s]+/g) ?? [];
+  return parts.map((part) => part.replace(/^["']|["']$/g, ''));
+}
+
+function matchingPrefixLength(a: string[], b: string[]): number {
+  let length = 0;
+
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+
+  return length;
+}
@@ -0,0 +1,296 @@
+import {
+  EnvSchema,
+  JsonSchema,
+  LintSeverity,
+  SchemaLintIssue,
+  SchemaLintResult,
+  Variable,
+} from '../types/index.js';
+import { isKnownFormat, validate } from './validator.js';
+import { isSensitiveName } from './redact.js';
+import { parseUnitValue } from './units.js';
+import { resolveEnvironment } from './schema.js';
+
+type Report = (message: string) => void;
+
+interface LintRule {
+  /** Stable diagnostic code */
+  code: string;
+  /** Severity when the config does not set one */
+  severity: LintSeverity;
+  description: string;
+  check: (name: string, spec: Variable, report: Report, context: { pattern: boolean }) => void;
+}
+
+// ============================================
+// Rules
+// ============================================
+
+/**
+ * Built-in lint rules. Correctness rules are on by default, team policies are opt-in.
+ */
+export const LINT_RULES: Record<string, LintRule> = {
+  'invalid-regex': {
+    code: 'EG7001',
+    severity: 'error',
+    description:
+      'pattern, items.pattern, regex: formats and jsonSchema patterns must be valid regular expressions',
+    check: (_name, spec, report) => {
+      const patterns = [
+        ['pattern', spec.pattern],
+        ['items.pattern', spec.items?.pattern],
+        ['format', spec.format?.startsWith('regex:') ? spec.format.slice(6) : undefined],
+        ...(spec.jsonSchema ? collectJsonSchemaPatterns(spec.jsonSchema, 'jsonSchema') : []),
+      ];
+
+      for (const [option, pattern] of patterns) {
+        if (pattern === undefined) continue;
+        try {
+          new RegExp(pattern);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          report(`${option} is not a valid regular expression: ${reason}`);
+        }
+      }
+    },
+  },
+
+  'unknown-format': {
+    code: 'EG7002',
+    severity: 'error',
+    description: 'format and items.format must be a built-in format or regex:',
+    check: (_name, spec, report) => {
+      for (const [option, format] of [
+        ['format', spec.format],
+        ['items.format', spec.items?.format],
+      ]) {
+        if (format !== undefined && !isKnownFormat(format)) {
+          report(`Unknown ${option} "${format}"`);
+        }
+      }
+    },
+  },
+
+  'invalid-default': {
+    code: 'EG7003',
+    severity: 'error',
+    description: 'default must pass the type, enum, format and range checks of its variable',
+    check: checkDefault,
+  },
+
+  'invalid-range': {
+    code: 'EG7004',
+    severity: 'error',
+    description: 'min/max, minLength/maxLength and minItems/maxItems must form a valid range',
+    check: checkRanges,
+  },
+
+  'redundant-optional': {
+    code: 'EG7005',
+    severity: 'warning',
+    description: 'required: false has no effect when a default is set',
+    check: (_name, spec, report) => {
+      if (spec.required === false && spec.default !== undefined) {
+        report('Has a default, so "required": false has no effect');
+      }
+    },
+  },
+
+  'require-description': {
+    code: 'EG7006',
+    severity: 'off',
+    description: 'Every variable needs a description',
+    check: (_name, spec, report) => {
+      if (!spec.description?.trim()) {
+        report('Missing description');
+      }
+    },
+  },
+
+  'no-secret-defaults': {
+    code: 'EG7007',
+    severity: 'off',
+    description: 'Sensitive variables must not have defaults',
+    check: (name, spec, report) => {
+      if ((spec.sensitive || isSensitiveName(name)) && spec.default !== undefined) {
+        report('Secrets must not have a default value');
+      }
+    },
+  },
+
+  'sensitive-names': {
+    code: 'EG7008',
+    severity: 'off',
+    description: 'Names like *_SECRET, *_TOKEN or *_PASSWORD must be marked sensitive',
+    check: (name, spec, report, { pattern }) => {
+      if (!pattern && isSensitiveName(name) && !spec.sensitive) {
+        report('Looks like a secret but is not marked "sensitive": true');
+      }
+    },
+  },
+
+  'naming-convention': {
+    code: 'EG7009',
+    severity: 'off',
+    description: 'Variable names must be UPPER_SNAKE_CASE',
+    check: (name, _spec, report, { pattern }) => {
+      if (!pattern && !/^[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$/.test(name)) {
+        report('Name is not UPPER_SNAKE_CASE');
+      }
+    },
+  },
+};
+
+/**
+ * Every `pattern` in a JSON Schema with its option path, e.g. "jsonSchema.properties.host.pattern"
+ */
+function collectJsonSchemaPatterns(schema: JsonSchema, option: string): Array<[string, string]> {
+  const patterns: Array<[string, string]> = [];
+
+  if (schema.pattern !== undefined) patterns.push([`${option}.pattern`, schema.pattern]);
+
+  for (const [key, child] of Object.entries(schema.properties ?? {})) {
+    patterns.push(...collectJsonSchemaPatterns(child, `${option}.properties.${key}`));
+  }
+
+  if (typeof schema.additionalProperties === 'object') {
+    patterns.push(
+      ...collectJsonSchemaPatterns(schema.additionalProperties, `${option}.additionalProperties`)
+    );
+  }
+
+  if (schema.items) patterns.push(...collectJsonSchemaPatterns(schema.items, `${option}.items`));
+
+  (schema.anyOf ?? []).forEach((child, index) => {
+    patterns.push(...collectJsonSchemaPatterns(child, `${option}.anyOf.${index}`));
+  });
+
+  return patterns;
+}
+
+function checkDefault(name: string, spec: Variable, report: Report): void {
+  if (spec.default === undefined) return;
+
+  const raw = Array.isArray(spec.default)
+    ? spec.default.join(spec.separator ?? ',')
+    : String(spec.default);
+
+  // Validate the default as if it were the only value, without requirement or deprecation logic
+  const result = validate(
+    {
+      variables: {
+        [name]: {
+          ...spec,
+          required: true,
+          default: undefined,
+          requiredIf: undefined,
+          requiredUnless: undefined,
+          deprecated: undefined,
+        },
+      },
+    },
+    { [name]: raw }
+  );
+
+  for (const error of result.errors) {
+    report(`Default is invalid: ${error.message}`);
+  }
+}
+
+function checkRanges(_name: string, spec: Variable, report: Report): void {
+  const isUnitType = spec.type === 'duration' || spec.type === 'bytes';
+  const bound = (option: 'min' | 'max'): number | undefined => {
+    const value = spec[option];
+    // Other types ignore min/max
+    if (value === undefined || (spec.type !== 'number' && !isUnitType)) return undefined;
+
+    const resolved = isUnitType
+      ? parseUnitValue(value, spec.type as 'duration' | 'bytes')
+      : typeof value === 'number'
+        ? value
+        : undefined;
+
+    if (resolved === undefined) {
+      report(`${option} "${value}" is not a valid ${spec.type}`);
+    }
+    return resolved;
+  };
+
+  const pairs: Array<[string, number | undefined, number | undefined]> = [
+    ['min/max', bound('min'), bound('max')],
+    ['minLength/maxLength', spec.minLength, spec.maxLength],
+    ['minItems/maxItems', spec.minItems, spec.maxItems],
+  ];
+
+  for (const [options, low, high] of pairs) {
+    if (low !== undefined && high !== undefined && low > high) {
+      report(`${options} is empty: ${low} > ${high}`);
+    }
+  }
+}
+
+// ============================================
+// Linting
+// ============================================
+
+/**
+ * Check a schema for mistakes and team policy violations.
+ * `rules` overrides rule severities, e.g. { "require-description": "error" }.
+ */
+export function lintSchema(
+  schema: EnvSchema,
+  options: { rules?: Record<string, LintSeverity> } = {}
+): SchemaLintResult {
+  const issues: SchemaLintIssue[] = [];
+  const entries = [
+    ...Object.entries(schema.variables).map(([name, spec]) => ({ name, spec, pattern: false })),
+    ...Object.entries(schema.patternVariables ?? {}).map(([name, spec]) => ({
+      name,
+      spec,
+      pattern: true,
+    })),
+  ];
+
+  const lint = (name: string, spec: Variable, pattern: boolean, environment?: string) => {
+    for (const [id, rule] of Object.entries(LINT_RULES)) {
+      const severity = options.rules?.[id] ?? rule.severity;
+      if (severity === 'off') continue;
+
+      const report: Report = (message) => {
+        // Overrides only report what they add on top of the base variable
+        const reported = issues.some(
+          (issue) => issue.rule === id && issue.variable === name && issue.message === message
+        );
+        if (environment !== undefined && reported) return;
+
+        issues.push({
+          rule: id,
+          code: rule.code,
+          severity,
+          message: environment === undefined ? message : `In ${environment}: ${message}`,
+          variable: name,
+        });
+      };
+
+      rule.check(name, spec, report, { pattern });
+    }
+  };
+
+  for (const { name, spec, pattern } of entries) {
+    lint(name, spec, pattern);
+  }
+
+  // Each variable an environment overrides is linted as it is resolved in that environment
+  for (const [environment, overrides] of Object.entries(schema.environments ?? {})) {
+    const resolved = resolveEnvironment(schema, environment).variables;
+
+    for (const name of Object.keys(overrides)) {
+      if (resolved[name]) lint(name, resolved[name], false, environment);
+    }
+  }
+
+  return {
+    valid: !issues.some((issue) => issue.severity === 'error'),
+    issues,
+  };
+}
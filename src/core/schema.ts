@@ -1,14 +1,78 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { EnvSchema, EnvSchemaDefinition, DEFAULT_SCHEMA_PATHS } from '../types/index.js';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import {
+  EnvSchema,
+  EnvSchemaDefinition,
+  EnvSchemaInput,
+  DEFAULT_SCHEMA_PATHS,
+  SCHEMA_URL,
+  VariableOverride,
+  VariableType,
+} from '../types/index.js';
+import {
+  DATA_EXTENSIONS,
+  locateSchemaPath,
+  parseSchemaContent,
+  stringifySchemaContent,
+} from './schema-formats.js';
+import { parseUnitValue } from './units.js';
 
 export interface LoadSchemaResult {
   success: boolean;
   schema?: EnvSchema;
   error?: string;
+  /** Diagnostic code of the error, e.g. "EG6003" */
+  code?: string;
   path: string;
+  /** File that first declared each variable, after resolving `extends` */
+  sources?: Record<string, string>;
+  /** Every file of the resolved `extends` chain, the schema itself last */
+  files?: string[];
+  /** Structure errors with their position in the source file, when known */
+  issues?: SchemaIssue[];
 }
 
+export interface SchemaIssue {
+  path: Array<string | number>;
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+type RawRecord = Record<string, unknown>;
+
+interface ResolvedSchemaSource {
+  raw: RawRecord;
+  sources: Record<string, string>;
+  origins: SchemaOrigins;
+  files: string[];
+}
+
+// Last file that defined each variable and each of its fields, per section
+type SchemaOrigins = Record<string, Record<string, VariableOrigin>>;
+
+interface VariableOrigin {
+  file: string;
+  fields: Record<string, string>;
+}
+
+const ORIGIN_SECTIONS = ['variables', 'patternVariables'];
+
+const MODULE_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.mts', '.cts'];
+
+const SUPPORTED_SCHEMA_EXTENSIONS = [
+  ...DATA_EXTENSIONS,
+  ...MODULE_EXTENSIONS,
+  ...TYPESCRIPT_EXTENSIONS,
+];
+
+const UNSUPPORTED_FORMAT_HINT = 'Use .json, .yaml, .yml, .toml, .js, .mjs, .cjs or .ts';
+
 /**
  * Find schema file in project
  */
@@ -32,51 +96,107 @@ export function findSchemaFile(customPath?: string): string | null {
 }
 
 /**
- * Load and parse schema file
+ * Identity helper that gives schema modules editor autocomplete
+ *
+ * @example
+ * ```typescript
+ * // env.schema.ts
+ * import { defineSchema } from 'env-guardian-cli';
+ *
+ * export default defineSchema({
+ *   variables: {
+ *     PORT: { type: 'number', default: 3000 },
+ *   },
+ * });
+ * ```
+ */
+export function defineSchema<T extends EnvSchemaInput>(schema: T): T {
+  return schema;
+}
+
+/**
+ * Load and parse schema file, resolving any `extends` chain.
+ * JavaScript and TypeScript schemas need `loadSchemaAsync`.
  */
 export function loadSchema(schemaPath: string): LoadSchemaResult {
   const absolutePath = path.resolve(process.cwd(), schemaPath);
+  return checkSchemaFile(absolutePath) ?? parseSchemaFile(absolutePath, readSchemaSource);
+}
+
+/**
+ * Load and parse schema file of any supported format, including JavaScript and TypeScript modules
+ */
+export async function loadSchemaAsync(schemaPath: string): Promise<LoadSchemaResult> {
+  const absolutePath = path.resolve(process.cwd(), schemaPath);
+  const invalid = checkSchemaFile(absolutePath);
+
+  if (invalid) {
+    return invalid;
+  }
+
+  // Modules are imported up front, then the chain resolves like a data-only one
+  const loaded = new Map<string, unknown>();
 
+  try {
+    await preloadSchemaSources(absolutePath, loaded);
+  } catch (error) {
+    return loadFailure(absolutePath, error);
+  }
+
+  return parseSchemaFile(absolutePath, (file) =>
+    loaded.has(file) ? loaded.get(file) : readSchemaSource(file)
+  );
+}
+
+function checkSchemaFile(absolutePath: string): LoadSchemaResult | undefined {
   if (!fs.existsSync(absolutePath)) {
     return {
       success: false,
       error: `Schema file not found: ${absolutePath}`,
+      code: 'EG6001',
       path: absolutePath,
     };
   }
 
+  const ext = path.extname(absolutePath).toLowerCase();
+
+  if (!SUPPORTED_SCHEMA_EXTENSIONS.includes(ext)) {
+    return {
+      success: false,
+      error: `Unsupported schema file format: ${ext}. ${UNSUPPORTED_FORMAT_HINT}`,
+      code: 'EG6002',
+      path: absolutePath,
+    };
+  }
+
+  return undefined;
+}
+
+function parseSchemaFile(
+  absolutePath: string,
+  read: (absolutePath: string) => unknown
+): LoadSchemaResult {
   try {
-    const content = fs.readFileSync(absolutePath, 'utf-8');
-    const ext = path.extname(absolutePath).toLowerCase();
-
-    let rawSchema: unknown;
-
-    if (ext === '.json') {
-      rawSchema = JSON.parse(content);
-    } else if (ext === '.js') {
-      // For .js files, we need to evaluate them
-      // This is a simple approach - in production you might want to use require()
-      const moduleContent = content.replace(/module\.exports\s*=\s*/, '');
-      rawSchema = JSON.parse(moduleContent);
-    } else {
-      return {
-        success: false,
-        error: `Unsupported schema file format: ${ext}. Use .json or .js`,
-        path: absolutePath,
-      };
-    }
+    const { raw, sources, origins, files } = resolveSchemaSource(absolutePath, [], read);
 
-    // Validate schema structure
-    const parseResult = EnvSchemaDefinition.safeParse(rawSchema);
+    // Validate schema structure, then the bounds that depend on each variable's type
+    const parseResult = EnvSchemaDefinition.safeParse(raw);
+    const problems = parseResult.success
+      ? findInvalidBounds(parseResult.data)
+      : parseResult.error.errors;
 
-    if (!parseResult.success) {
-      const errors = parseResult.error.errors
-        .map((e) => `${e.path.join('.')}: ${e.message}`)
-        .join(', ');
+    if (!parseResult.success || problems.length > 0) {
+      const issues = problems.map((e) =>
+        locateSchemaIssue(e.path, e.message, absolutePath, origins)
+      );
+      const errors = issues.map(formatSchemaIssue).join(', ');
       return {
         success: false,
         error: `Invalid schema structure: ${errors}`,
+        code: 'EG6003',
         path: absolutePath,
+        issues,
+        files,
       };
     }
 
@@ -84,14 +204,424 @@ export function loadSchema(schemaPath: string): LoadSchemaResult {
       success: true,
       schema: parseResult.data,
       path: absolutePath,
+      sources,
+      files,
     };
   } catch (error) {
-    return {
-      success: false,
-      error: `Failed to parse schema: ${error instanceof Error ? error.message : String(error)}`,
-      path: absolutePath,
-    };
+    return loadFailure(absolutePath, error);
+  }
+}
+
+/**
+ * min/max bounds that do not fit the variable type: numbers need a number, durations and
+ * sizes a parsable value. Other types ignore bounds. Overrides are checked against the type
+ * the variable has in that environment.
+ */
+function findInvalidBounds(schema: EnvSchema): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  const check = (spec: VariableOverride, type: VariableType, issuePath: string[]) => {
+    for (const kind of ['min', 'max'] as const) {
+      const bound = spec[kind];
+
+      if (bound !== undefined && !isValidBound(bound, type)) {
+        issues.push({
+          path: [...issuePath, kind],
+          message: `Invalid ${kind} "${bound}" for type ${type}`,
+        });
+      }
+    }
+  };
+
+  for (const [name, spec] of Object.entries(schema.variables)) {
+    check(spec, spec.type, ['variables', name]);
+  }
+
+  for (const [pattern, spec] of Object.entries(schema.patternVariables ?? {})) {
+    check(spec, spec.type, ['patternVariables', pattern]);
+  }
+
+  for (const [environment, overrides] of Object.entries(schema.environments ?? {})) {
+    for (const [name, override] of Object.entries(overrides)) {
+      const base = schema.variables[name];
+      if (base) check(override, override.type ?? base.type, ['environments', environment, name]);
+    }
   }
+
+  return issues;
+}
+
+function isValidBound(bound: number | string, type: VariableType): boolean {
+  if (type === 'duration' || type === 'bytes') return parseUnitValue(bound, type) !== undefined;
+  if (type === 'number') return typeof bound === 'number';
+  return true;
+}
+
+function loadFailure(absolutePath: string, error: unknown): LoadSchemaResult {
+  return {
+    success: false,
+    error: `Failed to parse schema: ${error instanceof Error ? error.message : String(error)}`,
+    code: 'EG6004',
+    path: absolutePath,
+  };
+}
+
+/**
+ * Read a single data schema file without validating it
+ */
+function readSchemaSource(absolutePath: string): unknown {
+  const ext = path.extname(absolutePath).toLowerCase();
+
+  if (DATA_EXTENSIONS.includes(ext)) {
+    return parseSchemaContent(fs.readFileSync(absolutePath, 'utf-8'), ext);
+  }
+
+  if (MODULE_EXTENSIONS.includes(ext) || TYPESCRIPT_EXTENSIONS.includes(ext)) {
+    throw new Error(
+      `${displayPath(absolutePath)} is a module; load it with loadSchemaAsync(), validateEnvAsync() or guardEnvAsync()`
+    );
+  }
+
+  throw new Error(`Unsupported schema file format: ${ext}. ${UNSUPPORTED_FORMAT_HINT}`);
+}
+
+/**
+ * Read a single schema file of any format without validating it
+ */
+async function readSchemaSourceAsync(absolutePath: string): Promise<unknown> {
+  const ext = path.extname(absolutePath).toLowerCase();
+
+  if (MODULE_EXTENSIONS.includes(ext) && !isEsmFile(absolutePath)) {
+    // Node caches CommonJS by filename, so drop the entry for `--watch` to see edits
+    const requireSchema = createRequire(absolutePath);
+    delete requireSchema.cache[absolutePath];
+    return unwrapDefaultExport(requireSchema(absolutePath));
+  }
+
+  if (MODULE_EXTENSIONS.includes(ext)) {
+    // The modification time busts the import cache, so `--watch` sees edits
+    const url = pathToFileURL(absolutePath);
+    url.searchParams.set('mtime', String(fs.statSync(absolutePath).mtimeMs));
+    const mod: unknown = await import(url.href);
+    return unwrapDefaultExport(mod);
+  }
+
+  if (TYPESCRIPT_EXTENSIONS.includes(ext)) {
+    return unwrapDefaultExport(await importTypeScript(absolutePath));
+  }
+
+  return readSchemaSource(absolutePath);
+}
+
+/**
+ * Read every file of an `extends` chain. Invalid entries and cycles are left for
+ * resolveSchemaSource to report.
+ */
+async function preloadSchemaSources(
+  absolutePath: string,
+  loaded: Map<string, unknown>
+): Promise<void> {
+  if (loaded.has(absolutePath)) return;
+
+  const raw = await readSchemaSourceAsync(absolutePath);
+  loaded.set(absolutePath, raw);
+
+  for (const specifier of isRecord(raw) ? toExtendsList(raw.extends) : []) {
+    if (typeof specifier === 'string') {
+      await preloadSchemaSources(resolveExtendsPath(specifier, absolutePath), loaded);
+    }
+  }
+}
+
+function toExtendsList(parents: unknown): unknown[] {
+  return parents === undefined ? [] : Array.isArray(parents) ? parents : [parents];
+}
+
+/**
+ * Import a TypeScript schema through tsx, which is an optional peer dependency
+ */
+async function importTypeScript(absolutePath: string): Promise<unknown> {
+  let tsImport: (specifier: string, parentURL: string) => Promise<unknown>;
+
+  try {
+    ({ tsImport } = await import('tsx/esm/api'));
+  } catch {
+    throw new Error('Loading TypeScript schemas requires "tsx". Install it with: npm i -D tsx');
+  }
+
+  const url = pathToFileURL(absolutePath).href;
+  return tsImport(url, url);
+}
+
+/**
+ * Take the default export, including CommonJS-transpiled `exports.default`
+ */
+function unwrapDefaultExport(mod: unknown): unknown {
+  let value = mod;
+
+  while (isRecord(value) && 'default' in value) {
+    value = value.default;
+  }
+
+  return value;
+}
+
+/**
+ * Attach the source file and line/column to a schema structure error
+ */
+function locateSchemaIssue(
+  issuePath: Array<string | number>,
+  message: string,
+  rootPath: string,
+  origins: SchemaOrigins
+): SchemaIssue {
+  // Variable errors point at the file that last set the failing field, which may be extended
+  const [section, name, field] = issuePath;
+  const origin =
+    typeof section === 'string' && typeof name === 'string' ? origins[section]?.[name] : undefined;
+  const file = (typeof field === 'string' && origin?.fields[field]) || origin?.file || rootPath;
+  const ext = path.extname(file).toLowerCase();
+
+  if (!DATA_EXTENSIONS.includes(ext)) {
+    return { path: issuePath, message, file };
+  }
+
+  try {
+    const position = locateSchemaPath(fs.readFileSync(file, 'utf-8'), ext, issuePath);
+    return { path: issuePath, message, file, ...position };
+  } catch {
+    return { path: issuePath, message, file };
+  }
+}
+
+function formatSchemaIssue(issue: SchemaIssue): string {
+  const location =
+    issue.file && issue.line !== undefined
+      ? `${displayPath(issue.file)}:${issue.line}:${issue.column ?? 1} `
+      : '';
+  return `${location}${issue.path.join('.')}: ${issue.message}`;
+}
+
+/**
+ * Read a schema file and merge everything it extends, parents first
+ */
+function resolveSchemaSource(
+  absolutePath: string,
+  chain: string[],
+  read: (absolutePath: string) => unknown
+): ResolvedSchemaSource {
+  if (chain.includes(absolutePath)) {
+    const cycle = [...chain.slice(chain.indexOf(absolutePath)), absolutePath];
+    throw new Error(`Circular extends: ${cycle.map(displayPath).join(' -> ')}`);
+  }
+
+  const raw = read(absolutePath);
+
+  if (!isRecord(raw)) {
+    throw new Error(`Schema in ${displayPath(absolutePath)} must be an object`);
+  }
+
+  const { extends: parents, ...own } = raw;
+  const specifiers = toExtendsList(parents);
+
+  let merged: RawRecord = {};
+  const sources: Record<string, string> = {};
+  const origins: SchemaOrigins = {};
+  const files: string[] = [];
+
+  for (const specifier of specifiers) {
+    if (typeof specifier !== 'string') {
+      throw new Error(`Invalid "extends" entry in ${displayPath(absolutePath)}: expected a string`);
+    }
+
+    const parentPath = resolveExtendsPath(specifier, absolutePath);
+    const parent = resolveSchemaSource(parentPath, [...chain, absolutePath], read);
+
+    merged = mergeSchemaSources(merged, parent.raw);
+
+    for (const [name, file] of Object.entries(parent.sources)) {
+      sources[name] ??= file;
+    }
+
+    mergeOrigins(origins, parent.origins);
+    files.push(...parent.files.filter((file) => !files.includes(file)));
+  }
+
+  merged = mergeSchemaSources(merged, own);
+
+  if (isRecord(own.variables)) {
+    for (const name of Object.keys(own.variables)) {
+      sources[name] ??= absolutePath;
+    }
+  }
+
+  mergeOrigins(origins, collectOrigins(own, absolutePath));
+
+  return { raw: merged, sources, origins, files: [...files, absolutePath] };
+}
+
+/**
+ * Origins of the variables and fields a single schema file defines
+ */
+function collectOrigins(raw: RawRecord, file: string): SchemaOrigins {
+  const origins: SchemaOrigins = {};
+
+  for (const section of ORIGIN_SECTIONS) {
+    const variables = raw[section];
+    if (!isRecord(variables)) continue;
+
+    origins[section] = {};
+
+    for (const [name, spec] of Object.entries(variables)) {
+      const fields = isRecord(spec) ? Object.keys(spec) : [];
+      origins[section][name] = {
+        file,
+        fields: Object.fromEntries(fields.map((field) => [field, file])),
+      };
+    }
+  }
+
+  return origins;
+}
+
+/**
+ * Layer origins of a later file over earlier ones
+ */
+function mergeOrigins(target: SchemaOrigins, source: SchemaOrigins): void {
+  for (const [section, variables] of Object.entries(source)) {
+    const targetSection = (target[section] ??= {});
+
+    for (const [name, origin] of Object.entries(variables)) {
+      const existing = targetSection[name];
+      targetSection[name] = {
+        file: origin.file,
+        fields: { ...existing?.fields, ...origin.fields },
+      };
+    }
+  }
+}
+
+/**
+ * Resolve an `extends` entry to a file: relative/absolute paths or npm package specifiers
+ */
+function resolveExtendsPath(specifier: string, fromFile: string): string {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    const absolutePath = path.resolve(path.dirname(fromFile), specifier);
+
+    if (!fs.existsSync(absolutePath)) {
+      throw new Error(`Extended schema not found: ${specifier} (from ${displayPath(fromFile)})`);
+    }
+
+    return absolutePath;
+  }
+
+  // Packages may ship a schema at a default location, or point straight at one
+  const requireFrom = createRequire(fromFile);
+  const candidates = [...DEFAULT_SCHEMA_PATHS.map((p) => `${specifier}/${p}`), specifier];
+
+  for (const candidate of candidates) {
+    try {
+      return requireFrom.resolve(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  throw new Error(`Cannot resolve extended schema "${specifier}" from ${displayPath(fromFile)}`);
+}
+
+/**
+ * Deep-merge two raw schemas: variables and environment overrides merge per field,
+ * rules of both files apply
+ */
+function mergeSchemaSources(base: RawRecord, override: RawRecord): RawRecord {
+  const merged: RawRecord = { ...base, ...override };
+
+  if (base.variables !== undefined || override.variables !== undefined) {
+    merged.variables = mergeVariableMaps(base.variables, override.variables);
+  }
+
+  if (base.patternVariables !== undefined || override.patternVariables !== undefined) {
+    merged.patternVariables = mergeVariableMaps(base.patternVariables, override.patternVariables);
+  }
+
+  if (base.environments !== undefined || override.environments !== undefined) {
+    const baseEnvironments = isRecord(base.environments) ? base.environments : {};
+    const overrideEnvironments = isRecord(override.environments) ? override.environments : {};
+    const environments: RawRecord = { ...baseEnvironments };
+
+    for (const [name, overrides] of Object.entries(overrideEnvironments)) {
+      environments[name] = mergeVariableMaps(baseEnvironments[name], overrides);
+    }
+
+    merged.environments = environments;
+  }
+
+  if (Array.isArray(base.rules) && Array.isArray(override.rules)) {
+    merged.rules = [...(base.rules as unknown[]), ...(override.rules as unknown[])];
+  }
+
+  return merged;
+}
+
+function mergeVariableMaps(base: unknown, override: unknown): unknown {
+  if (!isRecord(base) || !isRecord(override)) {
+    return override ?? base;
+  }
+
+  const merged: RawRecord = { ...base };
+
+  for (const [name, spec] of Object.entries(override)) {
+    const baseSpec = merged[name];
+    merged[name] = isRecord(baseSpec) && isRecord(spec) ? { ...baseSpec, ...spec } : spec;
+  }
+
+  return merged;
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function displayPath(absolutePath: string): string {
+  return path.relative(process.cwd(), absolutePath) || absolutePath;
+}
+
+/**
+ * Pick the environment name to apply: explicit flag first, then NODE_ENV
+ */
+export function resolveEnvironmentName(
+  explicit?: string,
+  env: Record<string, string | undefined> = process.env
+): string | undefined {
+  return explicit || env.NODE_ENV || undefined;
+}
+
+/**
+ * Apply the overrides of one environment on top of the base variables
+ */
+export function resolveEnvironment(schema: EnvSchema, environment?: string): EnvSchema {
+  const overrides = environment ? schema.environments?.[environment] : undefined;
+
+  if (!overrides) {
+    return schema;
+  }
+
+  const variables: EnvSchema['variables'] = {};
+
+  for (const [name, spec] of Object.entries(schema.variables)) {
+    const override = overrides[name];
+    variables[name] = override ? { ...spec, ...stripUndefined(override) } : spec;
+  }
+
+  return {
+    ...schema,
+    variables,
+  };
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
 }
 
 /**
@@ -100,22 +630,37 @@ export function loadSchema(schemaPath: string): LoadSchemaResult {
 export function createSchemaFile(
   outputPath: string,
   variables: Record<string, unknown>,
-  format: 'json' | 'js' = 'json'
+  format: 'json' | 'yaml' | 'toml' | 'js' | 'ts' = 'json'
 ): { success: boolean; error?: string; path: string } {
   const absolutePath = path.resolve(process.cwd(), outputPath);
 
   const schema = {
-    $schema: 'https://env-guardian-cli.dev/schema.json',
+    $schema: SCHEMA_URL,
     variables,
   };
 
   try {
     let content: string;
 
-    if (format === 'json') {
-      content = JSON.stringify(schema, null, 2);
+    if (format === 'json' || format === 'yaml' || format === 'toml') {
+      content = stringifySchemaContent(schema, format);
+    } else if (format === 'ts') {
+      content = [
+        "import { defineSchema } from 'env-guardian-cli';",
+        '',
+        `export default defineSchema(${toModuleLiteral({ variables })});`,
+        '',
+      ].join('\n');
     } else {
-      content = `module.exports = ${JSON.stringify(schema, null, 2)};`;
+      // Modules get typed through JSDoc so they do not need the package at runtime
+      const exportStatement = isEsmFile(absolutePath) ? 'export default' : 'module.exports =';
+      content = [
+        '// @ts-check',
+        '',
+        "/** @type {import('env-guardian-cli').EnvSchemaInput} */",
+        `${exportStatement} ${toModuleLiteral({ variables })};`,
+        '',
+      ].join('\n');
     }
 
     // Ensure directory exists
@@ -139,6 +684,73 @@ export function createSchemaFile(
   }
 }
 
+/**
+ * Whether a .js file is treated as an ES module by Node
+ */
+function isEsmFile(absolutePath: string): boolean {
+  const ext = path.extname(absolutePath).toLowerCase();
+
+  if (ext === '.mjs') return true;
+  if (ext === '.cjs') return false;
+
+  let dir = path.dirname(absolutePath);
+
+  while (!fs.existsSync(path.join(dir, 'package.json'))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) return false;
+    dir = parent;
+  }
+
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(dir, 'package.json'), 'utf-8')
+    ) as unknown;
+    return isRecord(packageJson) && packageJson.type === 'module';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Serialize plain data as a JavaScript object literal (unquoted keys, single quotes)
+ */
+function toModuleLiteral(value: unknown, indent = ''): string {
+  const nextIndent = `${indent}  `;
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => toModuleLiteral(item, nextIndent));
+    const inline = `[${items.join(', ')}]`;
+
+    if (inline.length <= 60 && !inline.includes('\n')) {
+      return inline;
+    }
+
+    return `[\n${items.map((item) => `${nextIndent}${item},`).join('\n')}\n${indent}]`;
+  }
+
+  if (isRecord(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+
+    if (entries.length === 0) {
+      return '{}';
+    }
+
+    const lines = entries.map(([key, v]) => {
+      const formattedKey = /^[A-Za-z_$][\w$]*$/.test(key) ? key : toModuleLiteral(key);
+      return `${nextIndent}${formattedKey}: ${toModuleLiteral(v, nextIndent)},`;
+    });
+
+    return `{\n${lines.join('\n')}\n${indent}}`;
+  }
+
+  if (typeof value === 'string') {
+    const escaped = value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n');
+    return `'${escaped}'`;
+  }
+
+  return String(value);
+}
+
 /**
  * Get default/template schema
  */
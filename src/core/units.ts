@@ -0,0 +1,94 @@
+// ============================================
+// Unit Tables
+// ============================================
+
+// Milliseconds per duration unit
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Bytes per size unit: decimal (KB = 1000) and binary (KiB = 1024)
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1000,
+  mb: 1000 ** 2,
+  gb: 1000 ** 3,
+  tb: 1000 ** 4,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+  tib: 1024 ** 4,
+};
+
+// One `<number><unit>` segment, e.g. `1.5h` or `10 MB`
+const UNIT_SEGMENT = /(\d+(?:\.\d+)?|\.\d+)\s*([a-z]+)/gy;
+
+export type UnitType = 'duration' | 'bytes';
+
+/**
+ * Unit of the parsed value for each unit type
+ */
+export const PARSED_UNITS: Record<UnitType, string> = {
+  duration: 'milliseconds',
+  bytes: 'bytes',
+};
+
+/**
+ * Parse a duration such as `30s`, `1h30m` or `250ms` into milliseconds.
+ * Plain numbers are taken as milliseconds.
+ */
+export function parseDuration(value: string): number | undefined {
+  return parseUnits(value, DURATION_UNITS);
+}
+
+/**
+ * Parse a size such as `10MB`, `512KiB` or `1.5 GB` into bytes.
+ * Plain numbers are taken as bytes.
+ */
+export function parseBytes(value: string): number | undefined {
+  const bytes = parseUnits(value, BYTE_UNITS);
+  return bytes === undefined ? undefined : Math.round(bytes);
+}
+
+/**
+ * Parse a value of a unit type, accepting numbers as already-parsed values
+ */
+export function parseUnitValue(value: string | number, type: UnitType): number | undefined {
+  if (typeof value === 'number') return value;
+  return type === 'duration' ? parseDuration(value) : parseBytes(value);
+}
+
+function parseUnits(value: string, units: Record<string, number>): number | undefined {
+  const input = value.trim().toLowerCase();
+
+  if (input === '') return undefined;
+
+  if (/^\d+(\.\d+)?$/.test(input)) {
+    return Number(input);
+  }
+
+  let total = 0;
+  let offset = 0;
+  UNIT_SEGMENT.lastIndex = 0;
+
+  while (offset < input.length) {
+    const match = UNIT_SEGMENT.exec(input);
+    const factor = match ? units[match[2]] : undefined;
+
+    if (!match || factor === undefined) return undefined;
+
+    total += Number(match[1]) * factor;
+    offset = UNIT_SEGMENT.lastIndex;
+
+    // Allow whitespace between segments (`1h 30m`)
+    while (input[offset] === ' ') offset++;
+    UNIT_SEGMENT.lastIndex = offset;
+  }
+
+  return total;
+}
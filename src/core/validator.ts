@@ -1,10 +1,20 @@
 import {
   EnvSchema,
   Variable,
+  ParsedValue,
+  JsonValue,
   ValidationResult,
   ValidationError,
   ValidationWarning,
 } from '../types/index.js';
+import { isConditional, resolveRequirement } from './conditions.js';
+import { evaluateRules } from './rules.js';
+import { validateJsonSchema } from './json-schema.js';
+import { parseUnitValue } from './units.js';
+import { REDACTED, displayValue } from './redact.js';
+import { checkDeprecated, getAliases, resolveAliases } from './deprecations.js';
+import { matchPatternVariable } from './patterns.js';
+import { expandEnv } from './expand.js';
 
 // ============================================
 // Format Validators
@@ -70,13 +80,62 @@ const formatValidators: Record<string, (value: string) => boolean> = {
   },
 };
 
+// Diagnostic code of each built-in format; `regex:` formats are pattern mismatches
+const FORMAT_CODES: Record<string, string> = {
+  url: 'EG2003',
+  email: 'EG2004',
+  uuid: 'EG2005',
+  json: 'EG2006',
+  base64: 'EG2007',
+  hex: 'EG2008',
+  alphanumeric: 'EG2009',
+  port: 'EG2010',
+  positive: 'EG2011',
+  integer: 'EG2012',
+  percentage: 'EG2013',
+};
+
+function formatCode(format: string): string {
+  return FORMAT_CODES[format] ?? 'EG2014';
+}
+
+/**
+ * Whether a format is built in or a `regex:` pattern
+ */
+export function isKnownFormat(format: string): boolean {
+  return format.startsWith('regex:') || Object.keys(formatValidators).includes(format);
+}
+
 // ============================================
 // Type Coercion
 // ============================================
 
 function coerceValue(
   value: string,
-  type: Variable['type']
+  spec: Variable
+): { success: boolean; value: ParsedValue; error?: string } {
+  if (spec.type === 'array') {
+    const itemType = spec.items?.type ?? 'string';
+    const items: Array<string | number | boolean> = [];
+
+    for (const [index, item] of splitArray(value, spec).entries()) {
+      const coerced = coerceScalar(item, itemType, displayValue(spec, item));
+      if (!coerced.success) {
+        return { success: false, value, error: `Item ${index + 1}: ${coerced.error}` };
+      }
+      items.push(coerced.value);
+    }
+
+    return { success: true, value: items };
+  }
+
+  return coerceScalar(value, spec.type, displayValue(spec, value));
+}
+
+function coerceScalar(
+  value: string,
+  type: Variable['type'],
+  shown: string
 ): { success: boolean; value: string | number | boolean; error?: string } {
   switch (type) {
     case 'string':
@@ -88,7 +147,7 @@ function coerceValue(
         return {
           success: false,
           value,
-          error: `Cannot convert "${value}" to number`,
+          error: `Cannot convert "${shown}" to number`,
         };
       }
       return { success: true, value: num };
@@ -105,92 +164,296 @@ function coerceValue(
       return {
         success: false,
         value,
-        error: `Cannot convert "${value}" to boolean. Use true/false, 1/0, yes/no, or on/off`,
+        error: `Cannot convert "${shown}" to boolean. Use true/false, 1/0, yes/no, or on/off`,
       };
     }
 
+    case 'duration':
+    case 'bytes': {
+      const num = parseUnitValue(value, type);
+      if (num === undefined) {
+        const examples = type === 'duration' ? '500ms, 30s, 1h30m' : '512B, 10MB, 1.5GiB';
+        return {
+          success: false,
+          value,
+          error: `Cannot convert "${shown}" to ${type}. Use a number with a unit, e.g. ${examples}`,
+        };
+      }
+      return { success: true, value: num };
+    }
+
     default:
       return { success: true, value };
   }
 }
 
+/**
+ * Split a list variable on its separator, ignoring empty items
+ */
+function splitArray(value: string, spec: Variable): string[] {
+  return value
+    .split(spec.separator ?? ',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
+
+/**
+ * Resolve a default value, splitting string defaults of list variables
+ */
+export function resolveDefault(spec: Variable): ParsedValue | undefined {
+  if ((spec.type === 'array' || isUnitType(spec.type)) && typeof spec.default === 'string') {
+    return coerceValue(spec.default, spec).value;
+  }
+  return spec.default;
+}
+
+function isUnitType(type: Variable['type']): type is 'duration' | 'bytes' {
+  return type === 'duration' || type === 'bytes';
+}
+
+/**
+ * Resolve a min/max bound to a number, parsing unit strings for durations and sizes
+ */
+export function resolveBound(bound: number | string, type: Variable['type']): number | undefined {
+  if (isUnitType(type)) return parseUnitValue(bound, type);
+  return typeof bound === 'number' ? bound : undefined;
+}
+
+function testFormat(format: string, value: string): boolean {
+  if (format.startsWith('regex:')) {
+    try {
+      return new RegExp(format.slice(6)).test(value);
+    } catch {
+      return false;
+    }
+  }
+
+  const validator = formatValidators[format];
+  return !validator || validator(value);
+}
+
 // ============================================
 // Validation
 // ============================================
 
+type Report = (error: ValidationError) => boolean;
+
+/**
+ * Validate list items (enum, format, pattern) and the list size.
+ * `report` returns true when validation should stop (bail mode).
+ */
+function validateArray(
+  name: string,
+  value: string,
+  items: Array<string | number | boolean>,
+  spec: Variable,
+  report: Report
+): void {
+  const rawItems = splitArray(value, spec);
+  const itemSpec = spec.items;
+
+  for (const [index, item] of rawItems.entries()) {
+    const shown = displayValue(spec, item);
+    const label = `Item ${index + 1} ("${shown}")`;
+
+    if (
+      itemSpec?.enum &&
+      itemSpec.enum.length > 0 &&
+      !itemSpec.enum.includes(item) &&
+      report({
+        variable: name,
+        message: `${label} must be one of: ${itemSpec.enum.join(', ')}`,
+        code: 'EG2002',
+        type: 'invalid_enum',
+        expected: itemSpec.enum.join(' | '),
+        received: shown,
+      })
+    ) {
+      return;
+    }
+
+    if (
+      itemSpec?.format &&
+      !testFormat(itemSpec.format, item) &&
+      report({
+        variable: name,
+        message: `${label} has invalid ${itemSpec.format} format`,
+        code: formatCode(itemSpec.format),
+        type: 'invalid_format',
+        expected: itemSpec.format,
+        received: shown,
+      })
+    ) {
+      return;
+    }
+
+    if (
+      itemSpec?.pattern &&
+      !testFormat(`regex:${itemSpec.pattern}`, item) &&
+      report({
+        variable: name,
+        message: `${label} does not match pattern: ${itemSpec.pattern}`,
+        code: 'EG2014',
+        type: 'invalid_format',
+        expected: itemSpec.pattern,
+        received: shown,
+      })
+    ) {
+      return;
+    }
+  }
+
+  if (
+    spec.minItems !== undefined &&
+    items.length < spec.minItems &&
+    report({
+      variable: name,
+      message: `List has ${items.length} item(s), fewer than minimum ${spec.minItems}`,
+      code: 'EG3005',
+      type: 'invalid_range',
+      expected: `items >= ${spec.minItems}`,
+      received: String(items.length),
+    })
+  ) {
+    return;
+  }
+
+  if (
+    spec.maxItems !== undefined &&
+    items.length > spec.maxItems &&
+    report({
+      variable: name,
+      message: `List has ${items.length} item(s), more than maximum ${spec.maxItems}`,
+      code: 'EG3006',
+      type: 'invalid_range',
+      expected: `items <= ${spec.maxItems}`,
+      received: String(items.length),
+    })
+  ) {
+    return;
+  }
+
+  if (spec.unique) {
+    const duplicate = items.find((item, index) => items.indexOf(item) !== index);
+    if (duplicate !== undefined) {
+      report({
+        variable: name,
+        message: `List contains duplicate item: ${displayValue(spec, duplicate)}`,
+        code: 'EG2017',
+        type: 'invalid_format',
+        expected: 'unique items',
+        received: displayValue(spec, value),
+      });
+    }
+  }
+}
+
+/**
+ * Validate one value. Every failing constraint is reported unless `bail` is set,
+ * in which case validation stops at the first one.
+ */
 function validateVariable(
   name: string,
   value: string | undefined,
-  spec: Variable
-): { error?: ValidationError; warning?: ValidationWarning; parsed?: string | number | boolean } {
+  spec: Variable,
+  bail = false
+): { errors: ValidationError[]; warning?: ValidationWarning; parsed?: ParsedValue } {
   // Check if required and missing
   if (value === undefined || value === '') {
     if (spec.required) {
       // Check for default
       if (spec.default !== undefined) {
         return {
+          errors: [],
           warning: {
             variable: name,
-            message: `Using default value: ${spec.default}`,
+            message: `Using default value: ${displayValue(spec, spec.default)}`,
+            code: 'EG1004',
             type: 'default_applied',
           },
-          parsed: spec.default,
+          parsed: resolveDefault(spec),
         };
       }
       return {
-        error: {
-          variable: name,
-          message: `Required variable is missing`,
-          type: 'missing',
-        },
+        errors: [
+          {
+            variable: name,
+            message: `Required variable is missing`,
+            code: 'EG1001',
+            type: 'missing',
+          },
+        ],
       };
     }
 
     // Optional and missing - use default if available
     if (spec.default !== undefined) {
       return {
+        errors: [],
         warning: {
           variable: name,
-          message: `Using default value: ${spec.default}`,
+          message: `Using default value: ${displayValue(spec, spec.default)}`,
+          code: 'EG1004',
           type: 'default_applied',
         },
-        parsed: spec.default,
+        parsed: resolveDefault(spec),
       };
     }
 
-    return {}; // Optional and no default - skip
+    return { errors: [] }; // Optional and no default - skip
   }
 
-  // Type coercion
-  const coerced = coerceValue(value, spec.type);
-  if (!coerced.success) {
-    return {
-      error: {
-        variable: name,
-        message: coerced.error || 'Type conversion failed',
-        type: 'invalid_type',
-        expected: spec.type,
-        received: value,
-      },
-    };
+  const received = displayValue(spec, value);
+  const errors: ValidationError[] = [];
+  const report: Report = (error) => {
+    errors.push(error);
+    return bail;
+  };
+
+  // Type coercion. Checks on the raw string still run when it fails.
+  const coerced = coerceValue(value, spec);
+  if (
+    !coerced.success &&
+    report({
+      variable: name,
+      message: coerced.error || 'Type conversion failed',
+      code: 'EG2001',
+      type: 'invalid_type',
+      expected: spec.type,
+      received,
+    })
+  ) {
+    return { errors };
   }
 
-  // Enum validation
-  if (spec.enum && spec.enum.length > 0) {
-    if (!spec.enum.includes(value)) {
-      return {
-        error: {
-          variable: name,
-          message: `Value must be one of: ${spec.enum.join(', ')}`,
-          type: 'invalid_enum',
-          expected: spec.enum.join(' | '),
-          received: value,
-        },
-      };
+  // Lists validate their items instead of the raw string
+  if (spec.type === 'array') {
+    if (coerced.success) {
+      validateArray(name, value, coerced.value as Array<string | number | boolean>, spec, report);
     }
+    return errors.length > 0 ? { errors } : { errors, parsed: coerced.value };
+  }
+
+  // Enum validation
+  if (
+    spec.enum &&
+    spec.enum.length > 0 &&
+    !spec.enum.includes(value) &&
+    report({
+      variable: name,
+      message: `Value must be one of: ${spec.enum.join(', ')}`,
+      code: 'EG2002',
+      type: 'invalid_enum',
+      expected: spec.enum.join(' | '),
+      received,
+    })
+  ) {
+    return { errors };
   }
 
   // Format validation
+  let formatValid = true;
+
   if (spec.format) {
     // Check for custom regex pattern
     if (spec.format.startsWith('regex:')) {
@@ -198,97 +461,131 @@ function validateVariable(
       try {
         const regex = new RegExp(pattern);
         if (!regex.test(value)) {
-          return {
-            error: {
+          formatValid = false;
+          if (
+            report({
               variable: name,
               message: `Value does not match pattern: ${pattern}`,
+              code: 'EG2014',
               type: 'invalid_format',
               expected: pattern,
-              received: value,
-            },
-          };
+              received,
+            })
+          ) {
+            return { errors };
+          }
         }
       } catch {
-        return {
-          error: {
+        formatValid = false;
+        if (
+          report({
             variable: name,
             message: `Invalid regex pattern: ${pattern}`,
+            code: 'EG2015',
             type: 'invalid_format',
-          },
-        };
+          })
+        ) {
+          return { errors };
+        }
       }
     } else {
       // Built-in format validator
       const validator = formatValidators[spec.format];
       if (validator && !validator(value)) {
-        return {
-          error: {
+        formatValid = false;
+        if (
+          report({
             variable: name,
             message: `Invalid ${spec.format} format`,
+            code: formatCode(spec.format),
             type: 'invalid_format',
             expected: spec.format,
-            received: value,
-          },
-        };
+            received,
+          })
+        ) {
+          return { errors };
+        }
       }
     }
   }
 
-  // Range validation for numbers
-  if (spec.type === 'number') {
+  // Range validation for numbers, durations and sizes
+  if (coerced.success && (spec.type === 'number' || isUnitType(spec.type))) {
     const numValue = coerced.value as number;
+    // Show unit values as written (e.g. "500ms is less than minimum 1s")
+    const shown = spec.sensitive ? REDACTED : spec.type === 'number' ? String(numValue) : value;
+
+    for (const [kind, bound] of [
+      ['min', spec.min],
+      ['max', spec.max],
+    ] as const) {
+      if (bound === undefined) continue;
+
+      const limit = resolveBound(bound, spec.type);
+      if (limit === undefined) {
+        if (
+          report({
+            variable: name,
+            message: `Invalid ${kind} "${bound}" for type ${spec.type}`,
+            code: 'EG3007',
+            type: 'invalid_range',
+          })
+        ) {
+          return { errors };
+        }
+        continue;
+      }
 
-    if (spec.min !== undefined && numValue < spec.min) {
-      return {
-        error: {
-          variable: name,
-          message: `Value ${numValue} is less than minimum ${spec.min}`,
-          type: 'invalid_range',
-          expected: `>= ${spec.min}`,
-          received: String(numValue),
-        },
-      };
-    }
-
-    if (spec.max !== undefined && numValue > spec.max) {
-      return {
-        error: {
+      const outOfRange = kind === 'min' ? numValue < limit : numValue > limit;
+      const relation = kind === 'min' ? 'less than minimum' : 'greater than maximum';
+      if (
+        outOfRange &&
+        report({
           variable: name,
-          message: `Value ${numValue} is greater than maximum ${spec.max}`,
+          message: `Value ${shown} is ${relation} ${bound}`,
+          code: kind === 'min' ? 'EG3001' : 'EG3002',
           type: 'invalid_range',
-          expected: `<= ${spec.max}`,
-          received: String(numValue),
-        },
-      };
+          expected: `${kind === 'min' ? '>=' : '<='} ${bound}`,
+          received: shown,
+        })
+      ) {
+        return { errors };
+      }
     }
   }
 
   // Length validation for strings
   if (spec.type === 'string') {
-    const strValue = coerced.value as string;
+    const length = value.length;
 
-    if (spec.minLength !== undefined && strValue.length < spec.minLength) {
-      return {
-        error: {
-          variable: name,
-          message: `Value length ${strValue.length} is less than minimum ${spec.minLength}`,
-          type: 'invalid_range',
-          expected: `length >= ${spec.minLength}`,
-          received: String(strValue.length),
-        },
-      };
+    if (
+      spec.minLength !== undefined &&
+      length < spec.minLength &&
+      report({
+        variable: name,
+        message: `Value length ${length} is less than minimum ${spec.minLength}`,
+        code: 'EG3003',
+        type: 'invalid_range',
+        expected: `length >= ${spec.minLength}`,
+        received: String(length),
+      })
+    ) {
+      return { errors };
     }
 
-    if (spec.maxLength !== undefined && strValue.length > spec.maxLength) {
-      return {
-        error: {
-          variable: name,
-          message: `Value length ${strValue.length} is greater than maximum ${spec.maxLength}`,
-          type: 'invalid_range',
-          expected: `length <= ${spec.maxLength}`,
-          received: String(strValue.length),
-        },
-      };
+    if (
+      spec.maxLength !== undefined &&
+      length > spec.maxLength &&
+      report({
+        variable: name,
+        message: `Value length ${length} is greater than maximum ${spec.maxLength}`,
+        code: 'EG3004',
+        type: 'invalid_range',
+        expected: `length <= ${spec.maxLength}`,
+        received: String(length),
+      })
+    ) {
+      return { errors };
     }
   }
 
@@ -296,23 +593,72 @@ function validateVariable(
   if (spec.pattern) {
     try {
       const regex = new RegExp(spec.pattern);
-      if (!regex.test(value)) {
-        return {
-          error: {
-            variable: name,
-            message: `Value does not match pattern: ${spec.pattern}`,
-            type: 'invalid_format',
-            expected: spec.pattern,
-            received: value,
-          },
-        };
+      if (
+        !regex.test(value) &&
+        report({
+          variable: name,
+          message: `Value does not match pattern: ${spec.pattern}`,
+          code: 'EG2014',
+          type: 'invalid_format',
+          expected: spec.pattern,
+          received,
+        })
+      ) {
+        return { errors };
       }
     } catch {
       // Invalid pattern - skip validation
     }
   }
 
-  return { parsed: coerced.value };
+  // Structured JSON - only once the value is known to parse
+  if (spec.format === 'json' && spec.jsonSchema && formatValid) {
+    const data = JSON.parse(value) as JsonValue;
+    const issues = validateJsonSchema(data, spec.jsonSchema);
+
+    if (issues.length > 0 && bail) {
+      const [first] = issues;
+      const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+      report({
+        variable: name,
+        message: `Invalid JSON at ${first.pointer || '(root)'}: ${first.message}${more}`,
+        code: 'EG2016',
+        type: 'invalid_format',
+        expected: 'JSON matching jsonSchema',
+        received,
+        pointer: first.pointer,
+      });
+    } else {
+      for (const issue of issues) {
+        report({
+          variable: name,
+          message: `Invalid JSON at ${issue.pointer || '(root)'}: ${issue.message}`,
+          code: 'EG2016',
+          type: 'invalid_format',
+          expected: 'JSON matching jsonSchema',
+          received,
+          pointer: issue.pointer,
+        });
+      }
+    }
+
+    return errors.length > 0 ? { errors } : { errors, parsed: data };
+  }
+
+  return errors.length > 0 ? { errors } : { errors, parsed: coerced.value };
+}
+
+export interface ValidatorOptions {
+  /** Warn about env vars not defined in the schema */
+  strict?: boolean;
+  /** Reference date for deprecation removal dates */
+  now?: Date;
+  /** Expand ${VAR} references; overrides the schema's `expand` setting */
+  expand?: boolean;
+  /** Extra source for ${VAR} references, e.g. process.env */
+  fallbackEnv?: Record<string, string | undefined>;
+  /** Stop at the first failing constraint of each variable */
+  bail?: boolean;
 }
 
 /**
@@ -321,41 +667,162 @@ function validateVariable(
 export function validate(
   schema: EnvSchema,
   env: Record<string, string | undefined>,
-  options: { strict?: boolean } = {}
+  options: ValidatorOptions = {}
 ): ValidationResult {
+  const now = options.now ?? new Date();
+  const parsed: Record<string, ParsedValue> = {};
   const errors: ValidationError[] = [];
-  const warnings: ValidationWarning[] = [];
-  const parsed: Record<string, string | number | boolean> = {};
+
+  // ${VAR} interpolation (opt-in)
+  if (options.expand ?? schema.expand) {
+    const expansion = expandEnv(definedValues(env), options.fallbackEnv);
+    env = expansion.env;
+
+    for (const error of expansion.errors) {
+      errors.push({
+        variable: error.variable,
+        message: error.message,
+        code: error.code,
+        type: 'unresolved_reference',
+      });
+    }
+  }
+
+  // Variables with broken references already have an error
+  const unresolved = new Set(errors.map((error) => error.variable));
+
+  // Legacy aliases stand in for variables that are not set under their own name
+  const aliases = resolveAliases(schema, env, now);
+  const resolvedEnv = aliases.env;
+  errors.push(...aliases.errors);
+  const warnings: ValidationWarning[] = [...aliases.warnings];
 
   // Validate each variable in schema
   for (const [name, spec] of Object.entries(schema.variables)) {
-    const result = validateVariable(name, env[name], spec);
+    if (unresolved.has(name)) continue;
 
-    if (result.error) {
-      errors.push(result.error);
-    }
+    // Conditional requirements are checked once every variable is parsed
+    const effectiveSpec = isConditional(spec) ? { ...spec, required: false } : spec;
+    const result = validateVariable(name, resolvedEnv[name], effectiveSpec, options.bail);
+    const deprecation = checkDeprecated(name, spec, resolvedEnv[name], now);
+
+    errors.push(...result.errors);
 
     if (result.warning) {
       warnings.push(result.warning);
     }
 
+    if (deprecation.error) {
+      errors.push(deprecation.error);
+    }
+
+    if (deprecation.warning) {
+      warnings.push(deprecation.warning);
+    }
+
     if (result.parsed !== undefined) {
       parsed[name] = result.parsed;
     }
   }
 
+  // Pattern variable families (e.g. FEATURE_FLAG_*)
+  const groups: Record<string, Record<string, ParsedValue>> = {};
+
+  for (const [pattern, spec] of Object.entries(schema.patternVariables ?? {})) {
+    const keys = Object.keys(resolvedEnv).filter(
+      (key) =>
+        resolvedEnv[key] !== undefined &&
+        resolvedEnv[key] !== '' &&
+        !unresolved.has(key) &&
+        matchPatternVariable(schema, key)?.pattern === pattern
+    );
+    groups[pattern] = {};
+
+    for (const key of keys) {
+      const result = validateVariable(
+        key,
+        resolvedEnv[key],
+        { ...spec, required: false },
+        options.bail
+      );
+      const deprecation = checkDeprecated(key, spec, resolvedEnv[key], now);
+
+      errors.push(...result.errors);
+
+      if (deprecation.error) {
+        errors.push(deprecation.error);
+      }
+
+      if (deprecation.warning) {
+        warnings.push(deprecation.warning);
+      }
+
+      if (result.parsed !== undefined) {
+        parsed[key] = result.parsed;
+        groups[pattern][key] = result.parsed;
+      }
+    }
+
+    if (spec.required && keys.length === 0) {
+      errors.push({
+        variable: pattern,
+        message: `No variable matching ${pattern} is set`,
+        code: 'EG1003',
+        type: 'missing',
+      });
+    }
+  }
+
+  // Conditional requirements (requiredIf / requiredUnless)
+  for (const [name, spec] of Object.entries(schema.variables)) {
+    const value = resolvedEnv[name];
+
+    if (
+      !isConditional(spec) ||
+      parsed[name] !== undefined ||
+      (value !== undefined && value !== '')
+    ) {
+      continue;
+    }
+
+    const requirement = resolveRequirement(spec, resolvedEnv, parsed);
+
+    if (requirement.required) {
+      errors.push({
+        variable: name,
+        message: `Required variable is missing (${requirement.reason})`,
+        code: 'EG1002',
+        type: 'missing',
+        condition: requirement.reason,
+      });
+    }
+  }
+
+  // Cross-variable rules
+  if (schema.rules) {
+    const sensitive = Object.keys(schema.variables).filter(
+      (name) => schema.variables[name].sensitive
+    );
+    errors.push(...evaluateRules(schema.rules, resolvedEnv, parsed, new Set(sensitive)));
+  }
+
   // In strict mode, warn about env vars not in schema
   if (options.strict) {
     const schemaKeys = new Set(Object.keys(schema.variables));
 
+    for (const spec of Object.values(schema.variables)) {
+      getAliases(spec).forEach((alias) => schemaKeys.add(alias.name));
+    }
+
     for (const key of Object.keys(env)) {
       // Skip common system env vars
       if (isSystemEnvVar(key)) continue;
 
-      if (!schemaKeys.has(key)) {
+      if (!schemaKeys.has(key) && !matchPatternVariable(schema, key)) {
         warnings.push({
           variable: key,
           message: 'Variable not defined in schema',
+          code: 'EG1005',
           type: 'unused',
         });
       }
@@ -367,9 +834,22 @@ export function validate(
     errors,
     warnings,
     parsed,
+    ...(schema.patternVariables && { groups }),
   };
 }
 
+function definedValues(env: Record<string, string | undefined>): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(env)) {
+    if (value !== undefined) {
+      values[key] = value;
+    }
+  }
+
+  return values;
+}
+
 /**
  * Check if a variable is a common system env var
  */
@@ -403,7 +883,11 @@ function isSystemEnvVar(key: string): boolean {
 /**
  * Quick validation - just check if valid, don't return details
  */
-export function isValid(schema: EnvSchema, env: Record<string, string | undefined>): boolean {
-  const result = validate(schema, env);
+export function isValid(
+  schema: EnvSchema,
+  env: Record<string, string | undefined>,
+  options: ValidatorOptions = {}
+): boolean {
+  const result = validate(schema, env, options);
   return result.valid;
 }
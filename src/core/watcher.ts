@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface FileWatcher {
+  close: () => void;
+}
+
+export type VariableStatus = 'valid' | 'invalid' | 'missing' | 'default';
+
+export interface StatusChange {
+  variable: string;
+  /** Undefined when the variable was not reported before */
+  from?: VariableStatus;
+  /** Undefined when the variable is no longer reported */
+  to?: VariableStatus;
+}
+
+const DEFAULT_DEBOUNCE = 100;
+
+/**
+ * Call `onChange` with the changed files after a burst of changes has settled.
+ * Parent directories are watched, so files that are created, deleted or replaced
+ * by an editor's atomic save are picked up too.
+ */
+export function watchFiles(
+  files: string[],
+  onChange: (changed: string[]) => void,
+  options: { debounce?: number } = {}
+): FileWatcher {
+  const byDirectory = new Map<string, Set<string>>();
+
+  for (const file of files) {
+    const absolutePath = path.resolve(process.cwd(), file);
+    const directory = path.dirname(absolutePath);
+    const names = byDirectory.get(directory) ?? new Set<string>();
+    names.add(path.basename(absolutePath));
+    byDirectory.set(directory, names);
+  }
+
+  const changed = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const flush = () => {
+    timer = undefined;
+    const batch = [...changed];
+    changed.clear();
+    onChange(batch);
+  };
+
+  const watchers = [...byDirectory]
+    .filter(([directory]) => fs.existsSync(directory))
+    .map(([directory, names]) =>
+      fs.watch(directory, (_event, filename) => {
+        if (!filename || !names.has(filename.toString())) return;
+
+        changed.add(path.join(directory, filename.toString()));
+        clearTimeout(timer);
+        timer = setTimeout(flush, options.debounce ?? DEFAULT_DEBOUNCE);
+      })
+    );
+
+  return {
+    close: () => {
+      clearTimeout(timer);
+      for (const watcher of watchers) {
+        watcher.close();
+      }
+    },
+  };
+}
+
+/**
+ * Variables whose validation status differs between two runs, in the order of `next`
+ * followed by variables that are no longer reported
+ */
+export function diffStatuses(
+  previous: Record<string, VariableStatus>,
+  next: Record<string, VariableStatus>
+): StatusChange[] {
+  const changes: StatusChange[] = [];
+
+  for (const [variable, status] of Object.entries(next)) {
+    if (previous[variable] !== status) {
+      changes.push({ variable, from: previous[variable], to: status });
+    }
+  }
+
+  for (const [variable, status] of Object.entries(previous)) {
+    if (!(variable in next)) {
+      changes.push({ variable, from: status });
+    }
+  }
+
+  return changes;
+}
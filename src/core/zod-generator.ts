@@ -0,0 +1,401 @@
+import * as path from 'path';
+import { EnvSchema, Rule, Variable } from '../types/index.js';
+import { isConditional } from './conditions.js';
+import { jsonSchemaToTypeScript } from './json-schema.js';
+import {
+  PARSER_NAMES,
+  PARSE_MESSAGES,
+  CheckTarget,
+  ScalarType,
+  collectRuntimeNeeds,
+  generateRequirementChecks,
+  generateRuleChecks,
+  generateRuntimeHelpers,
+  listUncheckedFeatures,
+  rangeLimits,
+  rawValueChecks,
+  toDefaultLiteral,
+  toPropertyAccess,
+  toPropertyKey,
+  toStringLiteral,
+} from './codegen.js';
+import {
+  WriteResult,
+  formatDocComment,
+  toDeprecatedTag,
+  toDocText,
+  writeIfChanged,
+} from './generator.js';
+
+type Wrapper = 'required' | 'optional' | 'withDefault';
+
+// Helpers every generated schema may use, emitted only when used
+const WRAPPER_SOURCES: Record<Wrapper | 'parseWith' | 'report', string> = {
+  required: `/** A variable that must be set */
+function required<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(unset, schema);
+}`,
+  optional: `/** A variable that may be unset */
+function optional<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(unset, schema.optional());
+}`,
+  withDefault: `/** A variable that falls back to a default when unset */
+function withDefault<T extends z.ZodTypeAny, D>(schema: T, fallback: D) {
+  return z.preprocess(unset, schema.optional()).transform((value) => value ?? fallback);
+}`,
+  parseWith: `/** Transform a string with \`parse\`, failing with \`message\` when it returns undefined */
+function parseWith<T>(parse: (value: string) => T | undefined, message: string) {
+  return (value: string, ctx: z.RefinementCtx): T => {
+    const parsed = parse(value);
+    if (parsed === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      return z.NEVER;
+    }
+    return parsed;
+  };
+}`,
+  report: `/** Add an issue for a cross-variable problem, if there is one */
+function report(ctx: z.RefinementCtx, variables: string[], message: string | undefined): void {
+  if (message === undefined) return;
+  ctx.addIssue({ code: z.ZodIssueCode.custom, path: variables.length === 1 ? variables : [], message });
+}`,
+};
+
+const PARSED_VALUE_SOURCE = `/** A variable's value as its schema parses it, or undefined when it is invalid */
+function parsedValue(env: Record<string, unknown>, name: keyof typeof variables.shape) {
+  const result = variables.shape[name].safeParse(env[name]);
+  return result.success ? result.data : undefined;
+}`;
+
+// ============================================
+// Schema Expressions
+// ============================================
+
+/**
+ * Zod method chain for a variable's value, as `[base, ...calls]`
+ */
+function toZodChain(spec: Variable, used: Set<string>): string[] {
+  if (spec.type === 'array') {
+    return toListChain(spec, used);
+  }
+
+  const chain = ['z.string()', ...toRefinements(spec)];
+  const limits = rangeLimits(spec);
+
+  // A bound that does not parse fails every set value, as in the validator
+  for (const { limit, message } of limits) {
+    if (limit === undefined) chain.push(`.refine(() => false, ${toStringLiteral(message)})`);
+  }
+
+  if (spec.type === 'string') {
+    if (spec.format === 'json' && spec.jsonSchema) {
+      const type = jsonSchemaToTypeScript(spec.jsonSchema, '      ');
+      chain.push(`.transform((value): ${type} => JSON.parse(value))`);
+    }
+    return chain;
+  }
+
+  chain.push(toParseCall(spec.type, used));
+
+  const range = limits.flatMap(({ kind, limit, message }) =>
+    limit === undefined ? [] : [`.${kind}(${limit}, ${toStringLiteral(message)})`]
+  );
+
+  if (range.length > 0) {
+    chain.push(`.pipe(z.number()${range.join('')})`);
+  }
+
+  return chain;
+}
+
+/**
+ * Lists split on their separator, then check each item and the list size
+ */
+function toListChain(spec: Variable, used: Set<string>): string[] {
+  const itemType = spec.items?.type ?? 'string';
+  const item = [
+    'z.string()',
+    ...toRefinements({ ...spec.items, type: itemType }, { item: true }),
+    ...(itemType === 'string' ? [] : [toParseCall(itemType, used)]),
+  ].join('');
+
+  let list = `z.array(${item})`;
+
+  if (spec.minItems !== undefined) {
+    list += `.min(${spec.minItems}, ${toStringLiteral(`List has fewer than ${spec.minItems} item(s)`)})`;
+  }
+
+  if (spec.maxItems !== undefined) {
+    list += `.max(${spec.maxItems}, ${toStringLiteral(`List has more than ${spec.maxItems} item(s)`)})`;
+  }
+
+  const chain = [
+    'z.string()',
+    `.transform((value) => splitList(value, ${toStringLiteral(spec.separator ?? ',')}))`,
+    `.pipe(${list})`,
+  ];
+
+  if (spec.unique) {
+    chain.push(
+      `.refine((items) => new Set(items).size === items.length, 'List contains duplicate items')`
+    );
+  }
+
+  return chain;
+}
+
+/**
+ * Refinements for the raw-string checks. A string enum narrows the value to its literal union.
+ */
+function toRefinements(
+  spec: Parameters<typeof rawValueChecks>[0],
+  options: { item?: boolean } = {}
+): string[] {
+  const refinements: string[] = [];
+  const literals = spec.type === 'string' && spec.enum && spec.enum.length > 0 ? spec.enum : [];
+
+  if (literals.length > 0) {
+    const union = literals.map(toStringLiteral).join(' | ');
+    const values = `[${literals.map(toStringLiteral).join(', ')}]`;
+    const message = `${options.item ? 'Item' : 'Value'} must be one of: ${literals.join(', ')}`;
+    refinements.push(
+      `.refine((value): value is ${union} => ${values}.includes(value), ${toStringLiteral(message)})`
+    );
+  }
+
+  const checks = rawValueChecks(literals.length > 0 ? { ...spec, enum: undefined } : spec, options);
+
+  for (const check of checks) {
+    refinements.push(`.refine((value) => ${check.test}, ${toStringLiteral(check.message)})`);
+  }
+
+  return refinements;
+}
+
+/**
+ * Transform from the raw string to a number, boolean, duration or size
+ */
+function toParseCall(type: Exclude<ScalarType, 'string'>, used: Set<string>): string {
+  used.add('parseWith');
+  return `.transform(parseWith(${PARSER_NAMES[type]}, ${toStringLiteral(PARSE_MESSAGES[type])}))`;
+}
+
+/**
+ * Wrapper deciding what happens when a variable is unset
+ */
+function toWrapper(spec: Variable): Wrapper {
+  if (spec.default !== undefined) return 'withDefault';
+  return spec.required && !isConditional(spec) ? 'required' : 'optional';
+}
+
+// ============================================
+// Cross-Variable Checks
+// ============================================
+
+/**
+ * Checks split by the values they need, since superRefine only sees parsed values:
+ * conditional requirements and group rules run on the raw values in a preprocess step
+ */
+function toCrossVariableChecks(schema: EnvSchema): { raw: string[]; parsed: string[] } {
+  const rules = schema.rules ?? [];
+  const isCompare = (rule: Rule) => rule.type === 'compare';
+  const report = (variables: string[], message: string) =>
+    `report(ctx, [${variables.map(toStringLiteral).join(', ')}], ${message});`;
+
+  const rawTarget: CheckTarget = {
+    parsed: (name) => `parsedValue(env, ${toStringLiteral(name)})`,
+    report,
+  };
+  const parsedTarget: CheckTarget = { parsed: (name) => toPropertyAccess('env', name), report };
+
+  return {
+    raw: [
+      ...generateRequirementChecks(schema, rawTarget),
+      ...generateRuleChecks(rules, schema, rawTarget, (rule) => !isCompare(rule)),
+    ],
+    parsed: generateRuleChecks(rules, schema, parsedTarget, isCompare),
+  };
+}
+
+/**
+ * Preprocess step reading aliases and running the raw-value checks
+ */
+function toPrepareFunction(hasAliases: boolean, checks: string[]): string {
+  const steps = [
+    ...(hasAliases ? ['Read legacy aliases'] : []),
+    ...(checks.length > 0 ? ['check conditional requirements and group rules'] : []),
+  ].join(', then ');
+  const params = checks.length > 0 ? 'input: unknown, ctx: z.RefinementCtx' : 'input: unknown';
+  const lines = [
+    `/** ${steps.charAt(0).toUpperCase()}${steps.slice(1)} */`,
+    `function prepareEnv(${params}): unknown {`,
+    "  if (typeof input !== 'object' || input === null) return input;",
+    '',
+    hasAliases
+      ? '  const env = readAliases(input as Record<string, unknown>);'
+      : '  const env = input as Record<string, unknown>;',
+  ];
+
+  if (checks.length > 0) {
+    lines.push("  const raw = (name: string) => (env[name] === '' ? undefined : env[name]);");
+    lines.push('');
+    lines.push(...checks.map((line) => `  ${line}`));
+  }
+
+  lines.push('');
+  lines.push('  return env;');
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// ============================================
+// Generation
+// ============================================
+
+/**
+ * Generate a TypeScript module exporting a zod schema that accepts and rejects
+ * the same values as validate(), plus a typed parseEnv()
+ */
+export function generateZodSchema(schema: EnvSchema): string {
+  const used = new Set<string>();
+  const entries: string[] = [];
+
+  for (const [name, spec] of Object.entries(schema.variables)) {
+    const wrapper = toWrapper(spec);
+    const chain = toZodChain(spec, used);
+    const comment = formatDocComment([toDocText(spec), toDeprecatedTag(spec)], '  ');
+    const value =
+      chain.length === 1 ? chain[0] : `z\n      ${chain.join('\n      ').replace(/^z\./, '.')}`;
+    const fallback = wrapper === 'withDefault' ? `,\n    ${toDefaultLiteral(spec)}` : '';
+
+    used.add(wrapper);
+    entries.push(
+      chain.length === 1 && !fallback
+        ? `${comment}  ${toPropertyKey(name)}: ${wrapper}(${value}),`
+        : `${comment}  ${toPropertyKey(name)}: ${wrapper}(\n    ${value}${fallback}\n  ),`
+    );
+  }
+
+  const lines: string[] = [];
+  const unchecked = listUncheckedFeatures(schema);
+  const needs = collectRuntimeNeeds(schema);
+  const checks = toCrossVariableChecks(schema);
+  const hasAliases = needs.aliases.length > 0;
+  const needsPrepare = hasAliases || checks.raw.length > 0;
+  const needsRefine = checks.parsed.length > 0;
+
+  if (checks.raw.length > 0 || needsRefine) used.add('report');
+
+  lines.push('// Auto-generated by env-guardian-cli. Do not edit manually.');
+  lines.push('// Regenerate with: npx env-guardian-cli generate --target zod');
+
+  if (unchecked.length > 0) {
+    lines.push(`// Not checked here, use env-guardian-cli validate: ${unchecked.join(', ')}`);
+  }
+
+  lines.push('');
+  lines.push("import { z } from 'zod';");
+  lines.push('');
+  lines.push('// ============================================');
+  lines.push('// Helpers');
+  lines.push('// ============================================');
+  lines.push('');
+  lines.push('/** Empty values count as unset, as in env-guardian-cli validate */');
+  lines.push("const unset = (value: unknown) => (value === '' ? undefined : value);");
+  lines.push('');
+
+  for (const [helper, source] of Object.entries(WRAPPER_SOURCES)) {
+    if (used.has(helper)) {
+      lines.push(source);
+      lines.push('');
+    }
+  }
+
+  for (const block of generateRuntimeHelpers(needs)) {
+    lines.push(block);
+    lines.push('');
+  }
+
+  lines.push('// ============================================');
+  lines.push('// Schema');
+  lines.push('// ============================================');
+  lines.push('');
+
+  if (!needsPrepare && !needsRefine) {
+    lines.push('export const envSchema = z.object({');
+    lines.push(...entries);
+    lines.push('});');
+    lines.push('');
+  } else {
+    lines.push('const variables = z.object({');
+    lines.push(...entries);
+    lines.push('});');
+    lines.push('');
+
+    if (checks.raw.some((line) => line.includes('parsedValue('))) {
+      lines.push(PARSED_VALUE_SOURCE);
+      lines.push('');
+    }
+
+    if (needsPrepare) {
+      lines.push(toPrepareFunction(hasAliases, checks.raw));
+      lines.push('');
+    }
+
+    const indent = needsPrepare ? '    ' : '  ';
+    const refined = needsRefine
+      ? [
+          'variables.superRefine((env, ctx) => {',
+          ...checks.parsed.map((line) => `${indent}${line}`),
+          `${indent.slice(2)}})`,
+        ]
+      : ['variables'];
+
+    if (needsPrepare) {
+      lines.push('export const envSchema = z.preprocess(');
+      lines.push('  prepareEnv,');
+      lines.push(`  ${refined.join('\n')}`);
+      lines.push(');');
+    } else {
+      lines.push(`export const envSchema = ${refined.join('\n')};`);
+    }
+
+    lines.push('');
+  }
+  lines.push('export type Env = z.infer<typeof envSchema>;');
+  lines.push('');
+  lines.push('/**');
+  lines.push(
+    ' * Parse and validate environment variables. Throws a ZodError listing every problem.'
+  );
+  lines.push(' */');
+  lines.push(
+    'export function parseEnv(env: Record<string, string | undefined> = process.env): Env {'
+  );
+  lines.push('  return envSchema.parse(env);');
+  lines.push('}');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Write the zod schema module to file
+ */
+export function writeZodSchemaFile(schema: EnvSchema, outputPath: string): WriteResult {
+  const absolutePath = path.resolve(process.cwd(), outputPath);
+
+  try {
+    return {
+      success: true,
+      path: absolutePath,
+      changed: writeIfChanged(absolutePath, generateZodSchema(schema)),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to write zod schema: ${error instanceof Error ? error.message : String(error)}`,
+      path: absolutePath,
+    };
+  }
+}
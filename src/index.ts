@@ -4,11 +4,22 @@
 // Core types
 export type {
   EnvSchema,
+  EnvSchemaInput,
   Variable,
+  VariableOverride,
   VariableType,
+  ParsedValue,
+  JsonSchema,
+  Config,
+  LintSeverity,
+  SchemaLintIssue,
+  SchemaLintResult,
+  EnvLintIssue,
+  EnvLintResult,
   ValidationResult,
   ValidationError,
   ValidationWarning,
+  EnvLocation,
   ValidateOptions,
   InitOptions,
   GenerateOptions,
@@ -16,20 +27,54 @@ export type {
 } from './types/index.js';
 
 // Schema operations
-export { loadSchema, findSchemaFile, createSchemaFile, getDefaultSchema } from './core/schema.js';
+export {
+  loadSchema,
+  loadSchemaAsync,
+  defineSchema,
+  findSchemaFile,
+  createSchemaFile,
+  getDefaultSchema,
+  resolveEnvironment,
+  resolveEnvironmentName,
+} from './core/schema.js';
 
 // Validation
 export { validate, isValid } from './core/validator.js';
+export type { ValidatorOptions } from './core/validator.js';
+export { validateJsonSchema } from './core/json-schema.js';
+export { formatReport, REPORT_FORMATS } from './core/reporter.js';
+export type { ReportFormat, ReportContext } from './core/reporter.js';
+
+// Schema linting
+export { lintSchema, LINT_RULES } from './core/schema-linter.js';
+export { loadConfig, findConfigFile } from './core/config.js';
+export { lintEnvFile, fixEnvFile, ENV_LINT_RULES } from './core/env-linter.js';
+
+// Error codes
+export { ERROR_CODES, findErrorCode, describeErrorCode } from './core/error-codes.js';
+export type { ErrorCodeInfo } from './core/error-codes.js';
 
 // Env file operations
 export {
   loadEnvFile,
   loadProcessEnv,
   mergeEnv,
+  loadEnvCascade,
+  getCascadeFiles,
   inferType,
   inferFormat,
   inferSchemaFromEnv,
 } from './core/loader.js';
+export { expandEnv } from './core/expand.js';
+export {
+  parseEnvFile,
+  stringifyEnvFile,
+  toEnvRecord,
+  findEnvEntry,
+  setEnvValue,
+  removeEnvEntry,
+} from './core/env-parser.js';
+export type { EnvDocument, EnvNode, EnvEntry, EnvQuote, EnvParseIssue } from './core/env-parser.js';
 
 // Type generation
 export {
@@ -38,18 +83,69 @@ export {
   generateEnvExample,
   writeEnvExample,
 } from './core/generator.js';
+export type { WriteResult } from './core/generator.js';
+export { generateZodSchema, writeZodSchemaFile } from './core/zod-generator.js';
+export { generateEnvModule, writeEnvModuleFile } from './core/module-generator.js';
+export { generateJsonSchema, writeJsonSchemaFile } from './core/json-schema-generator.js';
+export { generateMetaSchema, zodToJsonSchema } from './core/meta-schema.js';
+export type { JsonSchemaObject } from './core/meta-schema.js';
+export {
+  generateDocs,
+  generateMarkdownDocs,
+  generateHtmlDocs,
+  generateHtmlTable,
+  injectDocs,
+  writeDocsFile,
+  DOCS_START_MARKER,
+  DOCS_END_MARKER,
+} from './core/docs.js';
+export type { DocsFormat, DocsOptions } from './core/docs.js';
+
+// Watch mode
+export { watchFiles, diffStatuses } from './core/watcher.js';
+export type { FileWatcher, VariableStatus, StatusChange } from './core/watcher.js';
 
 // ============================================
 // Convenience Functions
 // ============================================
 
-import { loadSchema as _loadSchema, findSchemaFile as _findSchemaFile } from './core/schema.js';
-import { loadEnvFile as _loadEnvFile, loadProcessEnv as _loadProcessEnv } from './core/loader.js';
+import {
+  loadSchema as _loadSchema,
+  loadSchemaAsync as _loadSchemaAsync,
+  findSchemaFile as _findSchemaFile,
+  resolveEnvironment as _resolveEnvironment,
+  resolveEnvironmentName as _resolveEnvironmentName,
+} from './core/schema.js';
+import type { LoadSchemaResult } from './core/schema.js';
+import type { EnvCascadeResult } from './core/loader.js';
+import {
+  loadEnvCascade as _loadEnvCascade,
+  loadProcessEnv as _loadProcessEnv,
+  PROCESS_ENV_SOURCE as _PROCESS_ENV_SOURCE,
+} from './core/loader.js';
 import { validate as _validate } from './core/validator.js';
-import type { ValidationResult } from './types/index.js';
+import type { ParsedValue, ValidationResult } from './types/index.js';
+
+export interface ValidateEnvOptions {
+  schemaPath?: string;
+  envPath?: string | string[]; // Default: .env, .env.local, .env.<NODE_ENV>, .env.<NODE_ENV>.local
+  useProcessEnv?: boolean; // Without envPath, only process.env is validated
+  strict?: boolean;
+  environment?: string;
+  expand?: boolean;
+  bail?: boolean; // Stop at the first failing constraint of each variable
+}
+
+export type GuardEnvOptions = Omit<ValidateEnvOptions, 'strict'>;
+
+export type ValidateEnvResult = ValidationResult & {
+  schemaPath?: string;
+  sources?: Record<string, string>;
+};
 
 /**
- * Validate environment variables in one call
+ * Validate environment variables in one call. JSON, YAML and TOML schemas only;
+ * use `validateEnvAsync` for JavaScript and TypeScript schemas.
  *
  * @example
  * ```typescript
@@ -66,22 +162,42 @@ import type { ValidationResult } from './types/index.js';
  * const port = result.parsed.PORT; // number
  * ```
  */
-export function validateEnv(options: {
-  schemaPath?: string;
-  envPath?: string;
-  useProcessEnv?: boolean;
-  strict?: boolean;
-} = {}): ValidationResult & { schemaPath?: string } {
-  // Find schema
+export function validateEnv(options: ValidateEnvOptions = {}): ValidateEnvResult {
   const schemaPath = _findSchemaFile(options.schemaPath);
+  return validateWithSchema(schemaPath, schemaPath ? _loadSchema(schemaPath) : undefined, options);
+}
 
-  if (!schemaPath) {
+/**
+ * Validate environment variables in one call, with schemas of any format
+ *
+ * @example
+ * ```typescript
+ * import { validateEnvAsync } from 'env-guardian-cli';
+ *
+ * const result = await validateEnvAsync({ schemaPath: 'env.schema.ts' });
+ * ```
+ */
+export async function validateEnvAsync(
+  options: ValidateEnvOptions = {}
+): Promise<ValidateEnvResult> {
+  const schemaPath = _findSchemaFile(options.schemaPath);
+  const schemaResult = schemaPath ? await _loadSchemaAsync(schemaPath) : undefined;
+  return validateWithSchema(schemaPath, schemaResult, options);
+}
+
+function validateWithSchema(
+  schemaPath: string | null,
+  schemaResult: LoadSchemaResult | undefined,
+  options: ValidateEnvOptions
+): ValidateEnvResult {
+  if (!schemaPath || !schemaResult) {
     return {
       valid: false,
       errors: [
         {
           variable: '_schema',
           message: 'No schema file found. Run "npx env-guardian-cli init" to create one.',
+          code: 'EG6001',
           type: 'missing',
         },
       ],
@@ -90,9 +206,6 @@ export function validateEnv(options: {
     };
   }
 
-  // Load schema
-  const schemaResult = _loadSchema(schemaPath);
-
   if (!schemaResult.success || !schemaResult.schema) {
     return {
       valid: false,
@@ -100,6 +213,7 @@ export function validateEnv(options: {
         {
           variable: '_schema',
           message: schemaResult.error || 'Failed to load schema',
+          code: schemaResult.code ?? 'EG6004',
           type: 'missing',
         },
       ],
@@ -109,31 +223,52 @@ export function validateEnv(options: {
     };
   }
 
-  // Load env
-  let env: Record<string, string> = {};
+  // Load env: process.env alone with useProcessEnv, otherwise the .env cascade
+  // (or envPath files), layered over process.env when both are requested
+  const cascade =
+    options.useProcessEnv && options.envPath === undefined
+      ? loadProcessEnvOnly()
+      : _loadEnvCascade({
+          files: options.envPath === undefined ? undefined : [options.envPath].flat(),
+          environment: _resolveEnvironmentName(options.environment),
+          processEnv: options.useProcessEnv,
+        });
+  const env = cascade.env;
 
-  if (options.useProcessEnv) {
-    env = _loadProcessEnv();
-  }
-
-  if (options.envPath || !options.useProcessEnv) {
-    const envResult = _loadEnvFile(options.envPath || '.env');
-    if (envResult.success) {
-      env = { ...env, ...envResult.env };
-    }
-  }
+  // Apply environment overrides
+  const environment = _resolveEnvironmentName(options.environment, { ...process.env, ...env });
+  const schema = _resolveEnvironment(schemaResult.schema, environment);
 
   // Validate
-  const result = _validate(schemaResult.schema, env, { strict: options.strict });
+  const result = _validate(schema, env, {
+    strict: options.strict,
+    expand: options.expand,
+    fallbackEnv: process.env,
+    bail: options.bail,
+  });
 
   return {
     ...result,
+    // Point errors at the file and line that set the value
+    errors: result.errors.map((error) =>
+      cascade.locations[error.variable]
+        ? { ...error, location: cascade.locations[error.variable] }
+        : error
+    ),
     schemaPath,
+    sources: cascade.sources,
   };
 }
 
+function loadProcessEnvOnly(): Pick<EnvCascadeResult, 'env' | 'sources' | 'locations'> {
+  const env = _loadProcessEnv();
+  const sources = Object.fromEntries(Object.keys(env).map((key) => [key, _PROCESS_ENV_SOURCE]));
+  return { env, sources, locations: {} };
+}
+
 /**
- * Guard function - throws if env is invalid
+ * Guard function - throws if env is invalid. JSON, YAML and TOML schemas only;
+ * use `guardEnvAsync` for JavaScript and TypeScript schemas.
  *
  * @example
  * ```typescript
@@ -146,15 +281,29 @@ export function validateEnv(options: {
  * console.log(env.DATABASE_URL); // typed!
  * ```
  */
-export function guardEnv<T extends Record<string, unknown> = Record<string, string | number | boolean>>(
-  options: {
-    schemaPath?: string;
-    envPath?: string;
-    useProcessEnv?: boolean;
-  } = {}
+export function guardEnv<T extends Record<string, unknown> = Record<string, ParsedValue>>(
+  options: GuardEnvOptions = {}
 ): T {
-  const result = validateEnv(options);
+  return toGuardedEnv<T>(validateEnv(options));
+}
+
+/**
+ * Guard function for schemas of any format - rejects if env is invalid
+ *
+ * @example
+ * ```typescript
+ * import { guardEnvAsync } from 'env-guardian-cli';
+ *
+ * const env = await guardEnvAsync({ schemaPath: 'env.schema.ts' });
+ * ```
+ */
+export async function guardEnvAsync<
+  T extends Record<string, unknown> = Record<string, ParsedValue>,
+>(options: GuardEnvOptions = {}): Promise<T> {
+  return toGuardedEnv<T>(await validateEnvAsync(options));
+}
 
+function toGuardedEnv<T>(result: ValidateEnvResult): T {
   if (!result.valid) {
     const errorMessages = result.errors.map((e) => `  - ${e.variable}: ${e.message}`).join('\n');
     throw new Error(`Environment validation failed:\n${errorMessages}`);
@@ -4,7 +4,14 @@ import { z } from 'zod';
 // Schema Types
 // ============================================
 
-export const VariableTypeEnum = z.enum(['string', 'number', 'boolean']);
+export const VariableTypeEnum = z.enum([
+  'string',
+  'number',
+  'boolean',
+  'array',
+  'duration',
+  'bytes',
+]);
 export type VariableType = z.infer<typeof VariableTypeEnum>;
 
 export const StringFormatEnum = z.enum([
@@ -21,29 +28,300 @@ export type StringFormat = z.infer<typeof StringFormatEnum>;
 export const NumberFormatEnum = z.enum(['port', 'positive', 'integer', 'percentage']);
 export type NumberFormat = z.infer<typeof NumberFormatEnum>;
 
+const ConditionValue = z.union([z.string(), z.number(), z.boolean()]);
+
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+export const JsonValueSchema: z.ZodType<JsonValue> = z.lazy(() =>
+  z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.null(),
+    z.array(JsonValueSchema),
+    z.record(JsonValueSchema),
+  ])
+);
+
+const JsonSchemaTypeEnum = z.enum([
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'object',
+  'array',
+  'null',
+]);
+
+// Subset of JSON Schema supported for `json` variables
+export interface JsonSchema {
+  type?: z.infer<typeof JsonSchemaTypeEnum> | Array<z.infer<typeof JsonSchemaTypeEnum>>;
+  description?: string;
+  enum?: JsonValue[];
+  const?: JsonValue;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+}
+
+// A JavaScript regular expression source
+const RegexPattern = z.string().refine((value) => {
+  try {
+    new RegExp(value);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid regular expression');
+
+export const JsonSchemaDefinition: z.ZodType<JsonSchema> = z.lazy(() =>
+  z.object({
+    type: z.union([JsonSchemaTypeEnum, z.array(JsonSchemaTypeEnum)]).optional(),
+    description: z.string().optional(),
+    enum: z.array(JsonValueSchema).optional(),
+    const: JsonValueSchema.optional(),
+    properties: z.record(JsonSchemaDefinition).optional(),
+    required: z.array(z.string()).optional(),
+    additionalProperties: z.union([z.boolean(), JsonSchemaDefinition]).optional(),
+    items: JsonSchemaDefinition.optional(),
+    minItems: z.number().optional(),
+    maxItems: z.number().optional(),
+    minimum: z.number().optional(),
+    maximum: z.number().optional(),
+    minLength: z.number().optional(),
+    maxLength: z.number().optional(),
+    pattern: RegexPattern.optional(),
+    anyOf: z.array(JsonSchemaDefinition).optional(),
+  })
+);
+
+// Item spec for `array` variables
+export const ArrayItemSchema = z.object({
+  type: z.enum(['string', 'number', 'boolean', 'duration', 'bytes']).default('string'),
+  format: z.string().optional(),
+  enum: z.array(z.string()).optional(),
+  pattern: z.string().optional(),
+});
+
+export type ArrayItem = z.infer<typeof ArrayItemSchema>;
+
+// Matches when every given check holds for the referenced variable
+export const VariableConditionSchema = z.object({
+  variable: z.string(),
+  equals: ConditionValue.optional(),
+  in: z.array(ConditionValue).optional(),
+  present: z.boolean().optional(),
+  absent: z.boolean().optional(),
+  compare: z.enum(['raw', 'parsed']).optional(), // Default: raw
+});
+
+export type VariableCondition = z.infer<typeof VariableConditionSchema>;
+
+// A single condition, or a list where any match counts
+const ConditionList = z.union([VariableConditionSchema, z.array(VariableConditionSchema)]);
+
+// ISO date such as "2025-06-30"; deprecations become errors from this day on
+const RemovalDate = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), 'Expected a date such as "2025-06-30"');
+
+// `true`, a message, or a message with a removal date
+export const DeprecationSchema = z.union([
+  z.boolean(),
+  z.string(),
+  z.object({
+    message: z.string().optional(),
+    removalDate: RemovalDate.optional(),
+  }),
+]);
+
+export type Deprecation = z.infer<typeof DeprecationSchema>;
+
+// Legacy name still accepted for a variable
+export const AliasSchema = z.union([
+  z.string(),
+  z.object({
+    name: z.string(),
+    removalDate: RemovalDate.optional(),
+  }),
+]);
+
+export type Alias = z.infer<typeof AliasSchema>;
+
 export const VariableSchema = z.object({
   type: VariableTypeEnum,
   format: z.string().optional(),
   required: z.boolean().default(true),
-  default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  default: z
+    .union([
+      z.string(),
+      z.number(),
+      z.boolean(),
+      z.array(z.union([z.string(), z.number(), z.boolean()])),
+    ])
+    .optional(),
   description: z.string().optional(),
   enum: z.array(z.string()).optional(),
   pattern: z.string().optional(), // Custom regex pattern
-  min: z.number().optional(), // For numbers
-  max: z.number().optional(), // For numbers
+  min: z.union([z.number(), z.string()]).optional(), // For numbers, durations and sizes ("5s", "1MB")
+  max: z.union([z.number(), z.string()]).optional(), // For numbers, durations and sizes ("5s", "1MB")
   minLength: z.number().optional(), // For strings
   maxLength: z.number().optional(), // For strings
+  separator: z.string().optional(), // For arrays (default: ",")
+  items: ArrayItemSchema.optional(), // For arrays
+  minItems: z.number().optional(), // For arrays
+  maxItems: z.number().optional(), // For arrays
+  unique: z.boolean().optional(), // For arrays
+  jsonSchema: JsonSchemaDefinition.optional(), // For format "json"
+  sensitive: z.boolean().optional(), // Redact the value in messages and output
+  deprecated: DeprecationSchema.optional(),
+  replacedBy: z.string().optional(), // Variable to use instead of a deprecated one
+  aliases: z.array(AliasSchema).optional(), // Legacy names, read when the variable is unset
+  requiredIf: ConditionList.optional(), // Overrides `required`
+  requiredUnless: ConditionList.optional(), // Overrides `required`
 });
 
 export type Variable = z.infer<typeof VariableSchema>;
 
-export const EnvSchemaDefinition = z.object({
-  $schema: z.string().optional(),
-  variables: z.record(VariableSchema),
+// Spec shared by every key matching a pattern; families are optional unless marked required
+export const PatternVariableSchema = VariableSchema.extend({
+  required: z.boolean().default(false), // At least one matching key must be set
 });
 
+export type PatternVariable = z.infer<typeof PatternVariableSchema>;
+
+// Per-environment overrides only carry the fields they change
+export const VariableOverrideSchema = VariableSchema.partial();
+
+export type VariableOverride = z.infer<typeof VariableOverrideSchema>;
+
+const VariableGroup = z.array(z.string()).min(2);
+
+// Cross-variable constraints, checked after each variable is parsed
+export const RuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('compare'),
+    left: z.string(),
+    operator: z.enum(['<', '<=', '>', '>=', '==', '!=']),
+    right: z.union([z.string(), z.number()]), // Variable name or number
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('mutuallyExclusive'), // At most one set
+    variables: VariableGroup,
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('oneOf'), // Exactly one set
+    variables: VariableGroup,
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('allOrNone'), // All set or none set
+    variables: VariableGroup,
+    message: z.string().optional(),
+  }),
+]);
+
+export type Rule = z.infer<typeof RuleSchema>;
+
+export const EnvSchemaDefinition = z
+  .object({
+    $schema: z.string().optional(),
+    extends: z.union([z.string(), z.array(z.string())]).optional(),
+    expand: z.boolean().optional(), // Expand ${VAR} references before validating
+    variables: z.record(VariableSchema),
+    patternVariables: z.record(PatternVariableSchema).optional(), // Glob ("FEATURE_*") or "/regex/" keys
+    environments: z.record(z.record(VariableOverrideSchema)).optional(),
+    rules: z.array(RuleSchema).optional(),
+  })
+  .superRefine((schema, ctx) => {
+    (schema.rules ?? []).forEach((rule, index) => {
+      const referenced =
+        rule.type === 'compare'
+          ? [rule.left, ...(typeof rule.right === 'string' ? [rule.right] : [])]
+          : rule.variables;
+
+      for (const name of referenced) {
+        if (!(name in schema.variables)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['rules', index],
+            message: `Rule references unknown variable "${name}"`,
+          });
+        }
+      }
+    });
+
+    for (const [name, spec] of Object.entries(schema.variables)) {
+      if (spec.replacedBy !== undefined && !(spec.replacedBy in schema.variables)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['variables', name, 'replacedBy'],
+          message: `replacedBy references unknown variable "${spec.replacedBy}"`,
+        });
+      }
+
+      (spec.aliases ?? []).forEach((alias, index) => {
+        const aliasName = typeof alias === 'string' ? alias : alias.name;
+
+        if (aliasName in schema.variables) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['variables', name, 'aliases', index],
+            message: `Alias "${aliasName}" is also declared as a variable`,
+          });
+        }
+      });
+    }
+
+    for (const pattern of Object.keys(schema.patternVariables ?? {})) {
+      if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+        try {
+          new RegExp(pattern.slice(1, -1));
+        } catch {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['patternVariables', pattern],
+            message: `Invalid regular expression: ${pattern}`,
+          });
+        }
+      }
+    }
+
+    for (const [environment, overrides] of Object.entries(schema.environments ?? {})) {
+      for (const name of Object.keys(overrides)) {
+        if (!(name in schema.variables)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['environments', environment, name],
+            message: `Override for unknown variable "${name}"`,
+          });
+        }
+      }
+    }
+  });
+
 export type EnvSchema = z.infer<typeof EnvSchemaDefinition>;
 
+// Schema as written by users, before defaults are applied
+export type EnvSchemaInput = z.input<typeof EnvSchemaDefinition>;
+
 // ============================================
 // Validation Types
 // ============================================
@@ -51,24 +329,99 @@ export type EnvSchema = z.infer<typeof EnvSchemaDefinition>;
 export interface ValidationError {
   variable: string;
   message: string;
-  type: 'missing' | 'invalid_type' | 'invalid_format' | 'invalid_enum' | 'invalid_range';
+  code: string; // Stable diagnostic code, e.g. "EG1001" (see ERROR_CODES)
+  type:
+    | 'missing'
+    | 'invalid_type'
+    | 'invalid_format'
+    | 'invalid_enum'
+    | 'invalid_range'
+    | 'rule_violation'
+    | 'deprecated'
+    | 'unresolved_reference';
   expected?: string;
   received?: string;
+  condition?: string; // Condition that made the variable required
+  variables?: string[]; // All variables involved in a rule violation
+  pointer?: string; // JSON pointer to the failing value of a json variable
+  location?: EnvLocation; // Where the value was defined
+}
+
+export interface EnvLocation {
+  file: string;
+  line: number; // 1-based
+  column: number; // 1-based
 }
 
 export interface ValidationWarning {
   variable: string;
   message: string;
+  code: string; // Stable diagnostic code, e.g. "EG1004"
   type: 'unused' | 'default_applied' | 'deprecated';
 }
 
+// Primitives, lists and structured JSON all fit the JSON value shape
+export type ParsedValue = JsonValue;
+
 export interface ValidationResult {
   valid: boolean;
   errors: ValidationError[];
   warnings: ValidationWarning[];
-  parsed: Record<string, string | number | boolean>;
+  parsed: Record<string, ParsedValue>;
+  groups?: Record<string, Record<string, ParsedValue>>; // Pattern variable matches by pattern
 }
 
+// ============================================
+// Lint Types
+// ============================================
+
+export const LintSeverityEnum = z.enum(['off', 'warning', 'error']);
+export type LintSeverity = z.infer<typeof LintSeverityEnum>;
+
+export interface SchemaLintIssue {
+  rule: string; // Rule ID, e.g. "invalid-default"
+  code: string; // Stable diagnostic code, e.g. "EG7003"
+  severity: Exclude<LintSeverity, 'off'>;
+  message: string;
+  variable?: string;
+}
+
+export interface SchemaLintResult {
+  valid: boolean; // No error-severity issues
+  issues: SchemaLintIssue[];
+}
+
+export interface EnvLintIssue {
+  rule: string; // Rule ID, e.g. "duplicate-key"
+  code: string; // Stable diagnostic code, e.g. "EG8001"
+  severity: Exclude<LintSeverity, 'off'>;
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  fixable: boolean; // Can be fixed by --fix without changing any value
+}
+
+export interface EnvLintResult {
+  valid: boolean; // No error-severity issues
+  issues: EnvLintIssue[];
+}
+
+// Project config file (env-guardian.config.json)
+export const ConfigSchema = z.object({
+  lint: z
+    .object({
+      rules: z.record(LintSeverityEnum).optional(), // Severity per rule ID
+    })
+    .optional(),
+  lintEnv: z
+    .object({
+      rules: z.record(LintSeverityEnum).optional(), // Severity per .env lint rule ID
+    })
+    .optional(),
+});
+
+export type Config = z.infer<typeof ConfigSchema>;
+
 // ============================================
 // CLI Types
 // ============================================
@@ -77,10 +430,11 @@ export interface ValidateOptions {
   env?: string;
   schema?: string;
   strict?: boolean;
+  environment?: string;
 }
 
 export interface InitOptions {
-  format?: 'json' | 'js';
+  format?: 'json' | 'yaml' | 'toml' | 'js' | 'ts';
   output?: string;
   infer?: boolean;
 }
@@ -89,22 +443,46 @@ export interface GenerateOptions {
   schema?: string;
   output?: string;
   namespace?: boolean;
+  environment?: string;
 }
 
 export interface SyncOptions {
   schema?: string;
   output?: string;
   comments?: boolean;
+  environment?: string;
 }
 
 // ============================================
 // Configuration
 // ============================================
 
-export const DEFAULT_SCHEMA_PATHS = ['env.schema.json', 'env.schema.js', '.env.schema.json'];
+export const DEFAULT_SCHEMA_PATHS = [
+  'env.schema.json',
+  'env.schema.js',
+  'env.schema.ts',
+  'env.schema.mjs',
+  'env.schema.yaml',
+  'env.schema.yml',
+  'env.schema.toml',
+  '.env.schema.json',
+];
+
+export const DEFAULT_CONFIG_PATHS = ['env-guardian.config.json', '.envguardianrc.json'];
 
 export const DEFAULT_ENV_PATH = '.env';
 
 export const DEFAULT_TYPES_OUTPUT = 'env.d.ts';
 
+export const DEFAULT_ZOD_OUTPUT = 'env.zod.ts';
+
+export const DEFAULT_MODULE_OUTPUT = 'env.ts';
+
+export const DEFAULT_JSON_SCHEMA_OUTPUT = 'env.jsonschema.json';
+
+// Where the meta-schema for schema files (schema.json in the package) is published
+export const SCHEMA_URL = 'https://env-guardian-cli.dev/schema.json';
+
 export const DEFAULT_EXAMPLE_OUTPUT = '.env.example';
+
+export const DEFAULT_DOCS_OUTPUT = { markdown: 'ENV.md', html: 'env.html' };
@@ -0,0 +1,96 @@
+import { createRequire } from 'module';
+import * as ts from 'typescript';
+import type { ZodTypeAny } from 'zod';
+import type { EnvSchema } from '../../src/types';
+
+/** Exports of the module written by `generateEnvModule` */
+export interface GeneratedEnvModule {
+  env: Record<string, unknown>;
+  parseEnv: (source: Record<string, string | undefined>) => Record<string, unknown>;
+  EnvValidationError: new (problems: string[]) => Error & { problems: string[] };
+}
+
+/** Exports of the module written by `generateZodSchema` */
+export interface GeneratedZodModule {
+  envSchema: ZodTypeAny;
+  parseEnv: (env: Record<string, string | undefined>) => Record<string, unknown>;
+}
+
+/**
+ * Compile generated TypeScript to CommonJS and evaluate it with `env` as process.env.
+ * Imports resolve from the repo, so generated zod schemas run against the real zod.
+ */
+export function loadGenerated<T>(source: string, env: Record<string, string> = {}): T {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  });
+
+  const module = { exports: {} as T };
+  const evaluate = new Function('require', 'module', 'exports', 'process', outputText) as (
+    require: NodeRequire,
+    module: { exports: T },
+    exports: T,
+    process: { env: Record<string, string> }
+  ) => void;
+
+  evaluate(createRequire(__filename), module, module.exports, { env });
+  return module.exports;
+}
+
+/**
+ * One variable of every type and most constraints, plus conditional requirements, an alias
+ * and rules, shared by the generator tests
+ */
+export const schema: EnvSchema = {
+  variables: {
+    PORT: { type: 'number', required: true, min: 1, max: 65535 },
+    DEBUG: { type: 'boolean', required: false, default: false },
+    NODE_ENV: { type: 'string', required: true, enum: ['development', 'production'] },
+    API_URL: { type: 'string', required: false, format: 'url', aliases: ['SERVICE_URL'] },
+    TIMEOUT: { type: 'duration', required: false, max: '1m', default: '30s' },
+    UPLOAD_LIMIT: { type: 'bytes', required: false, min: '1KB' },
+    ADMINS: {
+      type: 'array',
+      required: false,
+      separator: ';',
+      unique: true,
+      minItems: 1,
+      items: { type: 'string', format: 'email' },
+    },
+    REGIONS: { type: 'array', required: false, items: { type: 'string', enum: ['eu', 'us'] } },
+    RETRIES: { type: 'array', required: false, items: { type: 'number' } },
+    CODE: { type: 'string', required: false, pattern: '^[A-Z]{3}$', minLength: 3 },
+    CONFIG: {
+      type: 'string',
+      required: false,
+      format: 'json',
+      jsonSchema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } },
+    },
+    MAIL_DRIVER: { type: 'string', required: false, enum: ['smtp', 'ses'] },
+    SMTP_PASSWORD: {
+      type: 'string',
+      required: false,
+      sensitive: true,
+      requiredIf: { variable: 'MAIL_DRIVER', equals: 'smtp' },
+    },
+    TLS_CERT: {
+      type: 'string',
+      required: false,
+      requiredIf: { variable: 'PORT', equals: 443, compare: 'parsed' },
+    },
+    DEV_TOKEN: {
+      type: 'string',
+      required: false,
+      requiredUnless: { variable: 'NODE_ENV', equals: 'production' },
+    },
+    POOL_MIN: { type: 'number', required: false },
+    POOL_MAX: { type: 'number', required: false },
+  },
+  rules: [
+    { type: 'compare', left: 'POOL_MIN', operator: '<=', right: 'POOL_MAX' },
+    { type: 'allOrNone', variables: ['POOL_MIN', 'POOL_MAX'] },
+  ],
+};
+
+/** Smallest environment that satisfies `schema` */
+export const base = { PORT: '3000', NODE_ENV: 'production' };
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateCondition,
+  describeCondition,
+  resolveRequirement,
+} from '../../src/core/conditions';
+import type { Variable } from '../../src/types';
+
+describe('conditions', () => {
+  describe('evaluateCondition', () => {
+    it('should compare raw values by default', () => {
+      const condition = { variable: 'RETRIES', equals: 3 };
+
+      expect(evaluateCondition(condition, { RETRIES: '3' }, { RETRIES: 3 })).toBe(true);
+      expect(evaluateCondition(condition, { RETRIES: '03' }, { RETRIES: 3 })).toBe(false);
+    });
+
+    it('should compare parsed values when requested', () => {
+      const condition = { variable: 'DEBUG', equals: true, compare: 'parsed' as const };
+
+      expect(evaluateCondition(condition, { DEBUG: 'yes' }, { DEBUG: true })).toBe(true);
+      expect(evaluateCondition(condition, { DEBUG: 'no' }, { DEBUG: false })).toBe(false);
+    });
+
+    it('should support in, present and absent', () => {
+      expect(evaluateCondition({ variable: 'S', in: ['s3', 'gcs'] }, { S: 'gcs' }, {})).toBe(true);
+      expect(evaluateCondition({ variable: 'S', present: true }, { S: '' }, {})).toBe(false);
+      expect(evaluateCondition({ variable: 'S', absent: true }, {}, {})).toBe(true);
+    });
+  });
+
+  describe('describeCondition', () => {
+    it('should describe each kind of check', () => {
+      expect(describeCondition({ variable: 'MAIL_DRIVER', equals: 'smtp' })).toBe(
+        'MAIL_DRIVER = smtp'
+      );
+      expect(describeCondition({ variable: 'STORAGE', in: ['s3', 'gcs'] })).toBe(
+        'STORAGE in [s3, gcs]'
+      );
+      expect(describeCondition({ variable: 'TOKEN', absent: true })).toBe('TOKEN is not set');
+    });
+  });
+
+  describe('resolveRequirement', () => {
+    const spec: Variable = {
+      type: 'string',
+      required: true,
+      requiredIf: [
+        { variable: 'STORAGE', equals: 's3' },
+        { variable: 'BACKUP', equals: 's3' },
+      ],
+    };
+
+    it('should require when any requiredIf condition matches', () => {
+      expect(resolveRequirement(spec, { BACKUP: 's3' }, {})).toEqual({
+        required: true,
+        reason: 'required when BACKUP = s3',
+      });
+      expect(resolveRequirement(spec, { STORAGE: 'local' }, {})).toEqual({ required: false });
+    });
+
+    it('should require unless a requiredUnless condition matches', () => {
+      const unless: Variable = {
+        type: 'string',
+        required: true,
+        requiredUnless: { variable: 'AUTH_TOKEN', present: true },
+      };
+
+      expect(resolveRequirement(unless, {}, {})).toEqual({
+        required: true,
+        reason: 'required unless AUTH_TOKEN is set',
+      });
+      expect(resolveRequirement(unless, { AUTH_TOKEN: 'x' }, {}).required).toBe(false);
+    });
+  });
+});
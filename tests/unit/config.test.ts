@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig } from '../../src/core/config';
+
+describe('config', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-guardian-config-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should return an empty config when no file exists', () => {
+    expect(loadConfig()).toEqual({ success: true, config: {} });
+  });
+
+  it('should load lint rule severities', () => {
+    fs.writeFileSync(
+      path.join(tmpDir, 'env-guardian.config.json'),
+      JSON.stringify({ lint: { rules: { 'require-description': 'error' } } })
+    );
+
+    const result = loadConfig();
+
+    expect(result.success).toBe(true);
+    expect(result.config.lint?.rules).toEqual({ 'require-description': 'error' });
+  });
+
+  it('should reject invalid severities', () => {
+    fs.writeFileSync(
+      path.join(tmpDir, '.envguardianrc.json'),
+      JSON.stringify({ lint: { rules: { 'require-description': 'fatal' } } })
+    );
+
+    const result = loadConfig();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('lint.rules.require-description');
+  });
+
+  it('should fail for a missing explicit path', () => {
+    expect(loadConfig('missing.json').success).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkDeprecated,
+  describeDeprecation,
+  getDeprecation,
+  resolveAliases,
+} from '../../src/core/deprecations';
+import { EnvSchema, Variable } from '../../src/types';
+
+const now = new Date('2025-03-01');
+
+describe('deprecations', () => {
+  describe('getDeprecation', () => {
+    it('should normalize the deprecated option', () => {
+      const spec: Variable = { type: 'string', required: false };
+
+      expect(getDeprecation(spec)).toBeUndefined();
+      expect(getDeprecation({ ...spec, deprecated: false })).toBeUndefined();
+      expect(getDeprecation({ ...spec, deprecated: true })).toEqual({});
+      expect(getDeprecation({ ...spec, deprecated: 'Unused' })).toEqual({ message: 'Unused' });
+    });
+  });
+
+  describe('describeDeprecation', () => {
+    it('should name the replacement and removal date', () => {
+      expect(
+        describeDeprecation(
+          'DB_URL',
+          { replacedBy: 'DATABASE_URL', removalDate: '2025-06-30' },
+          now
+        )
+      ).toBe('DB_URL is deprecated, use DATABASE_URL instead (removal on 2025-06-30)');
+    });
+
+    it('should report removal once the date has passed', () => {
+      expect(describeDeprecation('DB_URL', { removalDate: '2025-01-01' }, now)).toBe(
+        'DB_URL was removed on 2025-01-01'
+      );
+    });
+  });
+
+  describe('resolveAliases', () => {
+    const schema: EnvSchema = {
+      variables: {
+        DATABASE_URL: {
+          type: 'string',
+          required: true,
+          aliases: ['DB_URL', { name: 'POSTGRES_URL', removalDate: '2025-01-01' }],
+        },
+      },
+    };
+
+    it('should copy alias values to the new name with a warning', () => {
+      const result = resolveAliases(schema, { DB_URL: 'postgres://a' }, now);
+
+      expect(result.env.DATABASE_URL).toBe('postgres://a');
+      expect(result.warnings).toEqual([
+        {
+          variable: 'DB_URL',
+          message: 'DB_URL is deprecated, use DATABASE_URL instead',
+          code: 'EG4004',
+          type: 'deprecated',
+        },
+      ]);
+    });
+
+    it('should prefer the new name when both are set', () => {
+      const result = resolveAliases(schema, { DB_URL: 'old', DATABASE_URL: 'new' }, now);
+
+      expect(result.env.DATABASE_URL).toBe('new');
+      expect(result.warnings).toHaveLength(1);
+    });
+
+    it('should reject aliases past their removal date', () => {
+      const result = resolveAliases(schema, { POSTGRES_URL: 'postgres://a' }, now);
+
+      expect(result.env.DATABASE_URL).toBeUndefined();
+      expect(result.errors[0]).toMatchObject({ variable: 'POSTGRES_URL', type: 'deprecated' });
+    });
+  });
+
+  describe('checkDeprecated', () => {
+    const spec: Variable = {
+      type: 'string',
+      required: false,
+      deprecated: { message: 'Sessions moved to Redis', removalDate: '2025-06-30' },
+      replacedBy: 'REDIS_URL',
+    };
+
+    it('should ignore unset variables', () => {
+      expect(checkDeprecated('SESSION_DIR', spec, undefined, now)).toEqual({});
+    });
+
+    it('should warn before and fail after the removal date', () => {
+      expect(checkDeprecated('SESSION_DIR', spec, '/tmp', now).warning?.message).toBe(
+        'SESSION_DIR is deprecated, use REDIS_URL instead, Sessions moved to Redis (removal on 2025-06-30)'
+      );
+      expect(
+        checkDeprecated('SESSION_DIR', spec, '/tmp', new Date('2025-07-01')).error
+      ).toMatchObject({ type: 'deprecated', expected: 'REDIS_URL' });
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DOCS_END_MARKER,
+  DOCS_START_MARKER,
+  generateDocs,
+  generateHtmlDocs,
+  generateMarkdownDocs,
+  injectDocs,
+  writeDocsFile,
+} from '../../src/core/docs';
+import type { EnvSchema } from '../../src/types';
+
+const schema: EnvSchema = {
+  variables: {
+    PORT: { type: 'number', required: false, default: 3000, min: 1, max: 65535 },
+    NODE_ENV: { type: 'string', required: true, enum: ['development', 'production'] },
+    DATABASE_URL: { type: 'string', required: true, format: 'url', description: 'Main | replica' },
+    API_KEY: { type: 'string', required: false, sensitive: true, default: 'dev-key' },
+    SMTP_PASSWORD: {
+      type: 'string',
+      required: true,
+      sensitive: true,
+      requiredIf: { variable: 'MAIL_DRIVER', equals: 'smtp' },
+    },
+    HOSTS: {
+      type: 'array',
+      required: false,
+      separator: ';',
+      unique: true,
+      minItems: 1,
+      items: { type: 'string', format: 'email' },
+    },
+    DB_URL: {
+      type: 'string',
+      required: false,
+      deprecated: { removalDate: '2026-01-01' },
+      replacedBy: 'DATABASE_URL',
+    },
+    NAME: { type: 'string', required: false, description: 'Shown as <b>title</b>' },
+  },
+  patternVariables: {
+    'FEATURE_*': { type: 'boolean', required: false, description: 'Feature flags' },
+  },
+};
+
+describe('docs', () => {
+  describe('generateMarkdownDocs', () => {
+    const rows = generateMarkdownDocs(schema).split('\n');
+    const row = (name: string) => rows.find((line) => line.startsWith(`| \`${name}\``));
+
+    it('should render a header row and one row per variable', () => {
+      expect(rows[0]).toBe(
+        '| Variable | Type | Format | Required | Allowed values | Constraints | Description |'
+      );
+      expect(rows).toHaveLength(2 + 9);
+    });
+
+    it('should show defaults, bounds and allowed values', () => {
+      expect(row('PORT')).toBe(
+        '| `PORT` | number |  | Default: `3000` |  | `>= 1`, `<= 65535` |  |'
+      );
+      expect(row('NODE_ENV')).toContain('| Yes | `development`, `production` |');
+    });
+
+    it('should mark secrets and redact their defaults', () => {
+      expect(row('API_KEY')).toContain('`API_KEY` (secret)');
+      expect(row('API_KEY')).toContain('Default: `[REDACTED]`');
+      expect(generateMarkdownDocs(schema)).not.toContain('dev-key');
+    });
+
+    it('should describe conditional requirements', () => {
+      expect(row('SMTP_PASSWORD')).toContain('| When MAIL_DRIVER = smtp |');
+    });
+
+    it('should describe list constraints', () => {
+      expect(row('HOSTS')).toBe(
+        '| `HOSTS` | array of string |  | No |  | separated by `;`, at least 1 item(s), unique items, items formatted as `email` |  |'
+      );
+    });
+
+    it('should describe deprecations', () => {
+      expect(row('DB_URL')).toContain(
+        'Deprecated, use `DATABASE_URL` instead (removal on 2026-01-01).'
+      );
+    });
+
+    it('should escape pipes in cells', () => {
+      expect(row('DATABASE_URL')).toContain('| Main \\| replica |');
+    });
+
+    it('should document pattern variables', () => {
+      expect(row('FEATURE_*')).toContain('| boolean |');
+    });
+  });
+
+  describe('generateHtmlDocs', () => {
+    const html = generateHtmlDocs(schema);
+
+    it('should produce a standalone page', () => {
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain('<style>');
+      expect(html.trimEnd()).toMatch(/<\/html>$/);
+    });
+
+    it('should escape HTML in cells', () => {
+      expect(html).toContain('Shown as &lt;b&gt;title&lt;/b&gt;');
+      expect(html).toContain('<code>&gt;= 1</code>');
+    });
+
+    it('should mark secrets', () => {
+      expect(html).toContain('<code>API_KEY</code> <span class="secret">secret</span>');
+    });
+  });
+
+  describe('generateDocs', () => {
+    it('should add a heading to standalone Markdown only', () => {
+      expect(generateDocs(schema)).toMatch(/^# Environment variables\n/);
+      expect(generateDocs(schema, { inject: true })).toBe(generateMarkdownDocs(schema));
+    });
+
+    it('should only return the HTML table when injecting', () => {
+      const table = generateDocs(schema, { format: 'html', inject: true });
+
+      expect(table).toMatch(/^<table>/);
+      expect(table).not.toContain('<html');
+    });
+  });
+
+  describe('injectDocs', () => {
+    it('should replace the content between the markers', () => {
+      const content = `# App\n\n${DOCS_START_MARKER}\nold\n${DOCS_END_MARKER}\n\nFooter\n`;
+
+      expect(injectDocs(content, 'new\n')).toBe(
+        `# App\n\n${DOCS_START_MARKER}\n\nnew\n\n${DOCS_END_MARKER}\n\nFooter\n`
+      );
+    });
+
+    it('should return undefined when a marker is missing', () => {
+      expect(injectDocs('# App\n', 'new')).toBeUndefined();
+      expect(injectDocs(`${DOCS_END_MARKER}\n${DOCS_START_MARKER}\n`, 'new')).toBeUndefined();
+    });
+  });
+
+  describe('writeDocsFile', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-guardian-docs-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should write docs and report unchanged output', () => {
+      const output = path.join(tmpDir, 'ENV.md');
+
+      expect(writeDocsFile(schema, output)).toMatchObject({ success: true, changed: true });
+      expect(fs.readFileSync(output, 'utf-8')).toBe(generateDocs(schema));
+      expect(writeDocsFile(schema, output)).toMatchObject({ success: true, changed: false });
+    });
+
+    it('should inject docs into an existing file', () => {
+      const readme = path.join(tmpDir, 'README.md');
+      fs.writeFileSync(readme, `# App\n\n${DOCS_START_MARKER}\n${DOCS_END_MARKER}\n`);
+
+      expect(writeDocsFile(schema, readme, { inject: true })).toMatchObject({ success: true });
+      expect(fs.readFileSync(readme, 'utf-8')).toContain(
+        `${DOCS_START_MARKER}\n\n${generateMarkdownDocs(schema)}\n\n${DOCS_END_MARKER}`
+      );
+    });
+
+    it('should report out of date docs in check mode without writing', () => {
+      const readme = path.join(tmpDir, 'README.md');
+      const content = `${DOCS_START_MARKER}\nold\n${DOCS_END_MARKER}\n`;
+      fs.writeFileSync(readme, content);
+
+      const stale = writeDocsFile(schema, readme, { inject: true, check: true });
+      expect(stale).toMatchObject({ success: true, changed: true });
+      expect(fs.readFileSync(readme, 'utf-8')).toBe(content);
+
+      writeDocsFile(schema, readme, { inject: true });
+      const fresh = writeDocsFile(schema, readme, { inject: true, check: true });
+      expect(fresh).toMatchObject({ success: true, changed: false });
+    });
+
+    it('should only apply environment overrides that are asked for in check mode', () => {
+      const output = path.join(tmpDir, 'ENV.md');
+      const withEnvironments: EnvSchema = {
+        ...schema,
+        environments: { production: { PORT: { default: 8080 } } },
+      };
+      vi.stubEnv('NODE_ENV', 'production');
+
+      writeDocsFile(withEnvironments, output);
+      expect(fs.readFileSync(output, 'utf-8')).toContain('Default: `3000`');
+      expect(writeDocsFile(withEnvironments, output, { check: true })).toMatchObject({
+        changed: false,
+      });
+
+      const production = writeDocsFile(withEnvironments, output, {
+        check: true,
+        environment: 'production',
+      });
+      expect(production).toMatchObject({ success: true, changed: true });
+      vi.unstubAllEnvs();
+    });
+
+    it('should fail when injecting into a file without markers', () => {
+      const readme = path.join(tmpDir, 'README.md');
+      fs.writeFileSync(readme, '# App\n');
+
+      const result = writeDocsFile(schema, readme, { inject: true });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(DOCS_START_MARKER);
+    });
+
+    it('should fail when injecting into a missing file', () => {
+      const result = writeDocsFile(schema, path.join(tmpDir, 'README.md'), { inject: true });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('File not found');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { lintEnvFile, fixEnvFile } from '../../src/core/env-linter';
+import { parseEnvFile, toEnvRecord } from '../../src/core/env-parser';
+
+const rulesOf = (content: string, rules?: Parameters<typeof lintEnvFile>[1]['rules']) =>
+  lintEnvFile(content, { rules }).issues.map((issue) => `${issue.line}:${issue.rule}`);
+
+describe('env-linter', () => {
+  it('should accept a clean file', () => {
+    const content = '# App\nexport PORT=3000\nNAME="a # b" # comment\nEMPTY=\n';
+
+    expect(lintEnvFile(content)).toEqual({ valid: true, issues: [] });
+  });
+
+  it('should report parse problems as errors', () => {
+    const result = lintEnvFile('A=1\nnot valid\nA=2\nB="open\n');
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => [issue.line, issue.column, issue.rule])).toEqual([
+      [2, 1, 'invalid-line'],
+      [3, 1, 'duplicate-key'],
+      [4, 3, 'unbalanced-quotes'],
+    ]);
+  });
+
+  it('should report formatting hazards with positions', () => {
+    const content = 'KEY = value\nTRAILING=value  \nCOLOR=#fff\nlower=1\nPASS=abc#123\n';
+
+    expect(lintEnvFile(content).issues.map((i) => [i.line, i.column, i.rule])).toEqual([
+      [1, 1, 'spaces-around-equals'],
+      [2, 15, 'trailing-whitespace'],
+      [3, 7, 'unquoted-hash'],
+      [4, 1, 'lowercase-key'],
+      [5, 9, 'unquoted-hash'],
+    ]);
+  });
+
+  it('should not flag comments after whitespace or empty values', () => {
+    expect(rulesOf('A=1 # note\nB= # empty\nC=   \n')).toEqual([]);
+  });
+
+  it('should report CRLF line endings and byte order marks once', () => {
+    expect(rulesOf('\uFEFFA=1\r\nB=2\r\n')).toEqual(['1:crlf-line-endings', '1:bom']);
+    expect(rulesOf('A=1\nB=2\r\n')).toEqual(['2:crlf-line-endings']);
+  });
+
+  it('should apply severity overrides', () => {
+    const result = lintEnvFile('lower=1\nA=1\nA=2\n', {
+      rules: { 'lowercase-key': 'error', 'duplicate-key': 'off' },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      {
+        rule: 'lowercase-key',
+        code: 'EG8007',
+        severity: 'error',
+        message: 'Key lower is not uppercase',
+        line: 1,
+        column: 1,
+        fixable: false,
+      },
+    ]);
+  });
+
+  describe('fixEnvFile', () => {
+    it('should fix safe issues without changing values', () => {
+      const content = '\uFEFFA=1\r\nKEY = value  \r\n# keep\r\nA=2\r\nNOTE = # comment\r\n';
+      const result = fixEnvFile(content);
+
+      expect(result.content).toBe('KEY=value\n# keep\nA=2\nNOTE= # comment\n');
+      expect(result.fixed).toBe(6);
+      expect(toEnvRecord(parseEnvFile(result.content))).toEqual(toEnvRecord(parseEnvFile(content)));
+    });
+
+    it('should leave unfixable issues and disabled rules alone', () => {
+      const content = 'PASS=abc#123\nlower=1\nA=1\r\n';
+      const result = fixEnvFile(content, { rules: { 'crlf-line-endings': 'off' } });
+
+      expect(result).toEqual({ content, fixed: 0 });
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseEnvFile,
+  stringifyEnvFile,
+  toEnvRecord,
+  findEnvEntry,
+  setEnvValue,
+  removeEnvEntry,
+} from '../../src/core/env-parser';
+
+const SAMPLE = [
+  '# Database',
+  'export DATABASE_URL="postgres://localhost/app"',
+  '',
+  "  NAME='single # not a comment'",
+  'PORT=3000 # inline comment',
+  'CERT="-----BEGIN-----',
+  'abc',
+  '-----END-----"',
+  'EMPTY=',
+  'TEMPLATE=`a "quoted" value`',
+  '',
+].join('\n');
+
+describe('env-parser', () => {
+  describe('parseEnvFile', () => {
+    it('should parse entries, comments and blank lines with positions', () => {
+      const document = parseEnvFile(SAMPLE);
+
+      expect(document.nodes.map((node) => node.type)).toEqual([
+        'comment',
+        'entry',
+        'blank',
+        'entry',
+        'entry',
+        'entry',
+        'entry',
+        'entry',
+      ]);
+      expect(document.issues).toEqual([]);
+
+      expect(findEnvEntry(document, 'DATABASE_URL')).toMatchObject({
+        value: 'postgres://localhost/app',
+        quote: '"',
+        exported: true,
+        line: 2,
+        column: 8,
+      });
+      expect(findEnvEntry(document, 'NAME')).toMatchObject({
+        value: 'single # not a comment',
+        quote: "'",
+        line: 4,
+        column: 3,
+      });
+      expect(findEnvEntry(document, 'PORT')).toMatchObject({
+        value: '3000',
+        comment: '# inline comment',
+      });
+      expect(findEnvEntry(document, 'CERT')).toMatchObject({
+        value: '-----BEGIN-----\nabc\n-----END-----',
+        line: 6,
+      });
+      expect(findEnvEntry(document, 'EMPTY')).toMatchObject({ value: '', line: 9 });
+      expect(findEnvEntry(document, 'TEMPLATE')).toMatchObject({
+        value: 'a "quoted" value',
+        quote: '`',
+        line: 10,
+      });
+    });
+
+    it('should decode escapes in double quotes only', () => {
+      const env = toEnvRecord(parseEnvFile('A="line1\\nline2 \\"q\\""\nB=\'raw\\n\'\nC=raw\\n'));
+
+      expect(env).toEqual({ A: 'line1\nline2 "q"', B: 'raw\\n', C: 'raw\\n' });
+    });
+
+    it('should keep \\t as written in double quotes, like dotenv', () => {
+      expect(toEnvRecord(parseEnvFile('A="tab\\there"\n'))).toEqual({ A: 'tab\\there' });
+    });
+
+    it('should report duplicates and keep the last value', () => {
+      const document = parseEnvFile('A=1\nB=2\nA=3\n');
+
+      expect(toEnvRecord(document)).toEqual({ A: '3', B: '2' });
+      expect(document.issues).toEqual([
+        {
+          type: 'duplicate',
+          code: 'EG8001',
+          message: 'Duplicate key A (first defined on line 1)',
+          line: 3,
+          column: 1,
+          key: 'A',
+        },
+      ]);
+    });
+
+    it('should report syntax errors without dropping lines', () => {
+      const content = 'not an assignment\nA="unterminated\nB="ok" trailing\n';
+      const document = parseEnvFile(content);
+
+      expect(document.issues.map((issue) => [issue.line, issue.message])).toEqual([
+        [1, 'Expected KEY=value'],
+        [2, 'Unterminated " quote in value of A'],
+        [3, 'Unexpected text after closing quote of B'],
+      ]);
+      expect(toEnvRecord(document)).toEqual({ A: '"unterminated', B: 'ok' });
+      expect(stringifyEnvFile(document)).toBe(content);
+    });
+
+    it('should ignore a byte order mark', () => {
+      const document = parseEnvFile('\uFEFFexport A=1\n');
+
+      expect(document.issues).toEqual([]);
+      expect(findEnvEntry(document, 'A')).toMatchObject({ value: '1', line: 1, column: 8 });
+      expect(stringifyEnvFile(document)).toBe('\uFEFFexport A=1\n');
+    });
+
+    it('should track lines with CRLF line endings', () => {
+      const document = parseEnvFile('A=1\r\nB="x\r\ny"\r\nC=3');
+
+      expect(toEnvRecord(document)).toEqual({ A: '1', B: 'x\ny', C: '3' });
+      expect(findEnvEntry(document, 'C')?.line).toBe(4);
+    });
+  });
+
+  describe('stringifyEnvFile', () => {
+    it('should round-trip byte for byte', () => {
+      for (const content of [SAMPLE, 'A=1', 'A=1\r\n\r\n# c\r\n', '\n\n', '  \tB = 2  \n']) {
+        expect(stringifyEnvFile(parseEnvFile(content))).toBe(content);
+      }
+    });
+  });
+
+  describe('editing', () => {
+    it('should update a value in place and keep everything else', () => {
+      const document = setEnvValue(parseEnvFile(SAMPLE), 'PORT', '8080');
+
+      expect(stringifyEnvFile(document)).toBe(
+        SAMPLE.replace('PORT=3000 # inline comment', 'PORT=8080 # inline comment')
+      );
+    });
+
+    it('should keep export and quote style, quoting when needed', () => {
+      let document = setEnvValue(parseEnvFile(SAMPLE), 'DATABASE_URL', 'postgres://db/app');
+      document = setEnvValue(document, 'NAME', "it's");
+      document = setEnvValue(document, 'EMPTY', 'a # b');
+
+      const output = stringifyEnvFile(document);
+
+      expect(output).toContain('export DATABASE_URL="postgres://db/app"\n');
+      expect(output).toContain('  NAME="it\'s"\n');
+      expect(output).toContain('EMPTY="a # b"\n');
+      expect(toEnvRecord(parseEnvFile(output))).toMatchObject({
+        NAME: "it's",
+        EMPTY: 'a # b',
+      });
+    });
+
+    it('should append missing keys with the file line ending', () => {
+      const document = setEnvValue(parseEnvFile('A=1\r\nB=2'), 'C', 'multi\nline');
+
+      expect(stringifyEnvFile(document)).toBe('A=1\r\nB=2\r\nC="multi\\nline"\r\n');
+      expect(findEnvEntry(document, 'C')?.line).toBe(3);
+      expect(toEnvRecord(parseEnvFile(stringifyEnvFile(document))).C).toBe('multi\nline');
+    });
+
+    it('should remove every definition of a key', () => {
+      const document = removeEnvEntry(parseEnvFile('A=1\n# keep\nA=2\nB=3\n'), 'A');
+
+      expect(stringifyEnvFile(document)).toBe('# keep\nB=3\n');
+    });
+  });
+});
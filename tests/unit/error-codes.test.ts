@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ERROR_CODES, findErrorCode, describeErrorCode } from '../../src/core/error-codes';
+import { LINT_RULES } from '../../src/core/schema-linter';
+import { ENV_LINT_RULES } from '../../src/core/env-linter';
+
+function listSourceFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    return entry.isDirectory() ? listSourceFiles(file) : file.endsWith('.ts') ? [file] : [];
+  });
+}
+
+describe('error codes', () => {
+  it('should find a code by code or name', () => {
+    expect(findErrorCode('EG1001')).toMatchObject({ code: 'EG1001', name: 'missing-required' });
+    expect(findErrorCode('eg1001')?.code).toBe('EG1001');
+    expect(findErrorCode('missing-required')?.code).toBe('EG1001');
+    expect(findErrorCode('EG9999')).toBeUndefined();
+  });
+
+  it('should describe a code with its name', () => {
+    expect(describeErrorCode('EG2003')).toBe('EG2003 invalid-url');
+    expect(describeErrorCode('EG9999')).toBe('EG9999');
+  });
+
+  it('should have unique names and complete entries', () => {
+    const names = Object.values(ERROR_CODES).map((info) => info.name);
+
+    expect(new Set(names).size).toBe(names.length);
+    for (const [code, info] of Object.entries(ERROR_CODES)) {
+      expect(code).toMatch(/^EG\d{4}$/);
+      expect(info.summary && info.explanation && info.fix).toBeTruthy();
+    }
+  });
+
+  it('should catalog every code used in the source', () => {
+    const used = listSourceFiles(path.resolve(__dirname, '../../src')).flatMap(
+      (file) => fs.readFileSync(file, 'utf-8').match(/EG\d{4}/g) ?? []
+    );
+
+    expect(used.length).toBeGreaterThan(0);
+    for (const code of new Set(used)) {
+      expect(ERROR_CODES[code], code).toBeDefined();
+    }
+  });
+
+  it('should give every lint rule a code named after it', () => {
+    for (const [id, rule] of [...Object.entries(LINT_RULES), ...Object.entries(ENV_LINT_RULES)]) {
+      expect(ERROR_CODES[rule.code]?.name).toBe(id);
+    }
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { generateTypeScript, generateEnvExample } from '../../src/core/generator';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateTypeScript, generateEnvExample, writeIfChanged } from '../../src/core/generator';
 import type { EnvSchema } from '../../src/types';
 
 describe('generator', () => {
@@ -51,6 +54,22 @@ describe('generator', () => {
       expect(output).toContain('DEBUG: boolean');
     });
 
+    it('should generate array types', () => {
+      const schema: EnvSchema = {
+        variables: {
+          ORIGINS: { type: 'array', required: true, items: { type: 'string' } },
+          DELAYS: { type: 'array', required: true, items: { type: 'number' } },
+          LEVELS: { type: 'array', required: true, items: { type: 'string', enum: ['a', 'b'] } },
+        },
+      };
+
+      const output = generateTypeScript(schema);
+
+      expect(output).toContain('ORIGINS: string[]');
+      expect(output).toContain('DELAYS: number[]');
+      expect(output).toContain("LEVELS: ('a' | 'b')[]");
+    });
+
     it('should generate literal union for enum', () => {
       const schema: EnvSchema = {
         variables: {
@@ -145,6 +164,129 @@ describe('generator', () => {
       expect(output).toContain("'OPTIONAL'");
     });
 
+    it('should generate discriminated unions for conditional requirements', () => {
+      const schema: EnvSchema = {
+        variables: {
+          MAIL_DRIVER: { type: 'string', required: true, enum: ['smtp', 'ses', 'log'] },
+          SMTP_PASSWORD: {
+            type: 'string',
+            required: true,
+            requiredIf: { variable: 'MAIL_DRIVER', equals: 'smtp' },
+          },
+          AWS_REGION: {
+            type: 'string',
+            required: true,
+            requiredUnless: { variable: 'MAIL_DRIVER', in: ['smtp', 'log'] },
+          },
+        },
+      };
+
+      const output = generateTypeScript(schema);
+
+      expect(output).toContain('export interface EnvBase {');
+      expect(output).toContain('SMTP_PASSWORD?: string;');
+      expect(output).toContain('export type Env = EnvBase &');
+      expect(output).toContain("| { MAIL_DRIVER: 'smtp'; SMTP_PASSWORD: string }");
+      expect(output).toContain("| { MAIL_DRIVER: 'ses'; AWS_REGION: string }");
+      expect(output).toContain("| { MAIL_DRIVER: 'log' }");
+    });
+
+    it('should keep conditional variables optional when no union is possible', () => {
+      const schema: EnvSchema = {
+        variables: {
+          AUTH_TOKEN: { type: 'string', required: false },
+          AUTH_USERNAME: {
+            type: 'string',
+            required: true,
+            requiredUnless: { variable: 'AUTH_TOKEN', present: true },
+          },
+        },
+      };
+
+      const output = generateTypeScript(schema);
+
+      expect(output).toContain('export interface Env {');
+      expect(output).toContain('AUTH_USERNAME?: string;');
+      expect(output).toContain("export type OptionalEnvVars = 'AUTH_TOKEN' | 'AUTH_USERNAME';");
+    });
+
+    it('should type durations and sizes as numbers with their unit', () => {
+      const schema: EnvSchema = {
+        variables: {
+          REQUEST_TIMEOUT: { type: 'duration', required: true, description: 'Request timeout' },
+          MAX_UPLOAD: { type: 'bytes', required: true },
+        },
+      };
+
+      const output = generateTypeScript(schema);
+
+      expect(output).toContain(
+        '/** Request timeout (in milliseconds) */\n  REQUEST_TIMEOUT: number;'
+      );
+      expect(output).toContain('/** Size in bytes */\n  MAX_UPLOAD: number;');
+    });
+
+    it('should generate named types for json variables with a jsonSchema', () => {
+      const schema: EnvSchema = {
+        variables: {
+          FEATURE_FLAGS: {
+            type: 'string',
+            required: true,
+            format: 'json',
+            jsonSchema: {
+              type: 'object',
+              properties: { checkout: { type: 'boolean' } },
+              required: ['checkout'],
+            },
+          },
+        },
+      };
+
+      const output = generateTypeScript(schema);
+
+      expect(output).toContain('export interface FeatureFlags {\n  checkout: boolean;\n}');
+      expect(output).toContain('FEATURE_FLAGS: FeatureFlags;');
+    });
+
+    it('should mark deprecated variables and aliases with @deprecated', () => {
+      const schema: EnvSchema = {
+        variables: {
+          DATABASE_URL: { type: 'string', required: true, aliases: ['DB_URL'] },
+          SESSION_DIR: {
+            type: 'string',
+            required: false,
+            description: 'Session storage path',
+            deprecated: { removalDate: '2025-06-30' },
+            replacedBy: 'DATABASE_URL',
+          },
+        },
+      };
+
+      const output = generateTypeScript(schema);
+
+      expect(output).toContain(
+        '  /**\n   * Session storage path\n   * @deprecated Use DATABASE_URL instead. Removal on 2025-06-30.\n   */\n  SESSION_DIR?: string;'
+      );
+      expect(output).toContain(
+        '    /** @deprecated Use DATABASE_URL instead. */\n    DB_URL?: string;'
+      );
+    });
+
+    it('should emit template-literal index signatures for pattern variables', () => {
+      const schema: EnvSchema = {
+        variables: {},
+        patternVariables: {
+          'FEATURE_FLAG_*': { type: 'boolean', required: false },
+          '/^TENANT_\\d+$/': { type: 'string', required: false },
+        },
+      };
+
+      const output = generateTypeScript(schema);
+
+      expect(output).toContain('  [key: `FEATURE_FLAG_${string}`]: boolean;');
+      expect(output).toContain('// /^TENANT_\\d+$/: regular expression keys');
+    });
+
     it('should include auto-generated header', () => {
       const schema: EnvSchema = { variables: {} };
       const output = generateTypeScript(schema);
@@ -188,6 +330,19 @@ describe('generator', () => {
       expect(output).toContain('PORT=3000');
     });
 
+    it('should never write defaults for sensitive variables', () => {
+      const schema: EnvSchema = {
+        variables: {
+          API_TOKEN: { type: 'string', required: false, default: 'dev-token', sensitive: true },
+        },
+      };
+
+      const output = generateEnvExample(schema);
+
+      expect(output).toContain('API_TOKEN=\n');
+      expect(output).not.toContain('dev-token');
+    });
+
     it('should include enum options in comments', () => {
       const schema: EnvSchema = {
         variables: {
@@ -219,6 +374,35 @@ describe('generator', () => {
       expect(output).toContain('# Optional');
     });
 
+    it('should describe conditional requirements', () => {
+      const schema: EnvSchema = {
+        variables: {
+          S3_BUCKET: {
+            type: 'string',
+            required: true,
+            requiredIf: { variable: 'STORAGE', equals: 's3' },
+          },
+        },
+      };
+
+      const output = generateEnvExample(schema);
+
+      expect(output).toContain('# Required when STORAGE = s3');
+    });
+
+    it('should document list separators', () => {
+      const schema: EnvSchema = {
+        variables: {
+          HOSTS: { type: 'array', required: false, separator: ';', default: ['a', 'b'] },
+        },
+      };
+
+      const output = generateEnvExample(schema);
+
+      expect(output).toContain('# List separated by ";"');
+      expect(output).toContain('HOSTS=a;b');
+    });
+
     it('should skip comments when disabled', () => {
       const schema: EnvSchema = {
         variables: {
@@ -244,4 +428,23 @@ describe('generator', () => {
       expect(output).toContain('# Generated by env-guardian-cli');
     });
   });
+
+  describe('writeIfChanged', () => {
+    it('should only write files whose content changes', () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-guardian-generator-'));
+      const file = path.join(tmpDir, 'types', 'env.d.ts');
+
+      try {
+        expect(writeIfChanged(file, 'a')).toBe(true);
+        const { mtimeMs } = fs.statSync(file);
+
+        expect(writeIfChanged(file, 'a')).toBe(false);
+        expect(fs.statSync(file).mtimeMs).toBe(mtimeMs);
+        expect(writeIfChanged(file, 'b')).toBe(true);
+        expect(fs.readFileSync(file, 'utf-8')).toBe('b');
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
 });
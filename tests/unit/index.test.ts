@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { validateEnv } from '../../src/index';
+
+describe('validateEnv', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-guardian-api-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+    fs.writeFileSync(
+      path.join(tmpDir, 'env.schema.json'),
+      JSON.stringify({ variables: { API_TEST_PORT: { type: 'number', required: true } } })
+    );
+    fs.writeFileSync(path.join(tmpDir, '.env'), 'API_TEST_PORT=3000\n');
+    vi.stubEnv('API_TEST_PORT', '4000');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should validate only process.env with useProcessEnv and no envPath', () => {
+    const result = validateEnv({ useProcessEnv: true });
+
+    expect(result.valid).toBe(true);
+    expect(result.parsed.API_TEST_PORT).toBe(4000);
+    expect(result.sources?.API_TEST_PORT).toBe('process.env');
+  });
+
+  it('should layer envPath over process.env', () => {
+    const result = validateEnv({ useProcessEnv: true, envPath: '.env' });
+
+    expect(result.parsed.API_TEST_PORT).toBe(3000);
+    expect(result.sources?.API_TEST_PORT).toBe(path.join(tmpDir, '.env'));
+  });
+
+  it('should read the .env cascade without useProcessEnv', () => {
+    expect(validateEnv().parsed.API_TEST_PORT).toBe(3000);
+  });
+});
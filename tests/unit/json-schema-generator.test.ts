@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { generateJsonSchema } from '../../src/core/json-schema-generator';
+import { validateJsonSchema } from '../../src/core/json-schema';
+import { validate } from '../../src/core/validator';
+import type { EnvSchema, JsonSchema, JsonValue } from '../../src/types';
+
+const schema: EnvSchema = {
+  variables: {
+    PORT: { type: 'number', required: true, format: 'port', min: 1024, description: 'Server port' },
+    NODE_ENV: { type: 'string', required: true, enum: ['development', 'production'] },
+    API_URL: { type: 'string', required: false, format: 'url' },
+    API_KEY: { type: 'string', required: true, format: 'hex', pattern: '^.{32}$' },
+    TIMEOUT: { type: 'duration', required: false, max: '1m', default: '30s' },
+    HOSTS: {
+      type: 'array',
+      required: false,
+      unique: true,
+      maxItems: 3,
+      items: { type: 'string', format: 'email' },
+    },
+    NAME: { type: 'string', required: false, minLength: 2, maxLength: 20, deprecated: true },
+    FLAGS: {
+      type: 'string',
+      required: false,
+      format: 'json',
+      jsonSchema: { type: 'object', properties: { beta: { type: 'boolean' } } },
+    },
+    DB_URL: {
+      type: 'string',
+      required: true,
+      requiredIf: { variable: 'NODE_ENV', equals: 'production' },
+    },
+  },
+};
+
+describe('json-schema-generator', () => {
+  describe('generateJsonSchema', () => {
+    const output = generateJsonSchema(schema);
+    const properties = output.properties as Record<string, JsonValue>;
+
+    it('should produce a draft 2020-12 object schema', () => {
+      expect(output.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+      expect(output.type).toBe('object');
+    });
+
+    it('should only require variables validate() always requires', () => {
+      expect(output.required).toEqual(['PORT', 'NODE_ENV', 'API_KEY']);
+    });
+
+    it('should map number formats to constraints, keeping the stricter bound', () => {
+      expect(properties.PORT).toEqual({
+        description: 'Server port',
+        type: 'integer',
+        minimum: 1024,
+        maximum: 65535,
+      });
+    });
+
+    it('should map formats to standard keywords or patterns', () => {
+      expect(properties.API_URL).toEqual({ type: 'string', format: 'uri' });
+      expect(properties.API_KEY).toEqual({
+        type: 'string',
+        pattern: '^[0-9a-fA-F]+$',
+        allOf: [{ pattern: '^.{32}$' }],
+      });
+    });
+
+    it('should describe parsed durations with defaults and lists with their items', () => {
+      expect(properties.TIMEOUT).toEqual({
+        description: 'Duration in milliseconds',
+        type: 'number',
+        maximum: 60000,
+        default: 30000,
+      });
+      expect(properties.HOSTS).toEqual({
+        type: 'array',
+        items: { type: 'string', format: 'email' },
+        maxItems: 3,
+        uniqueItems: true,
+      });
+    });
+
+    it('should keep lengths, deprecations and JSON variable schemas', () => {
+      expect(properties.NAME).toEqual({
+        type: 'string',
+        minLength: 2,
+        maxLength: 20,
+        deprecated: true,
+      });
+      expect(properties.FLAGS).toEqual({
+        type: 'object',
+        properties: { beta: { type: 'boolean' } },
+      });
+    });
+
+    it('should map pattern variables to patternProperties', () => {
+      const output = generateJsonSchema({
+        variables: {},
+        patternVariables: { 'FEATURE_*': { type: 'boolean', required: false } },
+      });
+
+      expect(output.patternProperties).toEqual({ '^FEATURE_.+$': { type: 'boolean' } });
+    });
+
+    it('should accept the values validate() parses', () => {
+      const env = {
+        PORT: '8080',
+        NODE_ENV: 'development',
+        API_KEY: 'a'.repeat(32),
+        HOSTS: 'a@example.com,b@example.com',
+        FLAGS: '{"beta":true}',
+      };
+      const result = validate(schema, env);
+
+      expect(result.valid).toBe(true);
+      expect(validateJsonSchema(result.parsed as JsonValue, output as JsonSchema)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { validateJsonSchema, jsonSchemaToTypeScript } from '../../src/core/json-schema';
+import { JsonSchema } from '../../src/types';
+
+const flagsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    checkout: { type: 'boolean', description: 'New checkout flow' },
+    rollout: { type: 'integer', minimum: 0, maximum: 100 },
+    regions: { type: 'array', items: { type: 'string', enum: ['eu', 'us'] } },
+  },
+  required: ['checkout'],
+  additionalProperties: false,
+};
+
+describe('json-schema', () => {
+  describe('validateJsonSchema', () => {
+    it('should accept matching values', () => {
+      expect(
+        validateJsonSchema({ checkout: true, rollout: 50, regions: ['eu'] }, flagsSchema)
+      ).toEqual([]);
+    });
+
+    it('should report issues with JSON pointers', () => {
+      const issues = validateJsonSchema(
+        { rollout: 150, regions: ['eu', 'apac'], extra: 1 },
+        flagsSchema
+      );
+
+      expect(issues).toEqual([
+        { pointer: '/checkout', message: 'is required' },
+        { pointer: '/rollout', message: 'must be <= 100' },
+        { pointer: '/regions/1', message: 'must be one of: "eu", "us"' },
+        { pointer: '/extra', message: 'is not an allowed property' },
+      ]);
+    });
+
+    it('should report type mismatches at the root', () => {
+      expect(validateJsonSchema([1, 2], flagsSchema)).toEqual([
+        { pointer: '', message: 'expected object, received array' },
+      ]);
+    });
+
+    it('should escape pointer segments', () => {
+      const issues = validateJsonSchema(
+        { 'a/b': 'x' },
+        { type: 'object', additionalProperties: { type: 'number' } }
+      );
+
+      expect(issues[0].pointer).toBe('/a~1b');
+    });
+
+    it('should support anyOf', () => {
+      const schema: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'number' }] };
+
+      expect(validateJsonSchema(1, schema)).toEqual([]);
+      expect(validateJsonSchema(true, schema)).toHaveLength(1);
+    });
+
+    it('should fail values instead of throwing on invalid patterns', () => {
+      expect(validateJsonSchema('x', { type: 'string', pattern: '([' })).toEqual([
+        { pointer: '', message: 'must match pattern: ([' },
+      ]);
+    });
+  });
+
+  describe('jsonSchemaToTypeScript', () => {
+    it('should convert objects with optional properties', () => {
+      const type = jsonSchemaToTypeScript(flagsSchema);
+
+      expect(type).toContain('/** New checkout flow */');
+      expect(type).toContain('checkout: boolean;');
+      expect(type).toContain('rollout?: number;');
+      expect(type).toContain('regions?: Array<"eu" | "us">;');
+    });
+
+    it('should convert index signatures and unions', () => {
+      expect(
+        jsonSchemaToTypeScript({ type: 'object', additionalProperties: { type: 'string' } })
+      ).toBe('{\n  [key: string]: string;\n}');
+      expect(jsonSchemaToTypeScript({ type: ['string', 'null'] })).toBe('string | null');
+    });
+  });
+});
@@ -1,5 +1,8 @@
-import { describe, it, expect } from 'vitest';
-import { inferType, inferFormat, inferSchemaFromEnv } from '../../src/core/loader';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { inferType, inferFormat, inferSchemaFromEnv, loadEnvCascade } from '../../src/core/loader';
 
 describe('loader', () => {
   describe('inferType', () => {
@@ -113,5 +116,102 @@ describe('loader', () => {
 
       expect(schema.MY_VAR.description).toContain('MY_VAR');
     });
+
+    it('should mark secret-looking names as sensitive', () => {
+      const schema = inferSchemaFromEnv({
+        GITHUB_TOKEN: 'ghp_123',
+        DB_PASSWORD: 'hunter2',
+        SESSION_SECRET: 'abc',
+        SECRET: 'abc',
+        TOKEN_TTL: '60',
+      });
+
+      expect(schema.GITHUB_TOKEN.sensitive).toBe(true);
+      expect(schema.DB_PASSWORD.sensitive).toBe(true);
+      expect(schema.SESSION_SECRET.sensitive).toBe(true);
+      expect(schema.SECRET.sensitive).toBe(true);
+      expect(schema.TOKEN_TTL.sensitive).toBeUndefined();
+    });
+  });
+
+  describe('loadEnvCascade', () => {
+    let tmpDir: string;
+
+    const write = (file: string, content: string) =>
+      fs.writeFileSync(path.join(tmpDir, file), content);
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-guardian-cascade-'));
+      vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should layer the default cascade and record sources', () => {
+      write('.env', 'A=base\nB=base\nC=base\nD=base');
+      write('.env.local', 'B=local');
+      write('.env.production', 'C=production');
+      write('.env.production.local', 'D=production-local');
+
+      const result = loadEnvCascade({ environment: 'production' });
+
+      expect(result.env).toEqual({ A: 'base', B: 'local', C: 'production', D: 'production-local' });
+      expect(result.sources).toEqual({
+        A: path.join(tmpDir, '.env'),
+        B: path.join(tmpDir, '.env.local'),
+        C: path.join(tmpDir, '.env.production'),
+        D: path.join(tmpDir, '.env.production.local'),
+      });
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should skip missing cascade files but report missing explicit files', () => {
+      write('.env', 'A=1');
+
+      expect(loadEnvCascade().loaded).toEqual([path.join(tmpDir, '.env')]);
+      expect(loadEnvCascade().files).toEqual([
+        path.join(tmpDir, '.env'),
+        path.join(tmpDir, '.env.local'),
+      ]);
+      expect(loadEnvCascade({ files: ['.env', '.env.ci'] }).errors).toHaveLength(1);
+    });
+
+    it('should use explicit files in the given order over process.env', () => {
+      write('one.env', 'A=one\nB=one');
+      write('two.env', 'B=two');
+      vi.stubEnv('CASCADE_TEST_VAR', 'from-process');
+
+      const result = loadEnvCascade({ files: ['two.env', 'one.env'], processEnv: true });
+
+      expect(result.env.B).toBe('one');
+      expect(result.sources.CASCADE_TEST_VAR).toBe('process.env');
+      vi.unstubAllEnvs();
+    });
+
+    it('should record the line of each final value and report duplicates', () => {
+      write('.env', '# base\nA=1\n\nB=2\nA=3\n');
+      write('.env.local', 'B=local');
+
+      const result = loadEnvCascade();
+
+      expect(result.env).toEqual({ A: '3', B: 'local' });
+      expect(result.locations.A).toEqual({ file: path.join(tmpDir, '.env'), line: 5, column: 1 });
+      expect(result.locations.B).toEqual({
+        file: path.join(tmpDir, '.env.local'),
+        line: 1,
+        column: 1,
+      });
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          type: 'duplicate',
+          key: 'A',
+          line: 5,
+          file: path.join(tmpDir, '.env'),
+        }),
+      ]);
+    });
   });
 });
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { generateMetaSchema, zodToJsonSchema } from '../../src/core/meta-schema';
+import { SCHEMA_URL } from '../../src/types';
+
+describe('meta-schema', () => {
+  describe('zodToJsonSchema', () => {
+    it('should convert objects with optional and default properties', () => {
+      const schema = z.object({
+        name: z
+          .string()
+          .min(1)
+          .regex(/^[A-Z_]+$/),
+        port: z.number().int().min(1).optional(),
+        required: z.boolean().default(true),
+        kind: z.enum(['a', 'b']),
+      });
+
+      expect(zodToJsonSchema(schema)).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, pattern: '^[A-Z_]+$' },
+          port: { type: 'integer', minimum: 1 },
+          required: { type: 'boolean', default: true },
+          kind: { type: 'string', enum: ['a', 'b'] },
+        },
+        required: ['name', 'kind'],
+      });
+    });
+
+    it('should emit named and recursive types under $defs', () => {
+      interface Tree {
+        children?: Tree[];
+      }
+      const tree: z.ZodType<Tree> = z.lazy(() => z.object({ children: z.array(tree).optional() }));
+
+      expect(zodToJsonSchema(z.record(tree), [['tree', tree]])).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        additionalProperties: { $ref: '#/$defs/tree' },
+        $defs: {
+          tree: {
+            type: 'object',
+            properties: { children: { type: 'array', items: { $ref: '#/$defs/tree' } } },
+          },
+        },
+      });
+    });
+
+    it('should describe the input of refinements and unions', () => {
+      const schema = z.union([z.string().refine((value) => value !== ''), z.literal(1)]);
+
+      expect(zodToJsonSchema(schema)).toMatchObject({
+        anyOf: [{ type: 'string' }, { const: 1 }],
+      });
+    });
+  });
+
+  describe('generateMetaSchema', () => {
+    const metaSchema = generateMetaSchema();
+
+    it('should be published at the $schema URL written into schema files', () => {
+      expect(metaSchema.$id).toBe(SCHEMA_URL);
+    });
+
+    it('should describe variables and rules', () => {
+      const defs = metaSchema.$defs as Record<string, Record<string, unknown>>;
+
+      expect(metaSchema.required).toEqual(['variables']);
+      expect(defs.variable.required).toEqual(['type']);
+      expect(defs.rule.oneOf).toHaveLength(4);
+    });
+
+    it('should match the published schema.json', () => {
+      const published = fs.readFileSync(path.join(__dirname, '../../schema.json'), 'utf-8');
+
+      // Run `npm run build:schema` after changing EnvSchemaDefinition
+      expect(JSON.parse(published)).toEqual(metaSchema);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { generateEnvModule } from '../../src/core/module-generator';
+import { validate } from '../../src/core/validator';
+import { base, loadGenerated, schema } from '../helpers/generated-module';
+import type { GeneratedEnvModule } from '../helpers/generated-module';
+
+describe('module-generator', () => {
+  describe('generateEnvModule', () => {
+    const generated = loadGenerated<GeneratedEnvModule>(generateEnvModule(schema), base);
+
+    const problemsOf = (env: Record<string, string>): string[] => {
+      try {
+        generated.parseEnv(env);
+        return [];
+      } catch (error) {
+        return (error as { problems: string[] }).problems;
+      }
+    };
+
+    it.each([
+      ['a minimal valid environment', base],
+      ['a missing required variable', { NODE_ENV: 'production' }],
+      ['an empty required variable', { ...base, PORT: '' }],
+      ['a non-numeric number', { ...base, PORT: 'abc' }],
+      ['a number below its minimum', { ...base, PORT: '0' }],
+      ['a number above its maximum', { ...base, PORT: '70000' }],
+      ['a boolean alias', { ...base, DEBUG: 'yes' }],
+      ['an invalid boolean', { ...base, DEBUG: 'maybe' }],
+      ['a value outside the enum', { ...base, NODE_ENV: 'staging' }],
+      ['a valid url', { ...base, API_URL: 'https://example.com' }],
+      ['an invalid url', { ...base, API_URL: 'not a url' }],
+      ['a duration within its maximum', { ...base, TIMEOUT: '30s' }],
+      ['a duration above its maximum', { ...base, TIMEOUT: '2m' }],
+      ['a size below its minimum', { ...base, UPLOAD_LIMIT: '512B' }],
+      ['a valid list', { ...base, ADMINS: 'a@example.com;b@example.com' }],
+      ['a list with duplicates', { ...base, ADMINS: 'a@example.com;a@example.com' }],
+      ['a list with an item outside the enum', { ...base, REGIONS: 'eu,asia' }],
+      ['a list with an invalid item', { ...base, ADMINS: 'a@example.com;not valid' }],
+      ['an empty list', { ...base, ADMINS: ';' }],
+      ['a list of numbers', { ...base, RETRIES: '1, 2, 3' }],
+      ['a list with a non-numeric item', { ...base, RETRIES: '1,x' }],
+      ['a value matching its pattern', { ...base, CODE: 'ABC' }],
+      ['a value not matching its pattern', { ...base, CODE: 'abc' }],
+      ['JSON matching its JSON Schema', { ...base, CONFIG: '{"name":"app"}' }],
+      ['JSON not matching its JSON Schema', { ...base, CONFIG: '{"other":1}' }],
+      ['malformed JSON', { ...base, CONFIG: '{' }],
+      ['a conditionally required variable that is missing', { ...base, MAIL_DRIVER: 'smtp' }],
+      [
+        'a conditionally required variable that is set',
+        { ...base, MAIL_DRIVER: 'smtp', SMTP_PASSWORD: 'x' },
+      ],
+      ['a condition on the parsed value', { ...base, PORT: '443.0' }],
+      ['an unmet requiredUnless', { ...base, NODE_ENV: 'development' }],
+      ['a met requiredUnless', { ...base, NODE_ENV: 'development', DEV_TOKEN: 'x' }],
+      ['a value read from its alias', { ...base, SERVICE_URL: 'https://example.com' }],
+      ['an invalid value read from its alias', { ...base, SERVICE_URL: 'not a url' }],
+      [
+        'an alias behind a set variable',
+        { ...base, API_URL: 'https://example.com', SERVICE_URL: 'x' },
+      ],
+      ['a compare rule that holds', { ...base, POOL_MIN: '1', POOL_MAX: '5' }],
+      ['a broken compare rule', { ...base, POOL_MIN: '10', POOL_MAX: '5' }],
+      ['half of an allOrNone group', { ...base, POOL_MIN: '1' }],
+    ])('should agree with validate() on %s', (_case, env: Record<string, string>) => {
+      expect(problemsOf(env).length === 0).toBe(validate(schema, env).valid);
+    });
+
+    it.each([
+      [
+        'invalid scalars',
+        { ...base, PORT: '70000', TIMEOUT: '2m', CODE: 'ab' },
+        [
+          'PORT: Value is greater than maximum 65535',
+          'TIMEOUT: Value is greater than maximum 1m',
+          'CODE: Value length is less than minimum 3',
+          'CODE: Value does not match pattern: ^[A-Z]{3}$',
+        ],
+      ],
+      [
+        'invalid lists',
+        { ...base, ADMINS: 'a@example.com;a@example.com;x', REGIONS: 'eu,asia' },
+        [
+          'ADMINS: Invalid email format',
+          'ADMINS: List contains duplicate items',
+          'REGIONS: Item must be one of: eu, us',
+        ],
+      ],
+      [
+        'invalid JSON',
+        { ...base, API_URL: 'not a url', CONFIG: '{"other":1}' },
+        ['API_URL: Invalid url format', 'CONFIG: Value does not match jsonSchema'],
+      ],
+    ])('should report each problem with %s', (_case, env: Record<string, string>, problems) => {
+      expect(problemsOf(env)).toEqual(problems);
+    });
+
+    it.each([
+      ['conditional requirements', { NODE_ENV: 'development', PORT: '443', MAIL_DRIVER: 'smtp' }],
+      ['a broken compare rule', { ...base, POOL_MIN: '10', POOL_MAX: '5' }],
+      ['half of an allOrNone group', { ...base, POOL_MAX: '5' }],
+    ])(
+      'should report the same cross-variable problems as validate() for %s',
+      (_case, env: Record<string, string>) => {
+        const { errors } = validate(schema, env);
+
+        expect(errors).not.toHaveLength(0);
+        expect(problemsOf(env)).toEqual(
+          errors.map((error) => `${error.variable}: ${error.message}`)
+        );
+      }
+    );
+
+    it('should export the parsed environment with defaults applied', () => {
+      const env = {
+        ...base,
+        ADMINS: 'a@example.com',
+        REGIONS: 'us',
+        RETRIES: '1,2',
+        CONFIG: '{"name":"app"}',
+      };
+      const { parsed } = validate(schema, env);
+
+      expect(loadGenerated<GeneratedEnvModule>(generateEnvModule(schema), env).env).toEqual(parsed);
+    });
+
+    it('should freeze the exported environment', () => {
+      expect(Object.isFrozen(generated.env)).toBe(true);
+    });
+
+    it('should throw one error listing every problem', () => {
+      let error: (Error & { problems?: string[] }) | undefined;
+
+      try {
+        generated.parseEnv({ PORT: '0', DEBUG: 'maybe' });
+      } catch (caught) {
+        error = caught as Error & { problems?: string[] };
+      }
+
+      expect(error).toBeInstanceOf(generated.EnvValidationError);
+      expect(error?.problems).toEqual([
+        'PORT: Value is less than minimum 1',
+        'DEBUG: Expected true/false, 1/0, yes/no or on/off',
+        'NODE_ENV: Required variable is missing',
+        'DEV_TOKEN: Required variable is missing (required unless NODE_ENV = production)',
+      ]);
+      expect(error?.message).toContain('  - NODE_ENV: Required variable is missing');
+    });
+
+    it('should throw when the module is imported with an invalid environment', () => {
+      expect(() => loadGenerated(generateEnvModule(schema))).toThrow(
+        /PORT: Required variable is missing/
+      );
+    });
+
+    it('should have no imports', () => {
+      expect(generateEnvModule(schema)).not.toMatch(/^import /m);
+    });
+  });
+});
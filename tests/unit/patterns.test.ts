@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { compilePattern, matchPatternVariable, toTemplateLiteral } from '../../src/core/patterns';
+import { EnvSchema } from '../../src/types';
+
+describe('patterns', () => {
+  describe('compilePattern', () => {
+    it('should match globs with one or more characters per wildcard', () => {
+      const regex = compilePattern('TENANT_*_DB_URL');
+
+      expect(regex.test('TENANT_ACME_DB_URL')).toBe(true);
+      expect(regex.test('TENANT__DB_URL')).toBe(false);
+      expect(regex.test('TENANT_ACME_DB_URL_OLD')).toBe(false);
+    });
+
+    it('should escape regex characters in globs', () => {
+      expect(compilePattern('APP.*').test('APPX_NAME')).toBe(false);
+    });
+
+    it('should compile /regex/ keys', () => {
+      const regex = compilePattern('/^TENANT_\\d+_URL$/');
+
+      expect(regex.test('TENANT_42_URL')).toBe(true);
+      expect(regex.test('TENANT_X_URL')).toBe(false);
+    });
+  });
+
+  describe('matchPatternVariable', () => {
+    const schema: EnvSchema = {
+      variables: { FEATURE_FLAG_LEGACY: { type: 'string', required: false } },
+      patternVariables: {
+        'FEATURE_FLAG_*': { type: 'boolean', required: false },
+        '/^FEATURE_/': { type: 'string', required: false },
+      },
+    };
+
+    it('should return the first matching pattern', () => {
+      expect(matchPatternVariable(schema, 'FEATURE_FLAG_BETA')?.pattern).toBe('FEATURE_FLAG_*');
+      expect(matchPatternVariable(schema, 'FEATURE_X')?.pattern).toBe('/^FEATURE_/');
+      expect(matchPatternVariable(schema, 'OTHER')).toBeUndefined();
+    });
+
+    it('should not match declared variables', () => {
+      expect(matchPatternVariable(schema, 'FEATURE_FLAG_LEGACY')).toBeUndefined();
+    });
+  });
+
+  describe('toTemplateLiteral', () => {
+    it('should convert globs to template literal types', () => {
+      expect(toTemplateLiteral('FEATURE_FLAG_*')).toBe('`FEATURE_FLAG_${string}`');
+      expect(toTemplateLiteral('TENANT_*_DB_URL')).toBe('`TENANT_${string}_DB_URL`');
+      expect(toTemplateLiteral('/^X$/')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { formatReport, isReportFormat } from '../../src/core/reporter';
+import { validate } from '../../src/core/validator';
+import { EnvSchema } from '../../src/types';
+
+const cwd = path.resolve('/project');
+
+const schema: EnvSchema = {
+  variables: {
+    PORT: { type: 'number', required: true },
+    API_TOKEN: { type: 'string', required: true, sensitive: true },
+    NODE_ENV: { type: 'string', required: true },
+  },
+};
+
+const result = validate(schema, { PORT: 'abc', API_TOKEN: 'secret-value' });
+
+const context = {
+  schema,
+  schemaPath: path.join(cwd, 'env.schema.json'),
+  locations: {
+    PORT: { file: path.join(cwd, '.env'), line: 3, column: 1 },
+    API_TOKEN: { file: path.join(cwd, '.env'), line: 1, column: 1 },
+  },
+  cwd,
+};
+
+describe('reporter', () => {
+  it('should recognize report formats', () => {
+    expect(isReportFormat('sarif')).toBe(true);
+    expect(isReportFormat('text')).toBe(false);
+  });
+
+  it('should serialize the result as JSON with locations and redacted values', () => {
+    const report = JSON.parse(formatReport('json', result, context));
+
+    expect(report.valid).toBe(false);
+    expect(report.schemaPath).toBe('env.schema.json');
+    expect(report.errors).toEqual([
+      expect.objectContaining({
+        variable: 'PORT',
+        type: 'invalid_type',
+        location: { file: '.env', line: 3, column: 1 },
+      }),
+      expect.objectContaining({ variable: 'NODE_ENV', type: 'missing' }),
+    ]);
+    expect(report.parsed).toEqual({ API_TOKEN: '[REDACTED]' });
+    expect(formatReport('json', result, context)).not.toContain('secret-value');
+  });
+
+  it('should create one JUnit test case per variable', () => {
+    const report = formatReport('junit', result, context);
+
+    expect(report).toContain('<testsuites name="env-guardian-cli" tests="3" failures="2">');
+    expect(report).toContain(
+      '<failure message="Cannot convert &quot;abc&quot; to number" type="EG2001">'
+    );
+    expect(report).toContain('at .env:3</failure>');
+    expect(report).toContain(
+      '<testcase classname="env-guardian-cli" name="API_TOKEN" file=".env" />'
+    );
+    expect(report.match(/<testcase /g)).toHaveLength(3);
+  });
+
+  it('should fail the JUnit test case of each variable in a rule violation', () => {
+    const ruleSchema: EnvSchema = {
+      variables: {
+        DB_URL: { type: 'string', required: false },
+        CACHE_URL: { type: 'string', required: false },
+      },
+      rules: [{ type: 'mutuallyExclusive', variables: ['DB_URL', 'CACHE_URL'] }],
+    };
+    const ruleResult = validate(ruleSchema, { DB_URL: 'a', CACHE_URL: 'b' });
+    const report = formatReport('junit', ruleResult, { ...context, schema: ruleSchema });
+
+    expect(report).toContain('<testsuites name="env-guardian-cli" tests="2" failures="2">');
+    expect(report.match(/<testcase /g)).toHaveLength(2);
+    expect(report.match(/type="EG4001"/g)).toHaveLength(2);
+    expect(report).not.toContain('name="DB_URL, CACHE_URL"');
+  });
+
+  it('should point SARIF results at the env file line or the schema', () => {
+    const log = JSON.parse(formatReport('sarif', result, context));
+    const [run] = log.runs;
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+      'EG2001',
+      'EG1001',
+    ]);
+    expect(run.tool.driver.rules[1]).toEqual({
+      id: 'EG1001',
+      name: 'missing-required',
+      shortDescription: { text: 'A required variable is not set' },
+      help: { text: expect.stringContaining('Set the variable') },
+    });
+    expect(run.results[0]).toEqual({
+      ruleId: 'EG2001',
+      level: 'error',
+      message: { text: 'PORT: Cannot convert "abc" to number' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: '.env' },
+            region: { startLine: 3, startColumn: 1 },
+          },
+        },
+      ],
+    });
+    expect(run.results[1].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'env.schema.json' },
+    });
+  });
+
+  it('should emit GitHub annotations', () => {
+    expect(formatReport('github', result, context).split('\n')).toEqual([
+      '::error file=.env,line=3,col=1,title=PORT (EG2001)::Cannot convert "abc" to number',
+      '::error file=env.schema.json,title=NODE_ENV (EG1001)::Required variable is missing',
+    ]);
+  });
+
+  it('should escape GitHub annotation data', () => {
+    const multiline = {
+      ...result,
+      errors: [
+        {
+          variable: 'A,B',
+          message: '50% done\nnext',
+          code: 'EG4001',
+          type: 'rule_violation' as const,
+        },
+      ],
+      warnings: [],
+    };
+
+    expect(formatReport('github', multiline, { schema })).toBe(
+      '::error title=A%2CB (EG4001)::50%25 done%0Anext'
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateRules } from '../../src/core/rules';
+
+describe('rules', () => {
+  describe('compare', () => {
+    it('should compare parsed numbers between variables', () => {
+      const rules = [
+        {
+          type: 'compare' as const,
+          left: 'DB_POOL_MIN',
+          operator: '<=' as const,
+          right: 'DB_POOL_MAX',
+        },
+      ];
+
+      expect(evaluateRules(rules, {}, { DB_POOL_MIN: 2, DB_POOL_MAX: 10 })).toHaveLength(0);
+
+      const errors = evaluateRules(rules, {}, { DB_POOL_MIN: 20, DB_POOL_MAX: 10 });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({
+        type: 'rule_violation',
+        variables: ['DB_POOL_MIN', 'DB_POOL_MAX'],
+        message: 'DB_POOL_MIN (20) must be <= DB_POOL_MAX (10)',
+      });
+    });
+
+    it('should compare against numeric literals', () => {
+      const rules = [
+        { type: 'compare' as const, left: 'WORKERS', operator: '>' as const, right: 0 },
+      ];
+
+      expect(evaluateRules(rules, {}, { WORKERS: 0 })[0].variables).toEqual(['WORKERS']);
+    });
+
+    it('should skip comparisons with missing operands', () => {
+      const rules = [{ type: 'compare' as const, left: 'A', operator: '<' as const, right: 'B' }];
+
+      expect(evaluateRules(rules, {}, { A: 1 })).toHaveLength(0);
+    });
+  });
+
+  describe('groups', () => {
+    const variables = ['AUTH_TOKEN', 'AUTH_USERNAME'];
+
+    it('should enforce mutuallyExclusive', () => {
+      const rules = [{ type: 'mutuallyExclusive' as const, variables }];
+
+      expect(evaluateRules(rules, { AUTH_TOKEN: 't' }, {})).toHaveLength(0);
+      expect(evaluateRules(rules, {}, {})).toHaveLength(0);
+      expect(evaluateRules(rules, { AUTH_TOKEN: 't', AUTH_USERNAME: 'u' }, {})).toHaveLength(1);
+    });
+
+    it('should enforce oneOf', () => {
+      const rules = [{ type: 'oneOf' as const, variables }];
+
+      expect(evaluateRules(rules, { AUTH_USERNAME: 'u' }, {})).toHaveLength(0);
+      expect(evaluateRules(rules, {}, {})[0].message).toBe(
+        'Exactly one of AUTH_TOKEN, AUTH_USERNAME must be set (found none)'
+      );
+    });
+
+    it('should enforce allOrNone', () => {
+      const rules = [
+        {
+          type: 'allOrNone' as const,
+          variables: ['SMTP_HOST', 'SMTP_USER'],
+          message: 'SMTP needs both',
+        },
+      ];
+
+      expect(evaluateRules(rules, {}, {})).toHaveLength(0);
+      expect(evaluateRules(rules, { SMTP_HOST: 'h', SMTP_USER: 'u' }, {})).toHaveLength(0);
+      expect(evaluateRules(rules, { SMTP_HOST: 'h' }, {})[0].message).toBe('SMTP needs both');
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { lintSchema } from '../../src/core/schema-linter';
+import { EnvSchema } from '../../src/types';
+
+const rulesOf = (schema: EnvSchema, rules?: Parameters<typeof lintSchema>[1]['rules']) =>
+  lintSchema(schema, { rules }).issues.map((issue) => `${issue.variable}:${issue.rule}`);
+
+describe('schema-linter', () => {
+  it('should accept a clean schema', () => {
+    const result = lintSchema({
+      variables: {
+        PORT: { type: 'number', required: true, default: 3000, format: 'port' },
+        LOG_LEVEL: { type: 'string', required: true, enum: ['info', 'debug'], default: 'info' },
+      },
+    });
+
+    expect(result).toEqual({ valid: true, issues: [] });
+  });
+
+  it('should report invalid regexes and unknown formats', () => {
+    const schema: EnvSchema = {
+      variables: {
+        NAME: { type: 'string', required: true, pattern: '([a-z' },
+        SLUG: { type: 'string', required: true, format: 'slug' },
+        HOSTS: { type: 'array', required: true, items: { type: 'string', format: 'hostname' } },
+      },
+    };
+
+    expect(rulesOf(schema)).toEqual([
+      'NAME:invalid-regex',
+      'SLUG:unknown-format',
+      'HOSTS:unknown-format',
+    ]);
+    expect(lintSchema(schema).valid).toBe(false);
+  });
+
+  it('should report invalid regexes nested in jsonSchema', () => {
+    const result = lintSchema({
+      variables: {
+        CONFIG: {
+          type: 'string',
+          required: true,
+          format: 'json',
+          jsonSchema: {
+            type: 'object',
+            properties: { hosts: { type: 'array', items: { type: 'string', pattern: '([' } } },
+            anyOf: [{ required: ['hosts'] }, { additionalProperties: { pattern: '*' } }],
+          },
+        },
+      },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => issue.message.split(':')[0])).toEqual([
+      'jsonSchema.properties.hosts.items.pattern is not a valid regular expression',
+      'jsonSchema.anyOf.1.additionalProperties.pattern is not a valid regular expression',
+    ]);
+  });
+
+  it('should lint environment overrides without repeating base issues', () => {
+    const result = lintSchema({
+      variables: {
+        CODE: { type: 'string', required: true, pattern: '^[A-Z]+$' },
+        SLUG: { type: 'string', required: true, format: 'slug' },
+      },
+      environments: {
+        production: { CODE: { pattern: '([A-Z' }, SLUG: { required: false } },
+      },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => [issue.variable, issue.message.split(':')[0]])).toEqual([
+      ['SLUG', 'Unknown format "slug"'],
+      ['CODE', 'In production'],
+    ]);
+    expect(result.issues[1].message).toContain('pattern is not a valid regular expression');
+  });
+
+  it('should report defaults that fail their own checks', () => {
+    const result = lintSchema({
+      variables: {
+        LOG_LEVEL: { type: 'string', required: true, enum: ['info', 'debug'], default: 'verbose' },
+        PORT: { type: 'number', required: true, default: 70000, max: 65535 },
+        TIMEOUT: { type: 'duration', required: true, default: '10 minutes' },
+      },
+    });
+
+    expect(result.issues.map((issue) => issue.rule)).toEqual([
+      'invalid-default',
+      'invalid-default',
+      'invalid-default',
+    ]);
+    expect(result.issues[1].message).toBe(
+      'Default is invalid: Value 70000 is greater than maximum 65535'
+    );
+  });
+
+  it('should report empty ranges', () => {
+    expect(
+      rulesOf({
+        variables: {
+          NAME: { type: 'string', required: true, minLength: 5, maxLength: 2 },
+          TIMEOUT: { type: 'duration', required: true, min: '1m', max: '30s' },
+          PORT: { type: 'number', required: true, min: '1s' },
+        },
+      })
+    ).toEqual(['NAME:invalid-range', 'TIMEOUT:invalid-range', 'PORT:invalid-range']);
+  });
+
+  it('should report bounds that do not fit the variable type', () => {
+    const result = lintSchema({
+      variables: {
+        PORT: { type: 'number', required: true, min: 'abc' },
+        TIMEOUT: { type: 'duration', required: true, max: '10 minutes' },
+        NAME: { type: 'string', required: true, min: 'abc' },
+      },
+    });
+
+    expect(result.issues.map((issue) => `${issue.variable}: ${issue.message}`)).toEqual([
+      'PORT: min "abc" is not a valid number',
+      'TIMEOUT: max "10 minutes" is not a valid duration',
+    ]);
+  });
+
+  it('should warn about required: false with a default', () => {
+    const result = lintSchema({
+      variables: { PORT: { type: 'number', required: false, default: 3000 } },
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.issues[0]).toMatchObject({ rule: 'redundant-optional', severity: 'warning' });
+  });
+
+  it('should apply policy rules only when configured', () => {
+    const schema: EnvSchema = {
+      variables: { API_TOKEN: { type: 'string', required: true, default: 'dev' } },
+    };
+
+    expect(rulesOf(schema)).toEqual([]);
+    expect(
+      rulesOf(schema, {
+        'require-description': 'warning',
+        'no-secret-defaults': 'error',
+        'sensitive-names': 'error',
+      })
+    ).toEqual([
+      'API_TOKEN:require-description',
+      'API_TOKEN:no-secret-defaults',
+      'API_TOKEN:sensitive-names',
+    ]);
+  });
+
+  it('should turn rules off', () => {
+    const schema: EnvSchema = {
+      variables: { SLUG: { type: 'string', required: true, format: 'slug' } },
+    };
+
+    expect(lintSchema(schema, { rules: { 'unknown-format': 'off' } }).issues).toEqual([]);
+  });
+});
@@ -0,0 +1,549 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import { execFileSync } from 'child_process';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  loadSchema,
+  loadSchemaAsync,
+  createSchemaFile,
+  getDefaultSchema,
+  resolveEnvironment,
+  resolveEnvironmentName,
+} from '../../src/core/schema';
+import { EnvSchemaDefinition } from '../../src/types';
+import type { EnvSchema } from '../../src/types';
+
+describe('schema', () => {
+  let tmpDir: string;
+
+  const writeJson = (file: string, content: unknown) => {
+    const absolutePath = path.join(tmpDir, file);
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, JSON.stringify(content));
+    return absolutePath;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-guardian-schema-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('loadSchema with extends', () => {
+    it('should merge variables from extended files in order', () => {
+      const base = writeJson('shared/base.json', {
+        variables: {
+          DATABASE_URL: { type: 'string', format: 'url' },
+          LOG_LEVEL: { type: 'string', enum: ['info', 'debug'], default: 'info' },
+        },
+      });
+      const redis = writeJson('shared/redis.json', {
+        variables: { REDIS_URL: { type: 'string', required: false } },
+      });
+      const service = writeJson('service/env.schema.json', {
+        extends: ['../shared/base.json', '../shared/redis.json'],
+        variables: {
+          LOG_LEVEL: { enum: ['info', 'debug', 'trace'] },
+          PORT: { type: 'number', default: 3000 },
+        },
+      });
+
+      const result = loadSchema(service);
+
+      expect(result.success).toBe(true);
+      expect(Object.keys(result.schema!.variables)).toEqual([
+        'DATABASE_URL',
+        'LOG_LEVEL',
+        'REDIS_URL',
+        'PORT',
+      ]);
+      expect(result.schema!.variables.LOG_LEVEL).toMatchObject({
+        type: 'string',
+        enum: ['info', 'debug', 'trace'],
+        default: 'info',
+      });
+      expect(result.sources).toEqual({
+        DATABASE_URL: base,
+        LOG_LEVEL: base,
+        REDIS_URL: redis,
+        PORT: service,
+      });
+    });
+
+    it('should resolve npm package specifiers', () => {
+      writeJson('node_modules/@acme/env-base/package.json', { name: '@acme/env-base' });
+      writeJson('node_modules/@acme/env-base/env.schema.json', {
+        variables: { REDIS_URL: { type: 'string' } },
+      });
+      const service = writeJson('env.schema.json', { extends: '@acme/env-base', variables: {} });
+
+      const result = loadSchema(service);
+
+      expect(result.success).toBe(true);
+      expect(result.schema!.variables.REDIS_URL.type).toBe('string');
+    });
+
+    it('should detect cycles', () => {
+      writeJson('a.json', { extends: './b.json', variables: {} });
+      writeJson('b.json', { extends: './a.json', variables: {} });
+
+      const result = loadSchema(path.join(tmpDir, 'a.json'));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Circular extends');
+    });
+
+    it('should report structure errors in the file that set the failing field', () => {
+      const base = writeJson('base.json', {
+        variables: { PORT: { type: 'number' }, HOST: { type: 'text' } },
+      });
+      const service = writeJson('env.schema.json', {
+        extends: './base.json',
+        variables: { PORT: { required: 'yes' } },
+      });
+
+      const result = loadSchema(service);
+
+      expect(result.success).toBe(false);
+      expect(result.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ path: ['variables', 'PORT', 'required'], file: service }),
+          expect.objectContaining({ path: ['variables', 'HOST', 'type'], file: base }),
+        ])
+      );
+    });
+
+    it('should keep the rules of extended files', () => {
+      writeJson('base.json', {
+        variables: { A: { type: 'number' }, B: { type: 'number' } },
+        rules: [{ type: 'compare', left: 'A', operator: '<', right: 'B' }],
+      });
+      const service = writeJson('env.schema.json', {
+        extends: './base.json',
+        variables: {},
+        rules: [{ type: 'allOrNone', variables: ['A', 'B'] }],
+      });
+
+      const result = loadSchema(service);
+
+      expect(result.success).toBe(true);
+      expect(result.schema!.rules).toEqual([
+        expect.objectContaining({ type: 'compare' }),
+        expect.objectContaining({ type: 'allOrNone' }),
+      ]);
+    });
+
+    it('should list every file of the extends chain, including override-only files', () => {
+      const base = writeJson('base.json', { variables: { PORT: { type: 'number' } } });
+      const team = writeJson('team.json', {
+        extends: './base.json',
+        variables: { PORT: { default: 3000 } },
+      });
+      const service = writeJson('env.schema.json', { extends: './team.json', variables: {} });
+
+      const result = loadSchema(service);
+
+      expect(result.sources).toEqual({ PORT: base });
+      expect(result.files).toEqual([base, team, service]);
+    });
+
+    it('should report missing extended files', () => {
+      const service = writeJson('env.schema.json', { extends: './missing.json', variables: {} });
+
+      const result = loadSchema(service);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Extended schema not found');
+    });
+  });
+
+  describe('loadSchemaAsync with modules', () => {
+    const writeFile = (file: string, content: string) => {
+      const absolutePath = path.join(tmpDir, file);
+      fs.writeFileSync(absolutePath, content);
+      return absolutePath;
+    };
+
+    it('should load ESM schema modules with comments and computed values', async () => {
+      const schemaPath = writeFile(
+        'env.schema.mjs',
+        `// Shared levels
+const levels = ['debug', 'info'];
+
+export default {
+  variables: {
+    LOG_LEVEL: { type: 'string', enum: [...levels, 'warn'], },
+  },
+};
+`
+      );
+
+      const result = await loadSchemaAsync(schemaPath);
+
+      expect(result.success).toBe(true);
+      expect(result.schema!.variables.LOG_LEVEL.enum).toEqual(['debug', 'info', 'warn']);
+    });
+
+    it('should load CommonJS schema modules', async () => {
+      const schemaPath = writeFile(
+        'env.schema.cjs',
+        `/* CommonJS */
+module.exports = { variables: { PORT: { type: 'number', default: 1000 + 80 } } };
+`
+      );
+
+      const result = await loadSchemaAsync(schemaPath);
+
+      expect(result.success).toBe(true);
+      expect(result.schema!.variables.PORT.default).toBe(1080);
+    });
+
+    it('should reload edited CommonJS schema modules, as --watch does', () => {
+      // Runs in plain Node: vitest's own module loader does not cache CommonJS the same way
+      const script = `
+        const fs = require('fs');
+        const { loadSchemaAsync } = require(${JSON.stringify(path.resolve(__dirname, '../../src/core/schema.ts'))});
+        const variables = async (file) => Object.keys((await loadSchemaAsync(file)).schema.variables);
+
+        (async () => {
+          for (const file of process.argv.slice(1)) {
+            fs.writeFileSync(file, "module.exports = { variables: { A: { type: 'string' } } };");
+            const before = await variables(file);
+            fs.writeFileSync(file, "module.exports = { variables: { B: { type: 'string' } } };");
+            console.log(JSON.stringify([before, await variables(file)]));
+          }
+        })();
+      `;
+      const files = ['env.schema.cjs', 'env.schema.js'].map((file) => path.join(tmpDir, file));
+
+      const output = execFileSync(process.execPath, ['--import', 'tsx', '-e', script, ...files], {
+        encoding: 'utf-8',
+      });
+
+      expect(
+        output
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line) as unknown)
+      ).toEqual([
+        [['A'], ['B']],
+        [['A'], ['B']],
+      ]);
+    });
+
+    it('should load TypeScript schema modules', async () => {
+      const schemaPath = writeFile(
+        'env.schema.ts',
+        `const port: number = 3000;
+
+export default { variables: { PORT: { type: 'number' as const, default: port } } };
+`
+      );
+
+      const result = await loadSchemaAsync(schemaPath);
+
+      expect(result.success).toBe(true);
+      expect(result.schema!.variables.PORT.default).toBe(3000);
+    });
+
+    it('should ask for loadSchemaAsync when loading a module synchronously', () => {
+      const schemaPath = writeFile('env.schema.cjs', 'module.exports = { variables: {} };');
+
+      const result = loadSchema(schemaPath);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('loadSchemaAsync()');
+    });
+
+    it('should load data schemas that extend modules', async () => {
+      writeFile('base.cjs', "module.exports = { variables: { PORT: { type: 'number' } } };");
+      const schemaPath = writeFile(
+        'env.schema.json',
+        '{ "extends": "./base.cjs", "variables": {} }'
+      );
+
+      const result = await loadSchemaAsync(schemaPath);
+
+      expect(result.success).toBe(true);
+      expect(result.schema!.variables.PORT.type).toBe('number');
+    });
+
+    it('should reject unsupported extensions', async () => {
+      const schemaPath = writeFile('env.schema.txt', '');
+
+      const result = await loadSchemaAsync(schemaPath);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Unsupported schema file format');
+    });
+  });
+
+  describe('loadSchema with YAML and TOML', () => {
+    const writeFile = (file: string, content: string) => {
+      const absolutePath = path.join(tmpDir, file);
+      fs.writeFileSync(absolutePath, content);
+      return absolutePath;
+    };
+
+    it('should load YAML schemas', () => {
+      const schemaPath = writeFile(
+        'env.schema.yaml',
+        `variables:
+  PORT:
+    type: number
+    default: 3000
+`
+      );
+
+      const result = loadSchema(schemaPath);
+
+      expect(result.success).toBe(true);
+      expect(result.schema!.variables.PORT.default).toBe(3000);
+    });
+
+    it('should load TOML schemas', () => {
+      const schemaPath = writeFile(
+        'env.schema.toml',
+        `[variables.LOG_LEVEL]
+type = "string"
+enum = ["info", "debug"]
+`
+      );
+
+      const result = loadSchema(schemaPath);
+
+      expect(result.success).toBe(true);
+      expect(result.schema!.variables.LOG_LEVEL.enum).toEqual(['info', 'debug']);
+    });
+
+    it('should report line and column of YAML structure errors', () => {
+      const schemaPath = writeFile(
+        'env.schema.yml',
+        `variables:
+  PORT:
+    type: integer
+`
+      );
+
+      const result = loadSchema(schemaPath);
+
+      expect(result.success).toBe(false);
+      expect(result.issues![0]).toMatchObject({
+        path: ['variables', 'PORT', 'type'],
+        line: 3,
+        column: 11,
+      });
+      expect(result.error).toContain('env.schema.yml:3:11 variables.PORT.type');
+    });
+
+    it('should report line and column of TOML structure errors', () => {
+      const schemaPath = writeFile(
+        'env.schema.toml',
+        `[variables.PORT]
+default = 3000
+
+[variables.HOST]
+type = 42
+`
+      );
+
+      const result = loadSchema(schemaPath);
+
+      expect(result.success).toBe(false);
+      expect(result.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ path: ['variables', 'PORT', 'type'], line: 1 }),
+          expect.objectContaining({ path: ['variables', 'HOST', 'type'], line: 5, column: 1 }),
+        ])
+      );
+    });
+
+    it('should report line and column of JSON structure errors', () => {
+      const schemaPath = writeFile(
+        'env.schema.json',
+        '{\n  "variables": {\n    "PORT": { "type": "number", "required": "yes" }\n  }\n}\n'
+      );
+
+      const result = loadSchema(schemaPath);
+
+      expect(result.success).toBe(false);
+      expect(result.issues![0]).toMatchObject({ line: 3, column: 45 });
+    });
+  });
+
+  describe('createSchemaFile', () => {
+    it('should write YAML and TOML schemas that load back', () => {
+      for (const format of ['yaml', 'toml'] as const) {
+        const output = path.join(tmpDir, `env.schema.${format}`);
+
+        createSchemaFile(output, getDefaultSchema(), format);
+        const result = loadSchema(output);
+
+        expect(result.success).toBe(true);
+        expect(result.schema!.variables.LOG_LEVEL.default).toBe('info');
+      }
+    });
+
+    it('should point YAML editors at the meta-schema', () => {
+      const output = path.join(tmpDir, 'env.schema.yaml');
+
+      createSchemaFile(output, getDefaultSchema(), 'yaml');
+
+      expect(fs.readFileSync(output, 'utf-8')).toMatch(/^# yaml-language-server: \$schema=/);
+    });
+
+    it('should write JS modules that load back', async () => {
+      const output = path.join(tmpDir, 'env.schema.cjs');
+
+      createSchemaFile(output, getDefaultSchema(), 'js');
+      const content = fs.readFileSync(output, 'utf-8');
+      const result = await loadSchemaAsync(output);
+
+      expect(content).toContain('module.exports = {');
+      expect(content).toContain("enum: ['development', 'production', 'test'],");
+      expect(result.success).toBe(true);
+      expect(result.schema!.variables.PORT.default).toBe(3000);
+    });
+
+    it('should write ES modules inside "type": "module" packages', () => {
+      writeJson('package.json', { type: 'module' });
+      const output = path.join(tmpDir, 'env.schema.js');
+
+      createSchemaFile(output, getDefaultSchema(), 'js');
+
+      expect(fs.readFileSync(output, 'utf-8')).toContain('export default {');
+    });
+
+    it('should write TypeScript modules using defineSchema', () => {
+      const output = path.join(tmpDir, 'env.schema.ts');
+
+      createSchemaFile(output, getDefaultSchema(), 'ts');
+      const content = fs.readFileSync(output, 'utf-8');
+
+      expect(content).toContain("import { defineSchema } from 'env-guardian-cli';");
+      expect(content).toContain('export default defineSchema({');
+    });
+  });
+
+  describe('resolveEnvironment', () => {
+    const schema: EnvSchema = {
+      variables: {
+        DEBUG: { type: 'boolean', required: false, default: false },
+        SENTRY_DSN: { type: 'string', required: false, format: 'url' },
+      },
+      environments: {
+        production: {
+          DEBUG: { enum: ['false'] },
+          SENTRY_DSN: { required: true },
+        },
+      },
+    };
+
+    it('should merge overrides for the selected environment', () => {
+      const resolved = resolveEnvironment(schema, 'production');
+
+      expect(resolved.variables.SENTRY_DSN).toEqual({
+        type: 'string',
+        required: true,
+        format: 'url',
+      });
+      expect(resolved.variables.DEBUG.enum).toEqual(['false']);
+      expect(resolved.variables.DEBUG.default).toBe(false);
+    });
+
+    it('should return base variables for unknown environments', () => {
+      expect(resolveEnvironment(schema, 'development')).toBe(schema);
+      expect(resolveEnvironment(schema)).toBe(schema);
+    });
+
+    it('should not clear base fields with undefined overrides', () => {
+      const parsed = EnvSchemaDefinition.parse(schema);
+      const resolved = resolveEnvironment(parsed, 'production');
+
+      expect(resolved.variables.SENTRY_DSN.format).toBe('url');
+      expect(resolved.variables.SENTRY_DSN.required).toBe(true);
+    });
+
+    it('should reject rules that reference unknown variables', () => {
+      const result = EnvSchemaDefinition.safeParse({
+        variables: { A: { type: 'number' } },
+        rules: [{ type: 'compare', left: 'A', operator: '<', right: 'B' }],
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject invalid patterns inside jsonSchema', () => {
+      const result = EnvSchemaDefinition.safeParse({
+        variables: {
+          CONFIG: {
+            type: 'string',
+            format: 'json',
+            jsonSchema: { type: 'object', properties: { name: { type: 'string', pattern: '([' } } },
+          },
+        },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]).toMatchObject({
+        path: ['variables', 'CONFIG', 'jsonSchema', 'properties', 'name', 'pattern'],
+        message: 'Invalid regular expression',
+      });
+    });
+
+    it('should reject min/max bounds that do not fit the variable type when loading', () => {
+      const schemaPath = writeJson('env.schema.json', {
+        variables: {
+          PORT: { type: 'number', min: 'abc' },
+          TIMEOUT: { type: 'duration', min: '1s', max: '10 minutes' },
+          RETRIES: { type: 'number', min: 0, max: 5 },
+        },
+        environments: { production: { RETRIES: { max: '5' } } },
+      });
+
+      const result = loadSchema(schemaPath);
+
+      expect(result).toMatchObject({ success: false, code: 'EG6003' });
+      expect(result.issues?.map((issue) => [issue.path.join('.'), issue.message])).toEqual([
+        ['variables.PORT.min', 'Invalid min "abc" for type number'],
+        ['variables.TIMEOUT.max', 'Invalid max "10 minutes" for type duration'],
+        ['environments.production.RETRIES.max', 'Invalid max "5" for type number'],
+      ]);
+    });
+
+    it('should reject overrides for unknown variables', () => {
+      const result = EnvSchemaDefinition.safeParse({
+        variables: {},
+        environments: { production: { MISSING: { required: true } } },
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject bad replacements, aliases and removal dates', () => {
+      const parse = (variables: Record<string, unknown>) =>
+        EnvSchemaDefinition.safeParse({ variables }).success;
+
+      expect(parse({ A: { type: 'string', deprecated: true, replacedBy: 'B' } })).toBe(false);
+      expect(parse({ A: { type: 'string', aliases: ['B'] }, B: { type: 'string' } })).toBe(false);
+      expect(parse({ A: { type: 'string', deprecated: { removalDate: 'soon' } } })).toBe(false);
+      expect(
+        parse({ A: { type: 'string', aliases: [{ name: 'B', removalDate: '2025-06-30' }] } })
+      ).toBe(true);
+    });
+  });
+
+  describe('resolveEnvironmentName', () => {
+    it('should prefer the explicit name', () => {
+      expect(resolveEnvironmentName('staging', { NODE_ENV: 'production' })).toBe('staging');
+    });
+
+    it('should fall back to NODE_ENV', () => {
+      expect(resolveEnvironmentName(undefined, { NODE_ENV: 'production' })).toBe('production');
+      expect(resolveEnvironmentName(undefined, {})).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseDuration, parseBytes, parseUnitValue } from '../../src/core/units';
+
+describe('units', () => {
+  describe('parseDuration', () => {
+    it('should parse single units to milliseconds', () => {
+      expect(parseDuration('250ms')).toBe(250);
+      expect(parseDuration('30s')).toBe(30_000);
+      expect(parseDuration('5m')).toBe(300_000);
+      expect(parseDuration('1h')).toBe(3_600_000);
+      expect(parseDuration('2d')).toBe(172_800_000);
+      expect(parseDuration('1.5s')).toBe(1500);
+    });
+
+    it('should parse compound durations', () => {
+      expect(parseDuration('1h30m')).toBe(5_400_000);
+      expect(parseDuration('1h 30m 15s')).toBe(5_415_000);
+    });
+
+    it('should treat plain numbers as milliseconds', () => {
+      expect(parseDuration('1500')).toBe(1500);
+    });
+
+    it('should reject unknown units and garbage', () => {
+      expect(parseDuration('10 minutes')).toBeUndefined();
+      expect(parseDuration('1y')).toBeUndefined();
+      expect(parseDuration('abc')).toBeUndefined();
+      expect(parseDuration('')).toBeUndefined();
+    });
+  });
+
+  describe('parseBytes', () => {
+    it('should parse decimal and binary units', () => {
+      expect(parseBytes('512B')).toBe(512);
+      expect(parseBytes('10MB')).toBe(10_000_000);
+      expect(parseBytes('10 MiB')).toBe(10_485_760);
+      expect(parseBytes('1.5kb')).toBe(1500);
+      expect(parseBytes('1GiB')).toBe(1_073_741_824);
+    });
+
+    it('should treat plain numbers as bytes', () => {
+      expect(parseBytes('2048')).toBe(2048);
+    });
+
+    it('should reject unknown units', () => {
+      expect(parseBytes('10 megs')).toBeUndefined();
+    });
+  });
+
+  describe('parseUnitValue', () => {
+    it('should pass numbers through', () => {
+      expect(parseUnitValue(100, 'duration')).toBe(100);
+      expect(parseUnitValue('1KiB', 'bytes')).toBe(1024);
+    });
+  });
+});
@@ -326,6 +326,455 @@ describe('validator', () => {
     });
   });
 
+  describe('array variables', () => {
+    it('should split lists into typed arrays', () => {
+      const schema: EnvSchema = {
+        variables: {
+          CORS_ORIGINS: { type: 'array', required: true, items: { type: 'string', format: 'url' } },
+          RETRY_DELAYS: {
+            type: 'array',
+            required: true,
+            separator: ';',
+            items: { type: 'number' },
+          },
+        },
+      };
+
+      const result = validate(schema, {
+        CORS_ORIGINS: 'https://a.com, https://b.com',
+        RETRY_DELAYS: '100;200;400',
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.parsed.CORS_ORIGINS).toEqual(['https://a.com', 'https://b.com']);
+      expect(result.parsed.RETRY_DELAYS).toEqual([100, 200, 400]);
+    });
+
+    it('should validate item formats with the built-in validators', () => {
+      const schema: EnvSchema = {
+        variables: {
+          CORS_ORIGINS: { type: 'array', required: true, items: { type: 'string', format: 'url' } },
+        },
+      };
+
+      const result = validate(schema, { CORS_ORIGINS: 'https://a.com,not-a-url' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].type).toBe('invalid_format');
+      expect(result.errors[0].message).toContain('Item 2');
+    });
+
+    it('should reject items that fail type coercion', () => {
+      const schema: EnvSchema = {
+        variables: { PORTS: { type: 'array', required: true, items: { type: 'number' } } },
+      };
+
+      const result = validate(schema, { PORTS: '80,http' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].type).toBe('invalid_type');
+    });
+
+    it('should enforce minItems, maxItems and unique', () => {
+      const schema: EnvSchema = {
+        variables: {
+          KAFKA_BROKERS: {
+            type: 'array',
+            required: true,
+            items: { type: 'string' },
+            minItems: 2,
+            maxItems: 3,
+            unique: true,
+          },
+        },
+      };
+
+      expect(validate(schema, { KAFKA_BROKERS: 'h1:9092,h2:9092' }).valid).toBe(true);
+      expect(validate(schema, { KAFKA_BROKERS: 'h1:9092' }).errors[0].type).toBe('invalid_range');
+      expect(validate(schema, { KAFKA_BROKERS: 'a,b,c,d' }).errors[0].type).toBe('invalid_range');
+      expect(validate(schema, { KAFKA_BROKERS: 'a,a' }).errors[0].message).toContain('duplicate');
+    });
+
+    it('should split string defaults', () => {
+      const schema: EnvSchema = {
+        variables: {
+          LEVELS: {
+            type: 'array',
+            required: false,
+            default: 'info,warn',
+            items: { type: 'string' },
+          },
+        },
+      };
+
+      expect(validate(schema, {}).parsed.LEVELS).toEqual(['info', 'warn']);
+    });
+  });
+
+  describe('conditional requirements', () => {
+    const schema: EnvSchema = {
+      variables: {
+        MAIL_DRIVER: { type: 'string', required: true, enum: ['smtp', 'log'] },
+        SMTP_PASSWORD: {
+          type: 'string',
+          required: true,
+          requiredIf: { variable: 'MAIL_DRIVER', equals: 'smtp' },
+        },
+      },
+    };
+
+    it('should require the variable when the condition matches', () => {
+      const result = validate(schema, { MAIL_DRIVER: 'smtp' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatchObject({
+        variable: 'SMTP_PASSWORD',
+        type: 'missing',
+        condition: 'required when MAIL_DRIVER = smtp',
+      });
+    });
+
+    it('should treat the variable as optional otherwise', () => {
+      const result = validate(schema, { MAIL_DRIVER: 'log' });
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should still validate a provided conditional value', () => {
+      const withPattern: EnvSchema = {
+        variables: {
+          ...schema.variables,
+          SMTP_PASSWORD: { ...schema.variables.SMTP_PASSWORD, minLength: 8 },
+        },
+      };
+
+      const result = validate(withPattern, { MAIL_DRIVER: 'log', SMTP_PASSWORD: 'short' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].type).toBe('invalid_range');
+    });
+  });
+
+  describe('rules', () => {
+    it('should report rule violations after per-variable parsing', () => {
+      const schema: EnvSchema = {
+        variables: {
+          DB_POOL_MIN: { type: 'number', required: false, default: 2 },
+          DB_POOL_MAX: { type: 'number', required: true },
+        },
+        rules: [{ type: 'compare', left: 'DB_POOL_MIN', operator: '<=', right: 'DB_POOL_MAX' }],
+      };
+
+      expect(validate(schema, { DB_POOL_MAX: '10' }).valid).toBe(true);
+
+      const result = validate(schema, { DB_POOL_MAX: '1' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].type).toBe('rule_violation');
+      expect(result.errors[0].variables).toEqual(['DB_POOL_MIN', 'DB_POOL_MAX']);
+    });
+  });
+
+  describe('duration and bytes variables', () => {
+    const schema: EnvSchema = {
+      variables: {
+        REQUEST_TIMEOUT: { type: 'duration', required: true, min: '1s', max: '5m' },
+        CACHE_TTL: { type: 'duration', required: false, default: '1h' },
+        MAX_UPLOAD: { type: 'bytes', required: true, max: '100MB' },
+      },
+    };
+
+    it('should parse units into milliseconds and bytes', () => {
+      const result = validate(schema, { REQUEST_TIMEOUT: '30s', MAX_UPLOAD: '10MB' });
+
+      expect(result.valid).toBe(true);
+      expect(result.parsed).toEqual({
+        REQUEST_TIMEOUT: 30_000,
+        CACHE_TTL: 3_600_000,
+        MAX_UPLOAD: 10_000_000,
+      });
+    });
+
+    it('should reject values without a known unit', () => {
+      const result = validate(schema, { REQUEST_TIMEOUT: '30 seconds', MAX_UPLOAD: '1MB' });
+
+      expect(result.errors[0]).toMatchObject({ variable: 'REQUEST_TIMEOUT', type: 'invalid_type' });
+    });
+
+    it('should check min/max given as unit strings', () => {
+      const result = validate(schema, { REQUEST_TIMEOUT: '500ms', MAX_UPLOAD: '1GB' });
+
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0].message).toBe('Value 500ms is less than minimum 1s');
+      expect(result.errors[1].message).toBe('Value 1GB is greater than maximum 100MB');
+    });
+  });
+
+  describe('sensitive variables', () => {
+    it('should redact values in messages and received', () => {
+      const schema: EnvSchema = {
+        variables: {
+          DB_PASSWORD: { type: 'number', required: true, sensitive: true },
+          API_TOKEN: { type: 'string', required: true, sensitive: true, enum: ['a', 'b'] },
+        },
+      };
+
+      const result = validate(schema, { DB_PASSWORD: 'hunter2', API_TOKEN: 'sk-live-123' });
+
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0].message).toBe('Cannot convert "[REDACTED]" to number');
+      expect(result.errors[0].received).toBe('[REDACTED]');
+      expect(result.errors[1].received).toBe('[REDACTED]');
+      expect(JSON.stringify(result.errors)).not.toMatch(/hunter2|sk-live-123/);
+    });
+
+    it('should redact defaults and rule operands', () => {
+      const schema: EnvSchema = {
+        variables: {
+          SIGNING_SECRET: { type: 'string', required: false, default: 'dev', sensitive: true },
+          PIN: { type: 'number', required: true, sensitive: true },
+        },
+        rules: [{ type: 'compare', left: 'PIN', operator: '<', right: 100 }],
+      };
+
+      const result = validate(schema, { PIN: '4242' });
+
+      expect(result.warnings[0].message).toBe('Using default value: [REDACTED]');
+      expect(result.errors[0].message).toBe('PIN ([REDACTED]) must be < 100');
+      expect(result.parsed.PIN).toBe(4242);
+    });
+  });
+
+  describe('deprecated variables', () => {
+    const schema: EnvSchema = {
+      variables: {
+        DATABASE_URL: {
+          type: 'string',
+          required: true,
+          format: 'url',
+          aliases: [{ name: 'DB_URL', removalDate: '2025-06-30' }],
+        },
+      },
+    };
+
+    it('should accept a legacy alias with a deprecation warning', () => {
+      const result = validate(
+        schema,
+        { DB_URL: 'https://db.example.com' },
+        { strict: true, now: new Date('2025-01-01') }
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.parsed.DATABASE_URL).toBe('https://db.example.com');
+      expect(result.warnings).toEqual([
+        {
+          variable: 'DB_URL',
+          message: 'DB_URL is deprecated, use DATABASE_URL instead (removal on 2025-06-30)',
+          code: 'EG4004',
+          type: 'deprecated',
+        },
+      ]);
+    });
+
+    it('should fail once the removal date has passed', () => {
+      const result = validate(
+        schema,
+        { DB_URL: 'https://db.example.com' },
+        { now: new Date('2025-07-01') }
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map((e) => e.type)).toEqual(['deprecated', 'missing']);
+    });
+  });
+
+  describe('pattern variables', () => {
+    const schema: EnvSchema = {
+      variables: { PORT: { type: 'number', required: true } },
+      patternVariables: {
+        'FEATURE_FLAG_*': { type: 'boolean', required: false },
+        'TENANT_*_DB_URL': { type: 'string', required: true, format: 'url' },
+      },
+    };
+
+    it('should validate and group matching keys', () => {
+      const result = validate(
+        schema,
+        {
+          PORT: '3000',
+          FEATURE_FLAG_BETA: 'true',
+          FEATURE_FLAG_CHECKOUT: 'off',
+          TENANT_ACME_DB_URL: 'https://db.acme.test',
+        },
+        { strict: true }
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+      expect(result.parsed.FEATURE_FLAG_BETA).toBe(true);
+      expect(result.groups).toEqual({
+        'FEATURE_FLAG_*': { FEATURE_FLAG_BETA: true, FEATURE_FLAG_CHECKOUT: false },
+        'TENANT_*_DB_URL': { TENANT_ACME_DB_URL: 'https://db.acme.test' },
+      });
+    });
+
+    it('should report invalid matches and required families without matches', () => {
+      const result = validate(schema, { PORT: '3000', FEATURE_FLAG_BETA: 'maybe' });
+
+      expect(result.errors.map((e) => [e.variable, e.type])).toEqual([
+        ['FEATURE_FLAG_BETA', 'invalid_type'],
+        ['TENANT_*_DB_URL', 'missing'],
+      ]);
+    });
+  });
+
+  describe('interpolation', () => {
+    const schema: EnvSchema = {
+      variables: {
+        DB_HOST: { type: 'string', required: true },
+        DATABASE_URL: { type: 'string', required: true, format: 'url' },
+      },
+    };
+    const env = { DB_HOST: 'localhost', DATABASE_URL: 'postgres://${DB_USER}@${DB_HOST}/app' };
+
+    it('should only expand when enabled', () => {
+      expect(validate(schema, env).parsed.DATABASE_URL).toBe(env.DATABASE_URL);
+      expect(
+        validate(schema, env, { expand: true, fallbackEnv: { DB_USER: 'app' } }).parsed
+      ).toEqual({ DB_HOST: 'localhost', DATABASE_URL: 'postgres://app@localhost/app' });
+      expect(validate({ ...schema, expand: true }, { ...env, DB_USER: 'app' }).valid).toBe(true);
+    });
+
+    it('should report unresolved references as their own error type', () => {
+      const result = validate(schema, env, { expand: true });
+
+      expect(result.errors).toEqual([
+        {
+          variable: 'DATABASE_URL',
+          message: 'Unresolved reference ${DB_USER}',
+          code: 'EG5001',
+          type: 'unresolved_reference',
+        },
+      ]);
+    });
+  });
+
+  describe('json variables', () => {
+    const schema: EnvSchema = {
+      variables: {
+        FEATURE_FLAGS: {
+          type: 'string',
+          required: true,
+          format: 'json',
+          jsonSchema: {
+            type: 'object',
+            properties: { rollout: { type: 'integer', maximum: 100 } },
+            required: ['rollout'],
+          },
+        },
+      },
+    };
+
+    it('should parse values matching the embedded JSON Schema', () => {
+      const result = validate(schema, { FEATURE_FLAGS: '{"rollout":25}' });
+
+      expect(result.valid).toBe(true);
+      expect(result.parsed.FEATURE_FLAGS).toEqual({ rollout: 25 });
+    });
+
+    it('should point at the failing value', () => {
+      const result = validate(schema, { FEATURE_FLAGS: '{"rollout":150}' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatchObject({
+        type: 'invalid_format',
+        pointer: '/rollout',
+        message: 'Invalid JSON at /rollout: must be <= 100',
+      });
+    });
+  });
+
+  describe('multiple errors', () => {
+    const schema: EnvSchema = {
+      variables: {
+        CODE: {
+          type: 'string',
+          required: true,
+          format: 'email',
+          minLength: 10,
+          pattern: '^[A-Z]+$',
+        },
+        PORT: { type: 'number', required: true, min: 1024, max: 2000, enum: ['1', '2'] },
+        HOSTS: {
+          type: 'array',
+          required: true,
+          minItems: 3,
+          items: { type: 'string', format: 'url' },
+        },
+      },
+    };
+    const env = { CODE: 'abc', PORT: '80', HOSTS: 'nope,http://ok.dev' };
+
+    it('should report every failing constraint as its own error', () => {
+      const result = validate(schema, env);
+      const messagesOf = (name: string) =>
+        result.errors.filter((e) => e.variable === name).map((e) => e.message);
+
+      expect(messagesOf('CODE')).toEqual([
+        'Invalid email format',
+        'Value length 3 is less than minimum 10',
+        'Value does not match pattern: ^[A-Z]+$',
+      ]);
+      expect(messagesOf('PORT')).toEqual([
+        'Value must be one of: 1, 2',
+        'Value 80 is less than minimum 1024',
+      ]);
+      expect(messagesOf('HOSTS')).toEqual([
+        'Item 1 ("nope") has invalid url format',
+        'List has 2 item(s), fewer than minimum 3',
+      ]);
+      expect(result.parsed).toEqual({});
+    });
+
+    it('should keep checking the raw value after a type error', () => {
+      const result = validate(
+        { variables: { N: { type: 'number', required: true, pattern: '^\\d+$' } } },
+        { N: 'abc' }
+      );
+
+      expect(result.errors.map((e) => e.type)).toEqual(['invalid_type', 'invalid_format']);
+    });
+
+    it('should stop at the first failure per variable with bail', () => {
+      const result = validate(schema, env, { bail: true });
+
+      expect(result.errors.map((e) => `${e.variable}: ${e.message}`)).toEqual([
+        'CODE: Invalid email format',
+        'PORT: Value must be one of: 1, 2',
+        'HOSTS: Item 1 ("nope") has invalid url format',
+      ]);
+    });
+
+    it('should report each JSON Schema issue unless bailing', () => {
+      const json: EnvSchema = {
+        variables: {
+          CONFIG: {
+            type: 'string',
+            required: true,
+            format: 'json',
+            jsonSchema: { type: 'object', required: ['a', 'b'] },
+          },
+        },
+      };
+
+      expect(validate(json, { CONFIG: '{}' }).errors).toHaveLength(2);
+      expect(validate(json, { CONFIG: '{}' }, { bail: true }).errors).toEqual([
+        expect.objectContaining({ message: expect.stringContaining('(and 1 more)') }),
+      ]);
+    });
+  });
+
   describe('isValid', () => {
     it('should return true for valid env', () => {
       const schema: EnvSchema = {
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { diffStatuses, watchFiles } from '../../src/core/watcher';
+
+describe('watcher', () => {
+  describe('diffStatuses', () => {
+    it('should list changed, new and removed variables', () => {
+      const changes = diffStatuses(
+        { PORT: 'invalid', HOST: 'valid', OLD: 'missing' },
+        { PORT: 'valid', HOST: 'valid', NEW: 'default' }
+      );
+
+      expect(changes).toEqual([
+        { variable: 'PORT', from: 'invalid', to: 'valid' },
+        { variable: 'NEW', from: undefined, to: 'default' },
+        { variable: 'OLD', from: 'missing' },
+      ]);
+    });
+
+    it('should return nothing when no status changed', () => {
+      expect(diffStatuses({ PORT: 'valid' }, { PORT: 'valid' })).toEqual([]);
+    });
+  });
+
+  describe('watchFiles', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-guardian-watch-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should report a burst of changes to watched files once', async () => {
+      const envPath = path.join(tmpDir, '.env');
+      const localPath = path.join(tmpDir, '.env.local');
+      fs.writeFileSync(envPath, 'PORT=3000\n');
+
+      const batches: string[][] = [];
+      const watcher = watchFiles([envPath, localPath], (changed) => batches.push(changed), {
+        debounce: 50,
+      });
+
+      try {
+        fs.writeFileSync(envPath, 'PORT=3001\n');
+        fs.writeFileSync(envPath, 'PORT=3002\n');
+        fs.writeFileSync(localPath, 'HOST=localhost\n');
+        fs.writeFileSync(path.join(tmpDir, 'unrelated.txt'), 'x');
+
+        await new Promise((resolve) => setTimeout(resolve, 300));
+      } finally {
+        watcher.close();
+      }
+
+      expect(batches).toHaveLength(1);
+      expect(batches[0].sort()).toEqual([envPath, localPath]);
+    });
+  });
+});
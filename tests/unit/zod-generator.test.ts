@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { generateZodSchema } from '../../src/core/zod-generator';
+import { validate } from '../../src/core/validator';
+import { base, loadGenerated, schema } from '../helpers/generated-module';
+import type { GeneratedZodModule } from '../helpers/generated-module';
+
+describe('zod-generator', () => {
+  describe('generateZodSchema', () => {
+    const generated = loadGenerated<GeneratedZodModule>(generateZodSchema(schema));
+
+    it.each([
+      ['a minimal valid environment', base],
+      ['a missing required variable', { NODE_ENV: 'production' }],
+      ['an empty required variable', { ...base, PORT: '' }],
+      ['a non-numeric number', { ...base, PORT: 'abc' }],
+      ['a number below its minimum', { ...base, PORT: '0' }],
+      ['a number above its maximum', { ...base, PORT: '70000' }],
+      ['a boolean alias', { ...base, DEBUG: 'yes' }],
+      ['an invalid boolean', { ...base, DEBUG: 'maybe' }],
+      ['a value outside the enum', { ...base, NODE_ENV: 'staging' }],
+      ['a valid url', { ...base, API_URL: 'https://example.com' }],
+      ['an invalid url', { ...base, API_URL: 'not a url' }],
+      ['a duration within its maximum', { ...base, TIMEOUT: '30s' }],
+      ['a duration above its maximum', { ...base, TIMEOUT: '2m' }],
+      ['a size below its minimum', { ...base, UPLOAD_LIMIT: '512B' }],
+      ['a valid list', { ...base, ADMINS: 'a@example.com;b@example.com' }],
+      ['a list with duplicates', { ...base, ADMINS: 'a@example.com;a@example.com' }],
+      ['a list with an invalid item', { ...base, ADMINS: 'a@example.com;not valid' }],
+      ['a list with an item outside the enum', { ...base, REGIONS: 'eu,asia' }],
+      ['a list of numbers', { ...base, RETRIES: '1, 2, 3' }],
+      ['a list with a non-numeric item', { ...base, RETRIES: '1,x' }],
+      ['a value matching its pattern', { ...base, CODE: 'ABC' }],
+      ['a value not matching its pattern', { ...base, CODE: 'abc' }],
+      ['JSON matching its JSON Schema', { ...base, CONFIG: '{"name":"app"}' }],
+      ['JSON not matching its JSON Schema', { ...base, CONFIG: '{"other":1}' }],
+      ['malformed JSON', { ...base, CONFIG: '{' }],
+      ['a conditionally required variable that is missing', { ...base, MAIL_DRIVER: 'smtp' }],
+      [
+        'a conditionally required variable that is set',
+        { ...base, MAIL_DRIVER: 'smtp', SMTP_PASSWORD: 'x' },
+      ],
+      ['a condition on the parsed value', { ...base, PORT: '443.0' }],
+      ['an unmet requiredUnless', { ...base, NODE_ENV: 'development' }],
+      ['a met requiredUnless', { ...base, NODE_ENV: 'development', DEV_TOKEN: 'x' }],
+      ['a value read from its alias', { ...base, SERVICE_URL: 'https://example.com' }],
+      ['an invalid value read from its alias', { ...base, SERVICE_URL: 'not a url' }],
+      [
+        'an alias behind a set variable',
+        { ...base, API_URL: 'https://example.com', SERVICE_URL: 'x' },
+      ],
+      ['a compare rule that holds', { ...base, POOL_MIN: '1', POOL_MAX: '5' }],
+      ['a broken compare rule', { ...base, POOL_MIN: '10', POOL_MAX: '5' }],
+      ['half of an allOrNone group', { ...base, POOL_MIN: '1' }],
+    ])('should agree with validate() on %s', (_case, env: Record<string, string>) => {
+      const expected = validate(schema, env);
+      const actual = generated.envSchema.safeParse(env);
+
+      expect(actual.success).toBe(expected.valid);
+    });
+
+    it('should parse values to the same types as validate()', () => {
+      const env = {
+        ...base,
+        TIMEOUT: '1m',
+        ADMINS: 'a@example.com',
+        REGIONS: 'us',
+        RETRIES: '1,2',
+      };
+      const { parsed } = validate(schema, env);
+
+      expect(generated.parseEnv(env)).toEqual({
+        PORT: parsed.PORT,
+        DEBUG: false,
+        NODE_ENV: parsed.NODE_ENV,
+        TIMEOUT: parsed.TIMEOUT,
+        ADMINS: parsed.ADMINS,
+        REGIONS: parsed.REGIONS,
+        RETRIES: parsed.RETRIES,
+      });
+    });
+
+    it('should throw listing every problem', () => {
+      expect(() => generated.parseEnv({ PORT: 'abc' })).toThrow(/Expected a number[\s\S]*NODE_ENV/);
+    });
+
+    it('should report cross-variable problems on the variables involved', () => {
+      const result = generated.envSchema.safeParse({ ...base, MAIL_DRIVER: 'smtp', POOL_MIN: '1' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map(({ path, message }) => ({ path, message }))).toEqual([
+        {
+          path: ['SMTP_PASSWORD'],
+          message: 'Required variable is missing (required when MAIL_DRIVER = smtp)',
+        },
+        { path: [], message: 'POOL_MIN, POOL_MAX must be set together (missing POOL_MAX)' },
+      ]);
+    });
+
+    it('should note the schema features it does not check', () => {
+      const output = generateZodSchema({
+        variables: { DB_URL: { type: 'string', required: false, deprecated: true } },
+        expand: true,
+      });
+
+      expect(output).toContain(
+        '// Not checked here, use env-guardian-cli validate: deprecations, ${VAR} expansion'
+      );
+      expect(output).toContain('export const envSchema = z.object({');
+    });
+
+    it('should only emit the helpers it uses', () => {
+      const output = generateZodSchema({
+        variables: { HOST: { type: 'string', required: true } },
+      });
+
+      expect(output).toContain('HOST: required(z.string())');
+      expect(output).not.toContain('function withDefault');
+      expect(output).not.toContain('function parseNumber');
+    });
+  });
+});